@@ -9,7 +9,12 @@
  */
 
 import { Effect, Option, Schema, ParseResult, Duration } from 'effect'
-import { CacheService, CacheClientError, ExecutionContextService } from './effect/services.js'
+import {
+  CacheService,
+  CacheClientError,
+  ExecutionContextService,
+  type CacheClient,
+} from './effect/services.js'
 
 // ============================================================================
 // Types
@@ -348,3 +353,60 @@ export const cacheInvalidatePrefix = (
       cursor = page.cursor
     }
   })
+
+// ============================================================================
+// In-memory Driver
+// ============================================================================
+
+/**
+ * Create a CacheClient that keeps values in a Map, honouring `expirationTtl`.
+ * Useful in tests and local scripts where no KV binding exists.
+ *
+ * @example
+ * ```typescript
+ * const layer = Layer.succeed(CacheService, createMemoryCacheClient())
+ * ```
+ */
+export const createMemoryCacheClient = (
+  initial: Record<string, string> = {},
+  now: () => number = Date.now
+): CacheClient => {
+  const entries = new Map<string, { value: string; expiresAt?: number }>(
+    Object.entries(initial).map(([key, value]) => [key, { value }])
+  )
+
+  const live = (key: string) => {
+    const entry = entries.get(key)
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= now()) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  return {
+    get: (key) => Effect.sync(() => live(key)?.value ?? null),
+    put: (key, value, options) =>
+      Effect.sync(() => {
+        entries.set(key, {
+          value,
+          expiresAt:
+            options?.expirationTtl !== undefined
+              ? now() + options.expirationTtl * 1000
+              : undefined,
+        })
+      }),
+    delete: (key) =>
+      Effect.sync(() => {
+        entries.delete(key)
+      }),
+    list: (options) =>
+      Effect.sync(() => ({
+        keys: [...entries.keys()]
+          .filter((name) => name.startsWith(options?.prefix ?? '') && live(name))
+          .sort()
+          .map((name) => ({ name })),
+        list_complete: true,
+      })),
+  }
+}
@@ -8,12 +8,17 @@
 import { resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { runRoutes, routesHelp } from './index.js'
+import { runEvents, eventsHelp } from './events.js'
+import { runQueueWork, queueWorkHelp, runQueueFailed, queueFailedHelp } from './queue.js'
+import { runScheduleList, scheduleListHelp, runScheduleRun, scheduleRunHelp } from './schedule.js'
 import { runCheck, checkHelp } from './check.js'
 import { runDb, dbHelp } from './db.js'
 import { runGenerateAction, generateActionHelp, runGenerateCrud, generateCrudHelp } from './generate.js'
 import { runGenerateFeature, generateFeatureHelp } from './feature.js'
 import { runGenerateOpenApi, generateOpenApiHelp } from './openapi.js'
 import { runGenerateInlineTestsRunner, generateInlineTestsRunnerHelp } from './inline-tests.js'
+import { runGeneratePages, generatePagesHelp } from './pages.js'
+import { runGenerateRoutesClient, generateRoutesClientHelp } from './routes-client.js'
 
 function mainHelp(): string {
   return `
@@ -24,6 +29,11 @@ USAGE:
 
 COMMANDS:
   routes                        List registered routes
+  events                        List registered events and listeners
+  queue:work                    Run jobs from the local queue
+  queue:failed                  List and retry failed jobs
+  schedule:list                 List scheduled tasks
+  schedule:run <name>           Run a scheduled task now
   check                         Validate project routes/configuration
   db <subcommand>               Database migration commands
   db:status                     Alias for "db status"
@@ -35,6 +45,8 @@ COMMANDS:
   generate:feature <name>       Generate a colocated feature file
   generate:openapi              Generate OpenAPI spec
   generate:tests-runner         Generate inline tests runner
+  generate:pages                Generate HonertiaPages types
+  generate:routes-client        Generate typed route() URL helper
 
 EXAMPLES:
   honertia routes --json
@@ -52,6 +64,16 @@ function commandHelp(command: string): string | null {
   switch (command) {
     case 'routes':
       return routesHelp()
+    case 'events':
+      return eventsHelp()
+    case 'queue:work':
+      return queueWorkHelp()
+    case 'queue:failed':
+      return queueFailedHelp()
+    case 'schedule:list':
+      return scheduleListHelp()
+    case 'schedule:run':
+      return scheduleRunHelp()
     case 'check':
       return checkHelp()
     case 'db':
@@ -70,6 +92,10 @@ function commandHelp(command: string): string | null {
       return generateOpenApiHelp()
     case 'generate:tests-runner':
       return generateInlineTestsRunnerHelp()
+    case 'generate:pages':
+      return generatePagesHelp()
+    case 'generate:routes-client':
+      return generateRoutesClientHelp()
     default:
       return null
   }
@@ -111,6 +137,21 @@ export async function runCli(args: string[] = process.argv.slice(2)): Promise<vo
     case 'routes':
       runRoutes(rest)
       return
+    case 'events':
+      runEvents(rest)
+      return
+    case 'queue:work':
+      await runQueueWork(rest)
+      return
+    case 'queue:failed':
+      await runQueueFailed(rest)
+      return
+    case 'schedule:list':
+      await runScheduleList(rest)
+      return
+    case 'schedule:run':
+      await runScheduleRun(rest)
+      return
     case 'check':
       runCheck(rest)
       return
@@ -144,6 +185,12 @@ export async function runCli(args: string[] = process.argv.slice(2)): Promise<vo
     case 'generate:tests-runner':
       runGenerateInlineTestsRunner(rest)
       return
+    case 'generate:pages':
+      runGeneratePages(rest)
+      return
+    case 'generate:routes-client':
+      runGenerateRoutesClient(rest)
+      return
     default:
       console.error(`Unknown command: ${command}`)
       console.error('Run "honertia --help" for usage')
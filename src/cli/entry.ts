@@ -0,0 +1,28 @@
+/**
+ * Entry Modules
+ *
+ * Loads the app module that registers jobs and schedules for CLI commands
+ * that run them.
+ */
+
+import type { MiddlewareHandler } from 'hono'
+
+/**
+ * Exports read from an entry module. Both are optional; without
+ * `middleware`, tasks run with `effectBridge()` defaults.
+ */
+export interface EntryModule {
+  /** Middleware that sets up services, such as the one from `setupHonertia()` */
+  middleware?: MiddlewareHandler<any>
+  /** Bindings passed to tasks as `c.env` */
+  env?: unknown
+}
+
+/**
+ * Import an entry module by path, relative to the working directory.
+ */
+export async function loadEntryModule(entry: string): Promise<EntryModule> {
+  const { resolve } = await import('node:path')
+  const { pathToFileURL } = await import('node:url')
+  return (await import(pathToFileURL(resolve(entry)).href)) as EntryModule
+}
@@ -0,0 +1,211 @@
+/**
+ * Events Command
+ *
+ * Lists registered events and their listeners.
+ */
+
+import {
+  EventRegistry,
+  getGlobalEventRegistry,
+  type EventMetadataJson,
+} from '../effect/events.js'
+import type { OutputFormat } from './index.js'
+
+/**
+ * Options for the events command.
+ */
+export interface EventsCommandOptions {
+  /**
+   * Output format (default: 'table').
+   */
+  format?: OutputFormat
+  /**
+   * Filter by event name prefix (e.g. `order.`).
+   */
+  prefix?: string
+}
+
+/**
+ * Result of the events command.
+ */
+export interface EventsCommandResult {
+  /**
+   * Events found matching the filters.
+   */
+  events: EventMetadataJson[]
+  /**
+   * Formatted output string.
+   */
+  output: string
+  /**
+   * Total count of events.
+   */
+  count: number
+}
+
+function describeListener(listener: EventMetadataJson['listeners'][number]): string {
+  return listener.deferred ? `${listener.name} (deferred)` : listener.name
+}
+
+/**
+ * Format events as a minimal list (one `event: listeners` line each).
+ */
+function formatMinimal(events: EventMetadataJson[]): string {
+  if (events.length === 0) {
+    return 'No events found.'
+  }
+
+  return events
+    .map((event) => `${event.name}: ${event.listeners.map(describeListener).join(', ') || '-'}`)
+    .join('\n')
+}
+
+/**
+ * Format events as a table with one row per listener.
+ */
+function formatTable(events: EventMetadataJson[]): string {
+  if (events.length === 0) {
+    return 'No events found.'
+  }
+
+  const eventWidth = Math.max(5, ...events.map((event) => event.name.length))
+  const lines: string[] = []
+
+  lines.push(`${'EVENT'.padEnd(eventWidth)}  LISTENERS`)
+  lines.push(`${'-'.repeat(eventWidth)}  ${'-'.repeat(9)}`)
+
+  for (const event of events) {
+    const listeners = event.listeners.length > 0 ? event.listeners.map(describeListener) : ['-']
+    listeners.forEach((listener, index) => {
+      lines.push(`${(index === 0 ? event.name : '').padEnd(eventWidth)}  ${listener}`)
+    })
+  }
+
+  const listenerCount = events.reduce((total, event) => total + event.listeners.length, 0)
+  lines.push('')
+  lines.push(
+    `Total: ${events.length} event${events.length === 1 ? '' : 's'}, ` +
+      `${listenerCount} listener${listenerCount === 1 ? '' : 's'}`
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * List all registered events and their listeners.
+ *
+ * @example
+ * ```typescript
+ * import './app' // Defines events and registers listeners
+ * import { eventsCommand, getGlobalEventRegistry } from 'honertia/cli'
+ *
+ * console.log(eventsCommand(getGlobalEventRegistry(), { format: 'json' }).output)
+ * ```
+ */
+export function eventsCommand(
+  registry: EventRegistry = getGlobalEventRegistry(),
+  options: EventsCommandOptions = {}
+): EventsCommandResult {
+  const { format = 'table', prefix } = options
+
+  let events = registry.toJson()
+  if (prefix) {
+    events = events.filter((event) => event.name.startsWith(prefix))
+  }
+
+  let output: string
+  switch (format) {
+    case 'json':
+      output = JSON.stringify(events, null, 2)
+      break
+    case 'minimal':
+      output = formatMinimal(events)
+      break
+    case 'table':
+    default:
+      output = formatTable(events)
+      break
+  }
+
+  return { events, output, count: events.length }
+}
+
+/**
+ * Parse CLI arguments for the events command.
+ */
+export function parseEventsArgs(args: string[]): EventsCommandOptions {
+  const options: EventsCommandOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--json':
+        options.format = 'json'
+        break
+      case '--minimal':
+        options.format = 'minimal'
+        break
+      case '--table':
+        options.format = 'table'
+        break
+      case '--prefix':
+      case '-p':
+        options.prefix = args[++i]
+        break
+    }
+  }
+
+  return options
+}
+
+/**
+ * Get help text for the events command.
+ */
+export function eventsHelp(): string {
+  return `
+honertia events - List registered events and their listeners
+
+USAGE:
+  honertia events [OPTIONS]
+
+OPTIONS:
+  --json          Output as JSON (machine-readable)
+  --minimal       Output as minimal list (EVENT: LISTENERS)
+  --table         Output as formatted table (default)
+
+  -p, --prefix    Filter by event name prefix
+
+EXAMPLES:
+  # List all events as a table
+  honertia events
+
+  # Output as JSON for agent consumption
+  honertia events --json
+
+  # Only order events
+  honertia events --prefix order.
+`.trim()
+}
+
+/**
+ * Run the events command from CLI arguments.
+ *
+ * @example
+ * ```typescript
+ * // scripts/events.ts
+ * import './app' // Register events and listeners
+ * import { runEvents } from 'honertia/cli'
+ *
+ * runEvents(process.argv.slice(2))
+ * ```
+ */
+export function runEvents(
+  args: string[] = [],
+  registry: EventRegistry = getGlobalEventRegistry()
+): void {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(eventsHelp())
+    return
+  }
+
+  console.log(eventsCommand(registry, parseEventsArgs(args)).output)
+}
@@ -373,6 +373,57 @@ export function runRoutes(
 // Re-export registry functions for convenience
 export { RouteRegistry, getGlobalRegistry, resetGlobalRegistry } from '../effect/route-registry.js'
 
+// Re-export event registry functions for convenience
+export { EventRegistry, getGlobalEventRegistry, resetGlobalEventRegistry } from '../effect/events.js'
+
+// Re-export schedule registry functions for convenience
+export { ScheduleRegistry, getGlobalScheduleRegistry, resetGlobalScheduleRegistry } from '../effect/schedule.js'
+
+// Events listing
+export {
+  eventsCommand,
+  parseEventsArgs,
+  eventsHelp,
+  runEvents,
+  type EventsCommandOptions,
+  type EventsCommandResult,
+} from './events.js'
+
+// Queue workers
+export {
+  DEFAULT_QUEUE_PATH,
+  formatJobAttempt,
+  queueFailedCommand,
+  parseQueueWorkArgs,
+  parseQueueFailedArgs,
+  queueWorkHelp,
+  queueFailedHelp,
+  runQueueWork,
+  runQueueFailed,
+  type QueueWorkOptions,
+  type QueueFailedOptions,
+  type QueueFailedResult,
+} from './queue.js'
+
+// Scheduled tasks
+export {
+  scheduleListCommand,
+  scheduleRunCommand,
+  parseScheduleListArgs,
+  parseScheduleRunArgs,
+  scheduleListHelp,
+  scheduleRunHelp,
+  runScheduleList,
+  runScheduleRun,
+  type ScheduleListOptions,
+  type ScheduleListResult,
+  type ScheduleRunOptions,
+  type ScheduleRunCommandResult,
+} from './schedule.js'
+
+// Entry modules
+export { loadEntryModule, type EntryModule } from './entry.js'
+
 // Code generation
 export {
   generateAction,
@@ -409,6 +460,32 @@ export {
   type GenerateInlineTestsRunnerResult,
 } from './inline-tests.js'
 
+// Page types generation
+export {
+  generatePages,
+  exportsPropsType,
+  parseGeneratePagesArgs,
+  generatePagesHelp,
+  runGeneratePages,
+  type GeneratePagesOptions,
+  type GeneratePagesResult,
+  type GeneratePagesCliOptions,
+  type GeneratedPage,
+} from './pages.js'
+
+// Routes client generation
+export {
+  generateRoutesClient,
+  parseGenerateRoutesClientArgs,
+  generateRoutesClientHelp,
+  runGenerateRoutesClient,
+  type GenerateRoutesClientOptions,
+  type GenerateRoutesClientResult,
+  type GenerateRoutesClientCliOptions,
+  type RoutesClientRoute,
+  type RoutesClientParam,
+} from './routes-client.js'
+
 // Project health checks
 export {
   checkCommand,
@@ -0,0 +1,299 @@
+/**
+ * Page Types Generator
+ *
+ * Scans the pages directory and generates a `HonertiaPages` module
+ * augmentation, so `render()` checks component names and props.
+ */
+
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs'
+import { dirname, extname, join, relative, resolve, sep } from 'node:path'
+
+export interface GeneratePagesOptions {
+  /**
+   * Pages directory (relative to project root).
+   */
+  pagesDir?: string
+  /**
+   * Output path for the declaration file.
+   */
+  output?: string
+  /**
+   * Name of the exported props type in each page.
+   */
+  propsType?: string
+  /**
+   * Project root (default: process.cwd()).
+   */
+  cwd?: string
+}
+
+export interface GeneratedPage {
+  /**
+   * Component name passed to `render()`, e.g. `Projects/Show`.
+   */
+  component: string
+  /**
+   * Page file path relative to the project root.
+   */
+  file: string
+  /**
+   * Whether the page exports its props type. Pages without one
+   * accept any props.
+   */
+  typed: boolean
+}
+
+export interface GeneratePagesResult {
+  /**
+   * Output file path.
+   */
+  path: string
+  /**
+   * Declaration file content.
+   */
+  content: string
+  /**
+   * Pages found, sorted by component name.
+   */
+  pages: GeneratedPage[]
+}
+
+export interface GeneratePagesCliOptions {
+  /**
+   * Pages directory.
+   */
+  pagesDir?: string
+  /**
+   * Output path for the declaration file.
+   */
+  output?: string
+  /**
+   * Name of the exported props type.
+   */
+  propsType?: string
+  /**
+   * Preview content without writing a file.
+   */
+  preview?: boolean
+  /**
+   * Output JSON instead of text.
+   */
+  json?: boolean
+}
+
+const DEFAULT_PAGES_DIR = 'src/pages'
+const DEFAULT_OUTPUT = 'src/types/pages.d.ts'
+const DEFAULT_PROPS_TYPE = 'Props'
+const PAGE_EXTS = new Set(['.tsx', '.ts', '.jsx', '.js'])
+
+function shouldScanFile(name: string): boolean {
+  if (name.endsWith('.d.ts')) return false
+  if (name.includes('.test.') || name.includes('.spec.')) return false
+  return PAGE_EXTS.has(extname(name))
+}
+
+function walkFiles(dir: string, files: string[]): void {
+  const entries = readdirSync(dir, { withFileTypes: true })
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue
+
+    const fullPath = join(dir, entry.name)
+    if (entry.isDirectory()) {
+      walkFiles(fullPath, files)
+      continue
+    }
+
+    if (entry.isFile() && shouldScanFile(entry.name)) {
+      files.push(fullPath)
+    }
+  }
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/')
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Whether the source exports a type or interface with the given name,
+ * directly or through an `export type { ... }` list.
+ */
+export function exportsPropsType(source: string, propsType: string): boolean {
+  const name = escapeRegExp(propsType)
+  const declaration = new RegExp(`export\\s+(?:declare\\s+)?(?:type|interface)\\s+${name}\\b`)
+  if (declaration.test(source)) return true
+
+  const list = new RegExp(`export\\s+(?:type\\s+)?\\{([^}]*)\\}`, 'g')
+  for (const match of source.matchAll(list)) {
+    const names = match[1].split(',').map((part) => {
+      const specifier = part.trim().replace(/^type\s+/, '')
+      const alias = specifier.split(/\s+as\s+/)
+      return (alias[1] ?? alias[0]).trim()
+    })
+    if (names.includes(propsType)) return true
+  }
+
+  return false
+}
+
+/**
+ * Generate the `HonertiaPages` declaration for a pages directory.
+ */
+export function generatePages(options: GeneratePagesOptions = {}): GeneratePagesResult {
+  const cwd = options.cwd ?? process.cwd()
+  const pagesDir = options.pagesDir ?? DEFAULT_PAGES_DIR
+  const output = options.output ?? DEFAULT_OUTPUT
+  const propsType = options.propsType ?? DEFAULT_PROPS_TYPE
+
+  const absolutePagesDir = resolve(cwd, pagesDir)
+  const outputDir = dirname(resolve(cwd, output))
+  const files: string[] = []
+
+  try {
+    walkFiles(absolutePagesDir, files)
+  } catch {
+    // Missing pages directory generates an empty registry
+  }
+
+  const entries = files.map((file) => {
+    const withoutExt = file.slice(0, -extname(file).length)
+    const component = toPosix(relative(absolutePagesDir, withoutExt))
+    let importPath = toPosix(relative(outputDir, withoutExt))
+    if (!importPath.startsWith('.')) importPath = `./${importPath}`
+
+    return {
+      component,
+      file: toPosix(relative(cwd, file)),
+      typed: exportsPropsType(readFileSync(file, 'utf-8'), propsType),
+      importPath,
+    }
+  })
+  entries.sort((a, b) => a.component.localeCompare(b.component))
+
+  const lines = entries.map((entry) => {
+    const type = entry.typed
+      ? `import('${entry.importPath}').${propsType}`
+      : 'Record<string, unknown>'
+    return `    ${JSON.stringify(entry.component)}: ${type}`
+  })
+
+  const content = `/**
+ * Generated by \`honertia generate:pages\`. Do not edit.
+ */
+
+export {}
+
+declare module 'honertia/effect' {
+  interface HonertiaPages {
+${lines.join('\n')}
+  }
+}
+`
+
+  return {
+    path: output,
+    content,
+    pages: entries.map(({ component, file, typed }) => ({ component, file, typed })),
+  }
+}
+
+/**
+ * Parse CLI arguments for page types generation.
+ */
+export function parseGeneratePagesArgs(args: string[]): GeneratePagesCliOptions {
+  const options: GeneratePagesCliOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case '--pages':
+        options.pagesDir = args[++i]
+        break
+      case '--output':
+      case '-o':
+        options.output = args[++i]
+        break
+      case '--props-type':
+        options.propsType = args[++i]
+        break
+      case '--preview':
+        options.preview = true
+        break
+      case '--json':
+        options.json = true
+        break
+    }
+  }
+
+  return options
+}
+
+/**
+ * Get help text for page types generation.
+ */
+export function generatePagesHelp(): string {
+  return `
+honertia generate:pages - Generate HonertiaPages types from page components
+
+USAGE:
+  honertia generate:pages [OPTIONS]
+
+OPTIONS:
+  --pages        Pages directory (default: src/pages)
+  -o, --output   Output file path (default: src/types/pages.d.ts)
+  --props-type   Exported props type name in each page (default: Props)
+  --preview      Preview output without writing file
+  --json         Output as JSON (machine-readable)
+
+Each page should export its props type:
+  export type Props = { project: Project }
+
+Pages without it accept any props.
+
+EXAMPLES:
+  honertia generate:pages
+  honertia generate:pages --pages app/pages --output app/pages.d.ts
+  honertia generate:pages --preview
+`.trim()
+}
+
+/**
+ * Run page types generation from CLI arguments.
+ */
+export function runGeneratePages(args: string[] = []): void {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(generatePagesHelp())
+    return
+  }
+
+  const cliOptions = parseGeneratePagesArgs(args)
+  const result = generatePages({
+    pagesDir: cliOptions.pagesDir,
+    output: cliOptions.output,
+    propsType: cliOptions.propsType,
+  })
+
+  if (cliOptions.json) {
+    console.log(JSON.stringify(result, null, 2))
+    return
+  }
+
+  if (cliOptions.preview) {
+    console.log(`Preview: ${result.path}`)
+    console.log('-'.repeat(50))
+    console.log(result.content)
+    return
+  }
+
+  mkdirSync(dirname(result.path), { recursive: true })
+  writeFileSync(result.path, result.content, 'utf-8')
+
+  const untyped = result.pages.filter((page) => !page.typed)
+  console.log(`Generated: ${result.path} (${result.pages.length} pages)`)
+  if (untyped.length > 0) {
+    console.log(`Pages without an exported props type: ${untyped.map((page) => page.component).join(', ')}`)
+  }
+}
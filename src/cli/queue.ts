@@ -0,0 +1,377 @@
+/**
+ * Queue Commands
+ *
+ * Work the local development queue and manage failed jobs.
+ */
+
+import {
+  createLocalQueue,
+  type FailedJob,
+  type JobAttemptResult,
+  type LocalQueue,
+  type LocalQueuedJob,
+  type WorkResult,
+} from '../effect/queue.js'
+import { Duration, Effect } from 'effect'
+import { loadEntryModule } from './entry.js'
+
+/**
+ * Default file for the local queue, relative to the project root.
+ */
+export const DEFAULT_QUEUE_PATH = '.honertia/queue.json'
+
+/**
+ * Options for the queue:work command.
+ */
+export interface QueueWorkOptions {
+  /**
+   * Module that defines the app's jobs. It may export `middleware`
+   * (e.g. from `setupHonertia()`) and `env` to give jobs their services.
+   */
+  entry?: string
+  /**
+   * Local queue file (default: .honertia/queue.json).
+   */
+  path?: string
+  /**
+   * Process available jobs once and exit.
+   */
+  once?: boolean
+  /**
+   * Milliseconds to wait between polls (default: 1000).
+   */
+  sleep?: number
+}
+
+/**
+ * Options for the queue:failed command.
+ */
+export interface QueueFailedOptions {
+  /**
+   * What to do with failed jobs (default: 'list').
+   */
+  action?: 'list' | 'retry' | 'forget' | 'flush'
+  /**
+   * Failed job ID, or `all` for retry.
+   */
+  id?: string
+  /**
+   * Output as JSON.
+   */
+  json?: boolean
+  /**
+   * Local queue file (default: .honertia/queue.json).
+   */
+  path?: string
+}
+
+/**
+ * Result of the queue:failed command.
+ */
+export interface QueueFailedResult {
+  /**
+   * Failed jobs remaining after the action.
+   */
+  jobs: readonly FailedJob[]
+  /**
+   * Formatted output string.
+   */
+  output: string
+  /**
+   * Number of jobs the action applied to.
+   */
+  count: number
+  /**
+   * Error message, if the action could not be applied.
+   */
+  error?: string
+}
+
+/**
+ * Format one job attempt as a log line.
+ */
+export function formatJobAttempt(job: LocalQueuedJob, result: JobAttemptResult): string {
+  const label = `${job.job} ${job.id}`
+  switch (result.status) {
+    case 'completed':
+      return `DONE   ${label}`
+    case 'retry':
+      return `RETRY  ${label} in ${Duration.format(result.delay)}: ${firstLine(result.error)}`
+    case 'failed':
+      return `FAIL   ${label}: ${firstLine(result.error)}`
+  }
+}
+
+function firstLine(text: string): string {
+  return text.split('\n')[0]
+}
+
+/**
+ * Format failed jobs as a table.
+ */
+function formatFailedTable(jobs: readonly FailedJob[]): string {
+  if (jobs.length === 0) {
+    return 'No failed jobs.'
+  }
+
+  const idWidth = Math.max(2, ...jobs.map((job) => job.id.length))
+  const jobWidth = Math.max(3, ...jobs.map((job) => job.job.length))
+  const lines: string[] = []
+
+  lines.push(`${'ID'.padEnd(idWidth)}  ${'JOB'.padEnd(jobWidth)}  ATTEMPTS  FAILED AT                 ERROR`)
+  lines.push(`${'-'.repeat(idWidth)}  ${'-'.repeat(jobWidth)}  --------  ------------------------  -----`)
+
+  for (const job of jobs) {
+    lines.push(
+      `${job.id.padEnd(idWidth)}  ${job.job.padEnd(jobWidth)}  ${String(job.attempts).padEnd(8)}  ` +
+        `${job.failedAt.padEnd(24)}  ${firstLine(job.error)}`
+    )
+  }
+
+  lines.push('')
+  lines.push(`Total: ${jobs.length} failed job${jobs.length === 1 ? '' : 's'}`)
+
+  return lines.join('\n')
+}
+
+/**
+ * List, retry, forget or flush failed jobs in a local queue.
+ *
+ * @example
+ * ```typescript
+ * import { createLocalQueue } from 'honertia/effect'
+ * import { queueFailedCommand } from 'honertia/cli'
+ *
+ * const queue = createLocalQueue({ path: '.honertia/queue.json' })
+ * console.log((await queueFailedCommand(queue, { action: 'retry', id: 'all' })).output)
+ * ```
+ */
+export async function queueFailedCommand(
+  queue: LocalQueue,
+  options: QueueFailedOptions = {}
+): Promise<QueueFailedResult> {
+  const { action = 'list', id } = options
+  const list = () => Effect.runPromise(queue.failed.list())
+
+  if (action !== 'list' && action !== 'flush' && !id) {
+    const jobs = await list()
+    return { jobs, output: '', count: 0, error: `queue:failed ${action} requires a job ID` }
+  }
+
+  let count: number
+  let message: string
+  switch (action) {
+    case 'retry': {
+      count = await queue.retryFailed(id === 'all' ? undefined : id)
+      message = `Queued ${count} failed job${count === 1 ? '' : 's'} for retry.`
+      break
+    }
+    case 'forget': {
+      count = (await Effect.runPromise(queue.failed.forget(id!))) ? 1 : 0
+      message = count === 1 ? `Forgot failed job ${id}.` : ''
+      break
+    }
+    case 'flush': {
+      count = (await list()).length
+      await Effect.runPromise(queue.failed.flush())
+      message = `Flushed ${count} failed job${count === 1 ? '' : 's'}.`
+      break
+    }
+    case 'list':
+    default: {
+      const jobs = await list()
+      return {
+        jobs,
+        output: options.json ? JSON.stringify(jobs, null, 2) : formatFailedTable(jobs),
+        count: jobs.length,
+      }
+    }
+  }
+
+  const jobs = await list()
+  if (count === 0 && id && id !== 'all') {
+    return { jobs, output: '', count, error: `No failed job with ID ${id}` }
+  }
+
+  return {
+    jobs,
+    output: options.json ? JSON.stringify({ action, count }, null, 2) : message,
+    count,
+  }
+}
+
+/**
+ * Parse CLI arguments for the queue:work command.
+ */
+export function parseQueueWorkArgs(args: string[]): QueueWorkOptions {
+  const options: QueueWorkOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--entry':
+      case '-e':
+        options.entry = args[++i]
+        break
+      case '--path':
+        options.path = args[++i]
+        break
+      case '--once':
+        options.once = true
+        break
+      case '--sleep':
+        options.sleep = Number(args[++i])
+        break
+    }
+  }
+
+  return options
+}
+
+/**
+ * Parse CLI arguments for the queue:failed command.
+ */
+export function parseQueueFailedArgs(args: string[]): QueueFailedOptions {
+  const options: QueueFailedOptions = {}
+  const positional: string[] = []
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--json':
+        options.json = true
+        break
+      case '--path':
+        options.path = args[++i]
+        break
+      default:
+        positional.push(args[i])
+    }
+  }
+
+  const [action, id] = positional
+  if (action === 'list' || action === 'retry' || action === 'forget' || action === 'flush') {
+    options.action = action
+  }
+  if (id) {
+    options.id = id
+  }
+
+  return options
+}
+
+/**
+ * Get help text for the queue:work command.
+ */
+export function queueWorkHelp(): string {
+  return `
+honertia queue:work - Run jobs from the local development queue
+
+USAGE:
+  honertia queue:work --entry <module> [OPTIONS]
+
+OPTIONS:
+  -e, --entry     Module that defines your jobs. It may export
+                  \`middleware\` (from setupHonertia) and \`env\`
+                  so jobs get the same services as routes
+  --path          Local queue file (default: ${DEFAULT_QUEUE_PATH})
+  --once          Process available jobs once and exit
+  --sleep         Milliseconds between polls (default: 1000)
+
+Dispatch to the same file with:
+  QueueLayer.local(createLocalQueue({ path: '${DEFAULT_QUEUE_PATH}' }))
+
+EXAMPLES:
+  # Work jobs until stopped
+  honertia queue:work --entry ./src/jobs.ts
+
+  # Drain the queue once
+  honertia queue:work --entry ./src/jobs.ts --once
+`.trim()
+}
+
+/**
+ * Get help text for the queue:failed command.
+ */
+export function queueFailedHelp(): string {
+  return `
+honertia queue:failed - Manage jobs that failed every attempt
+
+USAGE:
+  honertia queue:failed [list]            List failed jobs
+  honertia queue:failed retry <id|all>    Queue failed jobs again
+  honertia queue:failed forget <id>       Delete a failed job
+  honertia queue:failed flush             Delete all failed jobs
+
+OPTIONS:
+  --json          Output as JSON (machine-readable)
+  --path          Local queue file (default: ${DEFAULT_QUEUE_PATH})
+
+EXAMPLES:
+  honertia queue:failed --json
+  honertia queue:failed retry all
+`.trim()
+}
+
+/**
+ * Run the queue:work command from CLI arguments.
+ */
+export async function runQueueWork(args: string[] = []): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(queueWorkHelp())
+    return
+  }
+
+  const options = parseQueueWorkArgs(args)
+  if (!options.entry) {
+    console.error('queue:work requires --entry <module> so jobs can be registered')
+    process.exit(1)
+  }
+
+  const entry = await loadEntryModule(options.entry)
+
+  const queue = createLocalQueue({
+    path: options.path ?? DEFAULT_QUEUE_PATH,
+    process: false,
+    middleware: entry.middleware,
+    env: entry.env,
+  })
+  const sleep = Number.isFinite(options.sleep) ? options.sleep! : 1000
+  const totals: WorkResult = { completed: 0, retried: 0, failed: 0 }
+
+  for (;;) {
+    const result = await queue.work({
+      onAttempt: (job, attempt) => console.log(formatJobAttempt(job, attempt)),
+    })
+    totals.completed += result.completed
+    totals.retried += result.retried
+    totals.failed += result.failed
+
+    if (options.once) {
+      console.log(
+        `Processed ${totals.completed + totals.retried + totals.failed} attempts: ` +
+          `${totals.completed} completed, ${totals.retried} retried, ${totals.failed} failed`
+      )
+      return
+    }
+
+    await new Promise((done) => setTimeout(done, sleep))
+  }
+}
+
+/**
+ * Run the queue:failed command from CLI arguments.
+ */
+export async function runQueueFailed(args: string[] = []): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(queueFailedHelp())
+    return
+  }
+
+  const options = parseQueueFailedArgs(args)
+  const queue = createLocalQueue({ path: options.path ?? DEFAULT_QUEUE_PATH, process: false })
+  const result = await queueFailedCommand(queue, options)
+  if (result.error) {
+    console.error(result.error)
+    process.exit(1)
+  }
+  console.log(result.output)
+}
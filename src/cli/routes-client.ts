@@ -0,0 +1,252 @@
+/**
+ * Routes Client Generator
+ *
+ * Generates a typed `route(name, params, query)` module from named routes
+ * in the route registry, so the frontend never hardcodes paths.
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import {
+  RouteRegistry,
+  getGlobalRegistry,
+  type RouteMetadata,
+} from '../effect/route-registry.js'
+
+export interface GenerateRoutesClientOptions {
+  /**
+   * Output path for the generated module.
+   */
+  output?: string
+  /**
+   * Module that provides `createRouteHelper` (default: 'honertia/routes').
+   */
+  importFrom?: string
+}
+
+export interface RoutesClientParam {
+  /**
+   * Param name in the path.
+   */
+  name: string
+  /**
+   * Binding column read from model objects.
+   */
+  column: string
+  /**
+   * Whether the param may be omitted (`:param?`).
+   */
+  optional: boolean
+}
+
+export interface RoutesClientRoute {
+  name: string
+  method: string
+  path: string
+  params: RoutesClientParam[]
+}
+
+export interface GenerateRoutesClientResult {
+  /**
+   * Output file path.
+   */
+  path: string
+  /**
+   * Generated module content.
+   */
+  content: string
+  /**
+   * Named routes included, sorted by name.
+   */
+  routes: RoutesClientRoute[]
+}
+
+export interface GenerateRoutesClientCliOptions {
+  /**
+   * Output path for the generated module.
+   */
+  output?: string
+  /**
+   * Module that provides `createRouteHelper`.
+   */
+  importFrom?: string
+  /**
+   * Preview content without writing a file.
+   */
+  preview?: boolean
+  /**
+   * Output JSON instead of text.
+   */
+  json?: boolean
+}
+
+const DEFAULT_OUTPUT = 'src/generated/routes.ts'
+const DEFAULT_IMPORT_FROM = 'honertia/routes'
+const PARAM_PATTERN = /:(\w+)(?:\{[^}]*\})?(\?)?/g
+
+function extractParams(route: RouteMetadata): RoutesClientParam[] {
+  const columns = new Map(route.bindings.map((binding) => [binding.param, binding.column]))
+  return Array.from(route.fullPath.matchAll(PARAM_PATTERN), (match) => ({
+    name: match[1],
+    column: columns.get(match[1]) ?? 'id',
+    optional: match[2] === '?',
+  }))
+}
+
+function paramsType(params: RoutesClientParam[]): string {
+  if (params.length === 0) return 'Record<never, never>'
+  const fields = params.map((param) =>
+    `${param.name}${param.optional ? '?' : ''}: RouteParamValue<${JSON.stringify(param.column)}>`
+  )
+  return `{ ${fields.join('; ')} }`
+}
+
+function definitionLiteral(route: RoutesClientRoute): string {
+  const bindings = route.params.filter((param) => param.column !== 'id')
+  const parts = [
+    `method: ${JSON.stringify(route.method)}`,
+    `path: ${JSON.stringify(route.path)}`,
+  ]
+  if (bindings.length > 0) {
+    const entries = bindings.map((param) => `${param.name}: ${JSON.stringify(param.column)}`)
+    parts.push(`bindings: { ${entries.join(', ')} }`)
+  }
+  return `{ ${parts.join(', ')} }`
+}
+
+/**
+ * Generate a typed routes module from named routes in the registry.
+ * Unnamed routes are skipped.
+ */
+export function generateRoutesClient(
+  registry: RouteRegistry = getGlobalRegistry(),
+  options: GenerateRoutesClientOptions = {}
+): GenerateRoutesClientResult {
+  const output = options.output ?? DEFAULT_OUTPUT
+  const importFrom = options.importFrom ?? DEFAULT_IMPORT_FROM
+
+  const routes: RoutesClientRoute[] = registry
+    .all()
+    .filter((route): route is RouteMetadata & { name: string } => Boolean(route.name))
+    .map((route) => ({
+      name: route.name,
+      method: route.method,
+      path: route.fullPath,
+      params: extractParams(route),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  const paramLines = routes.map((route) => `  ${JSON.stringify(route.name)}: ${paramsType(route.params)}`)
+  const definitionLines = routes.map((route) => `  ${JSON.stringify(route.name)}: ${definitionLiteral(route)},`)
+
+  const content = `/**
+ * Generated by \`honertia generate:routes-client\`. Do not edit.
+ */
+
+import { createRouteHelper, type RouteParamValue } from '${importFrom}'
+
+export interface RouteParams {
+${paramLines.join('\n')}
+}
+
+export type RouteName = keyof RouteParams
+
+export const routes = {
+${definitionLines.join('\n')}
+} as const
+
+export const route = createRouteHelper<RouteParams>(routes)
+`
+
+  return { path: output, content, routes }
+}
+
+/**
+ * Parse CLI arguments for routes client generation.
+ */
+export function parseGenerateRoutesClientArgs(args: string[]): GenerateRoutesClientCliOptions {
+  const options: GenerateRoutesClientCliOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case '--output':
+      case '-o':
+        options.output = args[++i]
+        break
+      case '--import-from':
+        options.importFrom = args[++i]
+        break
+      case '--preview':
+        options.preview = true
+        break
+      case '--json':
+        options.json = true
+        break
+    }
+  }
+
+  return options
+}
+
+/**
+ * Get help text for routes client generation.
+ */
+export function generateRoutesClientHelp(): string {
+  return `
+honertia generate:routes-client - Generate a typed route() helper for the frontend
+
+USAGE:
+  honertia generate:routes-client [OPTIONS]
+
+OPTIONS:
+  -o, --output    Output file path (default: src/generated/routes.ts)
+  --import-from   Module providing createRouteHelper (default: honertia/routes)
+  --preview       Preview output without writing file
+  --json          Output as JSON (machine-readable)
+
+Only named routes are included. Name a route with:
+  effectRoutes(app).get('/projects/{project}', showProject, { name: 'projects.show' })
+
+EXAMPLES:
+  honertia generate:routes-client
+  honertia generate:routes-client --output app/routes.ts
+  honertia generate:routes-client --preview
+`.trim()
+}
+
+/**
+ * Run routes client generation from CLI arguments.
+ */
+export function runGenerateRoutesClient(
+  args: string[] = [],
+  registry: RouteRegistry = getGlobalRegistry()
+): void {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(generateRoutesClientHelp())
+    return
+  }
+
+  const cliOptions = parseGenerateRoutesClientArgs(args)
+  const result = generateRoutesClient(registry, {
+    output: cliOptions.output,
+    importFrom: cliOptions.importFrom,
+  })
+
+  if (cliOptions.json) {
+    console.log(JSON.stringify(result, null, 2))
+    return
+  }
+
+  if (cliOptions.preview) {
+    console.log(`Preview: ${result.path}`)
+    console.log('-'.repeat(50))
+    console.log(result.content)
+    return
+  }
+
+  mkdirSync(dirname(result.path), { recursive: true })
+  writeFileSync(result.path, result.content, 'utf-8')
+
+  console.log(`Generated: ${result.path} (${result.routes.length} named routes)`)
+}
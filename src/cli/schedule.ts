@@ -0,0 +1,319 @@
+/**
+ * Schedule Commands
+ *
+ * Lists scheduled tasks and runs them locally.
+ */
+
+import {
+  ScheduleRegistry,
+  getGlobalScheduleRegistry,
+  runSchedule,
+  type ScheduleMetadataJson,
+  type ScheduleRunResult,
+} from '../effect/schedule.js'
+import type { OutputFormat } from './index.js'
+import { loadEntryModule, type EntryModule } from './entry.js'
+
+/**
+ * Options for the schedule:list command.
+ */
+export interface ScheduleListOptions {
+  /**
+   * Output format (default: 'table').
+   */
+  format?: OutputFormat
+  /**
+   * Module that defines the app's schedules.
+   */
+  entry?: string
+}
+
+/**
+ * Result of the schedule:list command.
+ */
+export interface ScheduleListResult {
+  /**
+   * Registered schedules.
+   */
+  schedules: ScheduleMetadataJson[]
+  /**
+   * Formatted output string.
+   */
+  output: string
+  /**
+   * Total count of schedules.
+   */
+  count: number
+}
+
+/**
+ * Options for the schedule:run command.
+ */
+export interface ScheduleRunOptions {
+  /**
+   * Name of the task to run.
+   */
+  name?: string
+  /**
+   * Module that defines the app's schedules. It may export `middleware`
+   * (e.g. from `setupHonertia()`) and `env` to give tasks their services.
+   */
+  entry?: string
+}
+
+/**
+ * Result of the schedule:run command.
+ */
+export interface ScheduleRunCommandResult {
+  /**
+   * Outcome of the run, if the task was found.
+   */
+  result?: ScheduleRunResult
+  /**
+   * Formatted output string.
+   */
+  output: string
+  /**
+   * Error message, if the task could not be run.
+   */
+  error?: string
+}
+
+/**
+ * Format schedules as a minimal list (one `name: cron` line each).
+ */
+function formatMinimal(schedules: ScheduleMetadataJson[]): string {
+  if (schedules.length === 0) {
+    return 'No schedules found.'
+  }
+
+  return schedules.map((schedule) => `${schedule.name}: ${schedule.cron}`).join('\n')
+}
+
+/**
+ * Format schedules as a table.
+ */
+function formatTable(schedules: ScheduleMetadataJson[]): string {
+  if (schedules.length === 0) {
+    return 'No schedules found.'
+  }
+
+  const nameWidth = Math.max(4, ...schedules.map((schedule) => schedule.name.length))
+  const cronWidth = Math.max(4, ...schedules.map((schedule) => schedule.cron.length))
+  const lines: string[] = []
+
+  lines.push(`${'NAME'.padEnd(nameWidth)}  ${'CRON'.padEnd(cronWidth)}  OVERLAP`)
+  lines.push(`${'-'.repeat(nameWidth)}  ${'-'.repeat(cronWidth)}  -------`)
+
+  for (const schedule of schedules) {
+    lines.push(
+      `${schedule.name.padEnd(nameWidth)}  ${schedule.cron.padEnd(cronWidth)}  ` +
+        (schedule.withoutOverlapping ? 'prevented' : 'allowed')
+    )
+  }
+
+  lines.push('')
+  lines.push(`Total: ${schedules.length} schedule${schedules.length === 1 ? '' : 's'}`)
+
+  return lines.join('\n')
+}
+
+/**
+ * List all registered schedules.
+ *
+ * @example
+ * ```typescript
+ * import './schedules' // Defines schedules
+ * import { scheduleListCommand, getGlobalScheduleRegistry } from 'honertia/cli'
+ *
+ * console.log(scheduleListCommand(getGlobalScheduleRegistry(), { format: 'json' }).output)
+ * ```
+ */
+export function scheduleListCommand(
+  registry: ScheduleRegistry = getGlobalScheduleRegistry(),
+  options: ScheduleListOptions = {}
+): ScheduleListResult {
+  const { format = 'table' } = options
+  const schedules = registry.toJson()
+
+  let output: string
+  switch (format) {
+    case 'json':
+      output = JSON.stringify(schedules, null, 2)
+      break
+    case 'minimal':
+      output = formatMinimal(schedules)
+      break
+    case 'table':
+    default:
+      output = formatTable(schedules)
+      break
+  }
+
+  return { schedules, output, count: schedules.length }
+}
+
+/**
+ * Run a scheduled task by name, with the entry module's services.
+ */
+export async function scheduleRunCommand(
+  registry: ScheduleRegistry = getGlobalScheduleRegistry(),
+  name: string | undefined,
+  entry: EntryModule = {}
+): Promise<ScheduleRunCommandResult> {
+  if (!name) {
+    return { output: '', error: 'schedule:run requires a schedule name' }
+  }
+
+  const schedule = registry.findByName(name)
+  if (!schedule) {
+    const names = registry.toJson().map((s) => s.name)
+    return {
+      output: '',
+      error: `No schedule named '${name}'.` + (names.length > 0 ? ` Available: ${names.join(', ')}` : ''),
+    }
+  }
+
+  const result = await runSchedule(schedule, { middleware: entry.middleware, env: entry.env })
+  switch (result.status) {
+    case 'completed':
+      return { result, output: `Ran ${name} (${schedule.cron})` }
+    case 'skipped':
+      return { result, output: `Skipped ${name}: the previous run still holds its lock` }
+    case 'failed':
+      return { result, output: '', error: `${name} failed:\n${result.error}` }
+  }
+}
+
+/**
+ * Parse CLI arguments for the schedule:list command.
+ */
+export function parseScheduleListArgs(args: string[]): ScheduleListOptions {
+  const options: ScheduleListOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--json':
+        options.format = 'json'
+        break
+      case '--minimal':
+        options.format = 'minimal'
+        break
+      case '--table':
+        options.format = 'table'
+        break
+      case '--entry':
+      case '-e':
+        options.entry = args[++i]
+        break
+    }
+  }
+
+  return options
+}
+
+/**
+ * Parse CLI arguments for the schedule:run command.
+ */
+export function parseScheduleRunArgs(args: string[]): ScheduleRunOptions {
+  const options: ScheduleRunOptions = {}
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--entry':
+      case '-e':
+        options.entry = args[++i]
+        break
+      default:
+        options.name ??= args[i]
+    }
+  }
+
+  return options
+}
+
+/**
+ * Get help text for the schedule:list command.
+ */
+export function scheduleListHelp(): string {
+  return `
+honertia schedule:list - List scheduled tasks
+
+USAGE:
+  honertia schedule:list [OPTIONS]
+
+OPTIONS:
+  -e, --entry     Module that defines your schedules
+  --json          Output as JSON (machine-readable)
+  --minimal       Output as minimal list (NAME: CRON)
+  --table         Output as formatted table (default)
+
+EXAMPLES:
+  honertia schedule:list --entry ./src/schedules.ts
+  honertia schedule:list --entry ./src/schedules.ts --json
+`.trim()
+}
+
+/**
+ * Get help text for the schedule:run command.
+ */
+export function scheduleRunHelp(): string {
+  return `
+honertia schedule:run - Run a scheduled task now
+
+USAGE:
+  honertia schedule:run <name> --entry <module>
+
+OPTIONS:
+  -e, --entry     Module that defines your schedules. It may export
+                  \`middleware\` (from setupHonertia) and \`env\`
+                  so tasks get the same services as routes
+
+Tasks defined with \`withoutOverlapping\` are skipped while a previous
+run holds the lock.
+
+EXAMPLES:
+  honertia schedule:run prune-sessions --entry ./src/schedules.ts
+`.trim()
+}
+
+/**
+ * Run the schedule:list command from CLI arguments.
+ */
+export async function runScheduleList(
+  args: string[] = [],
+  registry: ScheduleRegistry = getGlobalScheduleRegistry()
+): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(scheduleListHelp())
+    return
+  }
+
+  const options = parseScheduleListArgs(args)
+  if (options.entry) {
+    await loadEntryModule(options.entry)
+  }
+  console.log(scheduleListCommand(registry, options).output)
+}
+
+/**
+ * Run the schedule:run command from CLI arguments.
+ */
+export async function runScheduleRun(
+  args: string[] = [],
+  registry: ScheduleRegistry = getGlobalScheduleRegistry()
+): Promise<void> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(scheduleRunHelp())
+    return
+  }
+
+  const options = parseScheduleRunArgs(args)
+  const entry = options.entry ? await loadEntryModule(options.entry) : {}
+  const result = await scheduleRunCommand(registry, options.name, entry)
+  if (result.error) {
+    console.error(result.error)
+    process.exit(1)
+  }
+  console.log(result.output)
+}
@@ -6,10 +6,9 @@
 
 import { Effect, Layer, Option, Schema as S } from 'effect'
 import type { Hono, MiddlewareHandler, Env } from 'hono'
-import { AuthUserService, AuthService, DatabaseService, HonertiaService, RequestService, type AuthUser } from './services.js'
+import { AuthUserService, AuthService, DatabaseService, HonertiaService, RequestService, type AuthUser, type BuiltinSharedProps, type PageName } from './services.js'
 import { UnauthorizedError, ValidationError } from './errors.js'
 import { effectRoutes, type EffectHandler } from './routing.js'
-import { render } from './responses.js'
 import { validateRequest } from './validation.js'
 
 const DEFAULT_AUTH_USER_KEY = 'authUser'
@@ -192,6 +191,7 @@ export const shareAuth: Effect.Effect<void, never, HonertiaService> =
 
 /**
  * Middleware version of shareAuth for use with app.use().
+ * Pages receive `auth` as typed by `BuiltinSharedProps`.
  */
 export function shareAuthMiddleware<E extends Env>(
   config: { userKey?: string } = {}
@@ -206,7 +206,8 @@ export function shareAuthMiddleware<E extends Env>(
         ? (c as any).var?.[DEFAULT_AUTH_USER_KEY]
         : undefined)
     if (honertia) {
-      honertia.share('auth', { user: authUser?.user ?? null })
+      const auth: BuiltinSharedProps['auth'] = { user: authUser?.user ?? null }
+      honertia.share('auth', auth)
     }
     await next()
 
@@ -241,8 +242,8 @@ export interface AuthRoutesConfig<E extends Env> {
    * Redirect path for authenticated users hitting login/register pages.
    */
   loginRedirect?: string
-  loginComponent?: string
-  registerComponent?: string
+  loginComponent?: PageName
+  registerComponent?: PageName
   sessionCookie?: string
   /**
    * CORS configuration for auth API routes.
@@ -301,6 +302,14 @@ export interface AuthRoutesConfig<E extends Env> {
   guestActions?: Record<string, AuthActionEffect>
 }
 
+/**
+ * Render a built-in auth page without props. `render()` is not used because
+ * an augmented `HonertiaPages` may not declare the default components, or
+ * may declare props these pages are not given.
+ */
+const renderAuthPage = (component: string): Effect.Effect<Response, never, HonertiaService> =>
+  Effect.flatMap(HonertiaService, (honertia) => Effect.promise(() => honertia.render(component)))
+
 /**
  * Register standard auth routes.
  *
@@ -336,10 +345,10 @@ export function effectAuthRoutes<E extends Env>(
   const guestRoutes = routes.provide(guestLayer)
 
   // Login page - uses custom guestLayer or RequireGuestLayer
-  guestRoutes.get(loginPath, render(loginComponent))
+  guestRoutes.get(loginPath, renderAuthPage(loginComponent))
 
   // Register page - uses custom guestLayer or RequireGuestLayer
-  guestRoutes.get(registerPath, render(registerComponent))
+  guestRoutes.get(registerPath, renderAuthPage(registerComponent))
 
   // Login action (POST) - uses custom guestLayer
   if (config.loginAction) {
@@ -4,9 +4,10 @@
  * Middleware that connects Hono's request handling to Effect's runtime.
  */
 
-import { Effect, Layer, ManagedRuntime, Option } from 'effect'
+import { Cause, Context, Effect, Exit, Layer, ManagedRuntime, Option, Scope } from 'effect'
 import { HonertiaConfigurationError } from './errors.js'
 import { ErrorCodes, type ErrorCode } from './error-catalog.js'
+import { Hono } from 'hono'
 import type { Context as HonoContext, MiddlewareHandler, Env } from 'hono'
 import {
   DatabaseService,
@@ -19,17 +20,33 @@ import {
   CacheService,
   CacheClientError,
   ExecutionContextService,
+  FlashService,
+  HeadService,
+  LoggerService,
+  EventBusService,
+  ResponseHeadersService,
   type AuthUser,
   type RequestContext,
   type ResponseFactory,
   type HonertiaRenderer,
   type CacheClient,
   type ExecutionContextClient,
+  type FlashClient,
+  type HeadClient,
   type DatabaseType,
   type AuthType,
   type BindingsType,
+  type LogDriver,
 } from './services.js'
 import { TestCaptureService } from './test-layers.js'
+import {
+  REQUEST_ID_HEADER,
+  createLoggerClient,
+  getContextLogger,
+  getDefaultLogDriver,
+  getRequestId,
+} from './logger.js'
+import { createEventBus } from './events.js'
 
 /**
  * Configuration for the Effect bridge.
@@ -45,10 +62,10 @@ import { TestCaptureService } from './test-layers.js'
  *
  * @example
  * // Provide multiple custom services
- * effectBridge<Env, BindingsService | LoggerService>({
+ * effectBridge<Env, BindingsService | AnalyticsService>({
  *   services: (c) => Layer.mergeAll(
  *     Layer.succeed(BindingsService, c.env),
- *     Layer.succeed(LoggerService, createLogger(c)),
+ *     Layer.succeed(AnalyticsService, createAnalytics(c)),
  *   ),
  * })
  */
@@ -56,8 +73,31 @@ export interface EffectBridgeConfig<E extends Env, CustomServices = never> {
   /**
    * Custom services to provide to all Effect handlers.
    * Return a Layer that provides your custom services.
+   * Built for every request; use `layer` for services that don't depend on it.
    */
   services?: (c: HonoContext<E>) => Layer.Layer<CustomServices, never, never>
+  /**
+   * Static services shared by every request, such as API clients and
+   * configuration. Built once per app on first use and never rebuilt.
+   *
+   * @example
+   * ```typescript
+   * effectBridge<Env, PaymentsService>({
+   *   layer: Layer.effect(PaymentsService, makePaymentsClient),
+   * })
+   * ```
+   */
+  layer?: Layer.Layer<CustomServices, never, never>
+  /**
+   * Where LoggerService entries are written.
+   * Defaults to JSON lines on the console (silent during tests).
+   *
+   * @example
+   * ```typescript
+   * effectBridge({ logger: createConsoleLogDriver({ level: 'debug' }) })
+   * ```
+   */
+  logger?: LogDriver
   /**
    * Context variable key where loadUser middleware stores the authenticated user.
    * Defaults to `authUser`.
@@ -76,11 +116,21 @@ export interface EffectBridgeConfig<E extends Env, CustomServices = never> {
  */
 const EFFECT_RUNTIME = Symbol('effectRuntime')
 
+/**
+ * Symbol for storing the request-scoped Effect context in Hono context.
+ */
+const EFFECT_CONTEXT = Symbol('effectContext')
+
 /**
  * Symbol for storing schema in Hono context.
  */
 const EFFECT_SCHEMA = Symbol('effectSchema')
 
+/**
+ * Symbol for storing the `services` factory effectBridge built into the request context.
+ */
+const EFFECT_SERVICES = Symbol('effectServices')
+
 /**
  * Creates a proxy that throws a helpful error when any property is accessed.
  * Used when a service (database, auth) is not configured but the user tries to use it.
@@ -136,23 +186,41 @@ function createUnconfiguredServiceProxy(
 }
 
 /**
- * Extend Hono context with Effect runtime and schema.
+ * Extend Hono context with Effect runtime, request context and schema.
  */
 declare module 'hono' {
   interface ContextVariableMap {
-    [EFFECT_RUNTIME]?: ManagedRuntime.ManagedRuntime<
-      | DatabaseService
-      | AuthService
-      | AuthUserService
-      | HonertiaService
-      | RequestService
-      | ResponseFactoryService,
-      never
-    >
+    [EFFECT_RUNTIME]?: ManagedRuntime.ManagedRuntime<any, never>
+    [EFFECT_CONTEXT]?: Context.Context<RequestServices>
     [EFFECT_SCHEMA]?: Record<string, unknown>
+    [EFFECT_SERVICES]?: (c: any) => Layer.Layer<any, never, never>
   }
 }
 
+/**
+ * Services built from the Hono context for every request.
+ */
+export type RequestServices =
+  | RequestService
+  | ResponseFactoryService
+  | HonertiaService
+  | DatabaseService
+  | AuthService
+  | AuthUserService
+  | BindingsService
+  | CacheService
+  | ExecutionContextService
+  | FlashService
+  | HeadService
+  | LoggerService
+  | EventBusService
+  | ResponseHeadersService
+
+/**
+ * Events dispatch to the global event registry.
+ */
+const defaultEventBus = createEventBus()
+
 /**
  * Create a RequestContext from Hono context.
  */
@@ -246,7 +314,7 @@ function createUnconfiguredCacheClient(): CacheClient {
 /**
  * Cloudflare ExecutionContext interface (subset of the full API).
  */
-interface CloudflareExecutionContext {
+export interface CloudflareExecutionContext {
   waitUntil(promise: Promise<unknown>): void
   passThroughOnException(): void
 }
@@ -264,11 +332,10 @@ function createExecutionContextClient(ctx: CloudflareExecutionContext): Executio
           const promise = Effect.runPromise(
             effect.pipe(
               Effect.provide(context),
-              Effect.catchAllCause((cause) => {
-                // Log errors but don't crash - this is background work
-                console.error('[Background Task Error]', cause)
-                return Effect.void
-              })
+              // Log errors but don't crash - this is background work
+              Effect.catchAllCause((cause) =>
+                getContextLogger(context).error('Background task failed', { cause: Cause.pretty(cause) })
+              )
             )
           )
           ctx.waitUntil(promise)
@@ -305,136 +372,210 @@ function createHonertiaRenderer<E extends Env>(c: HonoContext<E>): HonertiaRende
   return {
     render: (component, props) => honertia.render(component, props),
     share: (key, value) => honertia.share(key, value),
-    setErrors: (errors) => honertia.setErrors(errors),
+    setErrors: (errors, bag) => honertia.setErrors(errors, bag),
   }
 }
 
 /**
- * Build the Effect layer from Hono context.
+ * Create a FlashClient from Hono context.
+ * Without the flash middleware, flashed data is only visible to the current request.
  */
-export function buildContextLayer<E extends Env, CustomServices = never>(
-  c: HonoContext<E>,
-  config?: EffectBridgeConfig<E, CustomServices>
-): Layer.Layer<
-  | RequestService
-  | ResponseFactoryService
-  | HonertiaService
-  | DatabaseService
-  | AuthService
-  | AuthUserService
-  | BindingsService
-  | CacheService
-  | ExecutionContextService
-  | CustomServices,
-  never,
-  never
-> {
-  const authUserKey = config?.authUserKey ?? 'authUser'
-
-  const requestLayer = Layer.succeed(RequestService, createRequestContext(c))
-  const responseLayer = Layer.succeed(ResponseFactoryService, createResponseFactory(c))
-  const honertiaLayer = Layer.succeed(HonertiaService, createHonertiaRenderer(c))
-
-  // Bindings layer - always available, typed via module augmentation
-  const bindingsLayer = Layer.succeed(
-    BindingsService,
-    (c.env ?? {}) as BindingsType
-  )
+function createFlashClient<E extends Env>(c: HonoContext<E>): FlashClient {
+  const flash = (c as any).var?.flash
+  if (flash) {
+    return {
+      put: (key, value) => flash.put(key, value),
+      putErrors: (errors, bag) => flash.putErrors(errors, bag),
+      current: () => flash.current(),
+    }
+  }
 
-  // Cache layer - backed by KV if available, otherwise unconfigured client
+  const honertia = (c as any).var?.honertia
+  const messages: Record<string, unknown> = {}
+  return {
+    put: (key, value) => {
+      messages[key] = value
+      honertia?.share('flash', { ...messages })
+    },
+    putErrors: (errors, bag) => honertia?.setErrors(errors, bag),
+    current: () => ({}),
+  }
+}
+
+/**
+ * Create a HeadClient from Hono context.
+ */
+function createHeadClient<E extends Env>(c: HonoContext<E>): HeadClient {
+  const honertia = (c as any).var?.honertia
+  if (!honertia) {
+    return {
+      set: () => {},
+      get: () => ({}),
+    }
+  }
+  return {
+    set: (head) => honertia.setHead(head),
+    get: () => honertia.getHead(),
+  }
+}
+
+/**
+ * Build the request-scoped Effect context from Hono context.
+ * Every service is a plain value, so this is cheap enough to run per request.
+ */
+export function buildRequestContext<E extends Env>(
+  c: HonoContext<E>,
+  config?: Pick<EffectBridgeConfig<E, unknown>, 'authUserKey' | 'logger'>
+): Context.Context<RequestServices> {
+  // Cache - backed by KV if available, otherwise unconfigured client
   const kv = (c.env as { KV?: KVNamespace } | undefined)?.KV
-  const cacheLayer = Layer.succeed(
-    CacheService,
-    kv ? createKVCacheClient(kv) : createUnconfiguredCacheClient()
-  )
 
-  // Database layer - provide helpful error proxy if not configured
+  // Database and auth - provide helpful error proxies if not configured
   const db = (c as any).var?.db
-  const databaseLayer = Layer.succeed(
-    DatabaseService,
-    (db ??
-      createUnconfiguredServiceProxy(
-        'DatabaseService',
-        'database: (c) => createDb(...)',
-        'database: (c) => drizzle(c.env.DB)',
-        ErrorCodes.CFG_300_DATABASE_NOT_CONFIGURED
-      )) as DatabaseType
-  )
-
-  // Auth layer - provide helpful error proxy if not configured
   const auth = (c as any).var?.auth
-  const authLayer = Layer.succeed(
-    AuthService,
-    (auth ??
-      createUnconfiguredServiceProxy(
-        'AuthService',
-        'auth: (c) => createAuth(...)',
-        'auth: (c) => betterAuth({ database: c.var.db, ... })',
-        ErrorCodes.CFG_301_AUTH_NOT_CONFIGURED
-      )) as AuthType
-  )
 
-  // ExecutionContext layer - for background task execution
-  // Note: Hono's executionCtx getter throws in non-Worker environments, so we wrap in try/catch
+  // ExecutionContext - Hono's executionCtx getter throws in non-Worker environments
   let executionCtx: CloudflareExecutionContext | undefined
   try {
     executionCtx = (c as any).executionCtx
   } catch {
     executionCtx = undefined
   }
-  const executionContextLayer = Layer.succeed(
-    ExecutionContextService,
-    executionCtx
-      ? createExecutionContextClient(executionCtx)
-      : createNoopExecutionContextClient()
-  )
 
-  let baseLayer = Layer.mergeAll(
-    requestLayer,
-    responseLayer,
-    honertiaLayer,
-    bindingsLayer,
-    cacheLayer,
-    databaseLayer,
-    authLayer,
-    executionContextLayer
+  const context = Context.make(RequestService, createRequestContext(c)).pipe(
+    Context.add(ResponseFactoryService, createResponseFactory(c)),
+    Context.add(HonertiaService, createHonertiaRenderer(c)),
+    // Bindings - always available, typed via module augmentation
+    Context.add(BindingsService, (c.env ?? {}) as BindingsType),
+    Context.add(CacheService, kv ? createKVCacheClient(kv) : createUnconfiguredCacheClient()),
+    Context.add(
+      DatabaseService,
+      (db ??
+        createUnconfiguredServiceProxy(
+          'DatabaseService',
+          'database: (c) => createDb(...)',
+          'database: (c) => drizzle(c.env.DB)',
+          ErrorCodes.CFG_300_DATABASE_NOT_CONFIGURED
+        )) as DatabaseType
+    ),
+    Context.add(
+      AuthService,
+      (auth ??
+        createUnconfiguredServiceProxy(
+          'AuthService',
+          'auth: (c) => createAuth(...)',
+          'auth: (c) => betterAuth({ database: c.var.db, ... })',
+          ErrorCodes.CFG_301_AUTH_NOT_CONFIGURED
+        )) as AuthType
+    ),
+    Context.add(
+      ExecutionContextService,
+      executionCtx
+        ? createExecutionContextClient(executionCtx)
+        : createNoopExecutionContextClient()
+    ),
+    Context.add(FlashService, createFlashClient(c)),
+    Context.add(HeadService, createHeadClient(c)),
+    Context.add(
+      LoggerService,
+      createLoggerClient(config?.logger ?? getDefaultLogDriver(), getRequestId(c))
+    ),
+    Context.add(EventBusService, defaultEventBus),
+    Context.add(ResponseHeadersService, new Headers())
   )
 
-  const authUserFromContext =
+  const authUser = getAuthUserFromContext(c, config?.authUserKey)
+  // AuthUserService is only present for authenticated requests
+  return (
+    authUser ? Context.add(context, AuthUserService, authUser) : context
+  ) as Context.Context<RequestServices>
+}
+
+function getAuthUserFromContext<E extends Env>(
+  c: HonoContext<E>,
+  authUserKey = 'authUser'
+): AuthUser | undefined {
+  return (
     (c as any).var?.[authUserKey] ??
     (authUserKey !== 'authUser' ? (c as any).var?.authUser : undefined)
+  )
+}
 
-  if (authUserFromContext) {
-    baseLayer = Layer.merge(
-      baseLayer,
-      Layer.succeed(AuthUserService, authUserFromContext as AuthUser)
-    )
-  }
+/**
+ * Build the Effect layer from Hono context.
+ */
+export function buildContextLayer<E extends Env, CustomServices = never>(
+  c: HonoContext<E>,
+  config?: EffectBridgeConfig<E, CustomServices>
+): Layer.Layer<RequestServices | CustomServices, never, never> {
+  const contextLayer = Layer.succeedContext(buildRequestContext(c, config))
 
   // Merge custom services if provided
   if (config?.services) {
-    const customServicesLayer = config.services(c)
-    baseLayer = Layer.merge(baseLayer, customServicesLayer)
+    return Layer.merge(contextLayer, config.services(c))
   }
 
-  return baseLayer as Layer.Layer<
-    | RequestService
-    | ResponseFactoryService
-    | HonertiaService
-    | BindingsService
-    | CacheService
-    | ExecutionContextService
-    | DatabaseService
-    | AuthService
-    | AuthUserService
-    | CustomServices,
-    never,
-    never
-  >
+  return contextLayer as Layer.Layer<RequestServices | CustomServices, never, never>
+}
+
+/**
+ * Static runtimes, one per bridge config (and so per app).
+ */
+const staticRuntimes = new WeakMap<object, ManagedRuntime.ManagedRuntime<any, never>>()
+let defaultRuntime: ManagedRuntime.ManagedRuntime<any, never> | undefined
+
+/**
+ * Get the runtime holding a config's static `layer`, building it on first use.
+ */
+function getStaticRuntime<E extends Env, CustomServices>(
+  config?: EffectBridgeConfig<E, CustomServices>
+): ManagedRuntime.ManagedRuntime<any, never> {
+  if (!config?.layer) {
+    if (!defaultRuntime) {
+      defaultRuntime = ManagedRuntime.make(Layer.empty as Layer.Layer<any, never, never>)
+    }
+    return defaultRuntime
+  }
+
+  let runtime = staticRuntimes.get(config)
+  if (!runtime) {
+    runtime = ManagedRuntime.make(config.layer)
+    staticRuntimes.set(config, runtime)
+  }
+  return runtime
+}
+
+/**
+ * Get the request-scoped Effect context set by effectBridge, or build one.
+ * `authUserKey` re-reads the authenticated user from a different context key.
+ */
+export function getRequestContext<E extends Env>(
+  c: HonoContext<E>,
+  config?: Pick<EffectBridgeConfig<E, unknown>, 'authUserKey'>
+): Context.Context<RequestServices> {
+  const context = (c as any).var?.[EFFECT_CONTEXT] as Context.Context<RequestServices> | undefined
+  if (!context) return buildRequestContext(c, config)
+  if (!config?.authUserKey) return context
+
+  const authUser = getAuthUserFromContext(c, config.authUserKey)
+  return authUser ? Context.add(context, AuthUserService, authUser) : context
+}
+
+/**
+ * Whether effectBridge already built this `services` factory into the
+ * request context, so route handlers don't build it a second time.
+ */
+export function hasRequestServices<E extends Env>(
+  c: HonoContext<E>,
+  services: (c: HonoContext<E>) => Layer.Layer<any, never, never>
+): boolean {
+  return (c as any).var?.[EFFECT_SERVICES] === services
 }
 
 /**
  * Get the Effect runtime from Hono context.
+ * It holds the app's static `layer` services; request services are in
+ * `getRequestContext(c)`.
  */
 export function getEffectRuntime<E extends Env>(
   c: HonoContext<E>
@@ -443,23 +584,64 @@ export function getEffectRuntime<E extends Env>(
 }
 
 /**
- * Middleware that sets up the Effect runtime for each request.
+ * Set a header on the outgoing response, copying it if its headers are immutable.
+ */
+export function setResponseHeader<E extends Env>(c: HonoContext<E>, name: string, value: string): void {
+  if (!c.res || c.res.headers.has(name)) return
+  try {
+    c.res.headers.set(name, value)
+  } catch {
+    c.res = new Response(c.res.body, c.res)
+    c.res.headers.set(name, value)
+  }
+}
+
+/**
+ * Middleware that sets up the Effect context for each request.
+ *
+ * Request services are plain values in a per-request context. Static
+ * services from `layer` live in a runtime built once per app. Only the
+ * `services` layer and test layers are built per request.
  */
 export function effectBridge<E extends Env, CustomServices = never>(
   config?: EffectBridgeConfig<E, CustomServices>
 ): MiddlewareHandler<E> {
   return async (c, next) => {
+    const runtime = getStaticRuntime(config)
     const testLayer =
       (c as any).var?.__testLayer ?? (c.env as Record<string, unknown> | undefined)?.__testLayer
     const hasTestLayer = Layer.isLayer(testLayer)
-    let layer = buildContextLayer(c, config)
-    if (hasTestLayer) {
-      layer = Layer.merge(layer, testLayer as Layer.Layer<any, never, never>)
+
+    let context: Context.Context<any> = buildRequestContext(c, config)
+    let scope: Scope.CloseableScope | undefined
+
+    const requestLayers = [
+      config?.services?.(c),
+      hasTestLayer ? (testLayer as Layer.Layer<any, never, never>) : undefined,
+    ].filter((layer): layer is Layer.Layer<any, never, never> => layer !== undefined)
+
+    if (requestLayers.length > 0) {
+      const requestScope = await runtime.runPromise(Scope.make())
+      scope = requestScope
+      try {
+        for (const layer of requestLayers) {
+          const built = await runtime.runPromise(
+            Layer.buildWithScope(layer, requestScope).pipe(Effect.provide(context))
+          )
+          context = Context.merge(context, built)
+        }
+      } catch (error) {
+        // Release whatever was acquired before the failing layer
+        await runtime.runPromise(Scope.close(requestScope, Exit.die(error)))
+        throw error
+      }
     }
-    const runtime = ManagedRuntime.make(layer)
 
-    // Store runtime in context
     c.set(EFFECT_RUNTIME as any, runtime)
+    c.set(EFFECT_CONTEXT as any, context)
+    if (config?.services) {
+      c.set(EFFECT_SERVICES as any, config.services)
+    }
 
     // Store schema in context for route model binding
     if (config?.schema) {
@@ -469,11 +651,13 @@ export function effectBridge<E extends Env, CustomServices = never>(
     try {
       await next()
     } finally {
+      setResponseHeader(c, REQUEST_ID_HEADER, getRequestId(c))
+      Context.get(context, ResponseHeadersService).forEach((value, name) =>
+        setResponseHeader(c, name, value)
+      )
       if (hasTestLayer) {
         try {
-          const maybeCapture = await runtime.runPromise(
-            Effect.serviceOption(TestCaptureService)
-          )
+          const maybeCapture = Context.getOption(context, TestCaptureService)
           if (Option.isSome(maybeCapture)) {
             const captures = await runtime.runPromise(maybeCapture.value.get())
             const response = (c as any).res
@@ -485,8 +669,10 @@ export function effectBridge<E extends Env, CustomServices = never>(
           // Ignore capture errors during tests
         }
       }
-      // Cleanup runtime after request
-      await runtime.dispose()
+      // Release request-scoped layers
+      if (scope) {
+        await runtime.runPromise(Scope.close(scope, Exit.void))
+      }
     }
 
     // Return response for proper propagation in forwarding/proxy scenarios
@@ -502,3 +688,56 @@ export function getEffectSchema<E extends Env>(
 ): Record<string, unknown> | undefined {
   return (c as any).var?.[EFFECT_SCHEMA]
 }
+
+/**
+ * Options for running an Effect outside of an HTTP request.
+ */
+export interface RunWithServicesOptions<E extends Env = Env> {
+  /**
+   * Middleware that sets up services, such as the one returned by
+   * `setupHonertia()`. Defaults to `effectBridge()`.
+   */
+  middleware?: MiddlewareHandler<E>
+  /** Worker bindings, as passed to the `queue` or `scheduled` handler */
+  env?: E['Bindings']
+  /** Worker execution context, for `waitUntil` and `runInBackground` */
+  executionCtx?: CloudflareExecutionContext
+  /** URL of the synthetic request seen by RequestService */
+  url?: string
+}
+
+/**
+ * Run an Effect with the services effectBridge provides, outside of an
+ * HTTP request (queue consumers, cron triggers, CLI commands).
+ *
+ * A synthetic request is passed through `middleware`, so database, auth and
+ * custom services are set up exactly as they are for routes.
+ */
+export async function runWithServices<A, Err, E extends Env = Env>(
+  effect: Effect.Effect<A, Err, any>,
+  options: RunWithServicesOptions<E> = {}
+): Promise<Exit.Exit<A, Err>> {
+  let exit: Exit.Exit<A, Err> | undefined
+
+  const runner = new Hono<E>()
+  runner.use('*', options.middleware ?? effectBridge<E>())
+  runner.all('*', async (c) => {
+    const program = Effect.provide(effect, getRequestContext(c)) as Effect.Effect<A, Err, never>
+    const runtime = getEffectRuntime(c)
+    exit = runtime ? await runtime.runPromiseExit(program) : await Effect.runPromiseExit(program)
+    return c.body(null, 204)
+  })
+
+  const response = await runner.fetch(
+    new Request(options.url ?? 'http://honertia.internal/'),
+    options.env,
+    options.executionCtx as any
+  )
+
+  return (
+    exit ??
+    Exit.die(
+      new Error(`Middleware responded with ${response.status} before the effect could run`)
+    )
+  )
+}
@@ -76,10 +76,13 @@ export const ErrorCodes = {
   RTE_601_TABLE_NOT_FOUND: 'HON_RTE_601_TABLE_NOT_FOUND',
   RTE_602_PARAM_VALIDATION: 'HON_RTE_602_PARAM_VALIDATION',
   RTE_603_RELATION_NOT_FOUND: 'HON_RTE_603_RELATION_NOT_FOUND',
+  RTE_604_ROUTE_NOT_FOUND: 'HON_RTE_604_ROUTE_NOT_FOUND',
+  RTE_605_ROUTE_PARAM_MISSING: 'HON_RTE_605_ROUTE_PARAM_MISSING',
 
   // Service Errors (SVC)
   SVC_700_SERVICE_UNAVAILABLE: 'HON_SVC_700_SERVICE_UNAVAILABLE',
   SVC_701_SERVICE_ERROR: 'HON_SVC_701_SERVICE_ERROR',
+  SVC_702_SSR_FAILED: 'HON_SVC_702_SSR_FAILED',
 
   // Internal Errors (INT)
   INT_800_UNEXPECTED: 'HON_INT_800_UNEXPECTED',
@@ -649,6 +652,30 @@ export const ErrorCatalog: Record<ErrorCode, ErrorDefinition> = {
     related: [ErrorCodes.RTE_601_TABLE_NOT_FOUND],
   },
 
+  [ErrorCodes.RTE_604_ROUTE_NOT_FOUND]: {
+    code: ErrorCodes.RTE_604_ROUTE_NOT_FOUND,
+    tag: 'RouteConfigurationError',
+    category: 'routing',
+    title: 'Named Route Not Found',
+    messageTemplate: 'No route named "{route}" is registered.',
+    httpStatus: 500,
+    defaultFixes: [],
+    docsPath: '/errors/routing/route-not-found',
+    related: [ErrorCodes.RTE_605_ROUTE_PARAM_MISSING],
+  },
+
+  [ErrorCodes.RTE_605_ROUTE_PARAM_MISSING]: {
+    code: ErrorCodes.RTE_605_ROUTE_PARAM_MISSING,
+    tag: 'RouteConfigurationError',
+    category: 'routing',
+    title: 'Route Parameter Missing',
+    messageTemplate: 'Route "{route}" requires parameter "{param}".',
+    httpStatus: 500,
+    defaultFixes: [],
+    docsPath: '/errors/routing/route-param-missing',
+    related: [ErrorCodes.RTE_604_ROUTE_NOT_FOUND],
+  },
+
   // Service Errors
   [ErrorCodes.SVC_700_SERVICE_UNAVAILABLE]: {
     code: ErrorCodes.SVC_700_SERVICE_UNAVAILABLE,
@@ -674,6 +701,19 @@ export const ErrorCatalog: Record<ErrorCode, ErrorDefinition> = {
     related: [ErrorCodes.INT_800_UNEXPECTED],
   },
 
+  [ErrorCodes.SVC_702_SSR_FAILED]: {
+    code: ErrorCodes.SVC_702_SSR_FAILED,
+    tag: 'HttpError',
+    category: 'service',
+    title: 'Server-Side Rendering Failed',
+    messageTemplate:
+      'Server-side rendering of "{component}" failed, falling back to client rendering: {reason}',
+    httpStatus: 500,
+    defaultFixes: [],
+    docsPath: '/errors/service/ssr-failed',
+    related: [ErrorCodes.SVC_701_SERVICE_ERROR],
+  },
+
   // Internal Errors
   [ErrorCodes.INT_800_UNEXPECTED]: {
     code: ErrorCodes.INT_800_UNEXPECTED,
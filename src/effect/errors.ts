@@ -48,11 +48,18 @@ function structured(
  *   errors: { email: 'Invalid email format' },
  *   component: 'Auth/Login',
  * })
+ *
+ * // Scope errors to a named bag (defaults to the X-Inertia-Error-Bag header)
+ * yield* new ValidationError({
+ *   errors: { current_password: 'Incorrect password' },
+ *   errorBag: 'updatePassword',
+ * })
  * ```
  */
 export class ValidationError extends Data.TaggedError('ValidationError')<{
   readonly errors: Record<string, string>
   readonly component?: string
+  readonly errorBag?: string
   readonly fieldDetails?: Record<string, FieldError>
   readonly code?: ErrorCode
 }> implements StructuredErrorCapable {
@@ -94,7 +101,7 @@ export class ValidationError extends Data.TaggedError('ValidationError')<{
    */
   static fromFields(
     errors: Record<string, string>,
-    options?: { component?: string; code?: ErrorCode }
+    options?: { component?: string; errorBag?: string; code?: ErrorCode }
   ): ValidationError {
     return new ValidationError({ errors, ...options })
   }
@@ -307,6 +314,8 @@ export class RouteConfigurationError extends Data.TaggedError('RouteConfiguratio
   readonly table?: string
   readonly parent?: string
   readonly child?: string
+  readonly route?: string
+  readonly param?: string
 }> implements StructuredErrorCapable {
   get httpStatus(): number {
     return 500
@@ -316,7 +325,14 @@ export class RouteConfigurationError extends Data.TaggedError('RouteConfiguratio
     const code = this.code ?? this.inferCode()
     return structured(
       code,
-      { binding: this.binding, table: this.table, parent: this.parent, child: this.child },
+      {
+        binding: this.binding,
+        table: this.table,
+        parent: this.parent,
+        child: this.child,
+        route: this.route,
+        param: this.param,
+      },
       context,
       { message: this.message }
     )
@@ -325,6 +341,8 @@ export class RouteConfigurationError extends Data.TaggedError('RouteConfiguratio
   private inferCode(): ErrorCode {
     if (this.table) return ErrorCodes.RTE_601_TABLE_NOT_FOUND
     if (this.parent && this.child) return ErrorCodes.RTE_603_RELATION_NOT_FOUND
+    if (this.route && this.param) return ErrorCodes.RTE_605_ROUTE_PARAM_MISSING
+    if (this.route) return ErrorCodes.RTE_604_ROUTE_NOT_FOUND
     return ErrorCodes.RTE_600_BINDING_NOT_FOUND
   }
 
@@ -350,6 +368,30 @@ export class RouteConfigurationError extends Data.TaggedError('RouteConfiguratio
       code: ErrorCodes.RTE_601_TABLE_NOT_FOUND,
     })
   }
+
+  /**
+   * Create an error for an unknown route name.
+   */
+  static routeNotFound(route: string): RouteConfigurationError {
+    return new RouteConfigurationError({
+      message: `No route named "${route}" is registered.`,
+      hint: `Name the route when registering it: effectRoutes(app).get(path, handler, { name: '${route}' })`,
+      route,
+      code: ErrorCodes.RTE_604_ROUTE_NOT_FOUND,
+    })
+  }
+
+  /**
+   * Create an error for a route param that was not provided.
+   */
+  static missingRouteParam(route: string, param: string): RouteConfigurationError {
+    return new RouteConfigurationError({
+      message: `Route "${route}" requires parameter "${param}".`,
+      route,
+      param,
+      code: ErrorCodes.RTE_605_ROUTE_PARAM_MISSING,
+    })
+  }
 }
 
 /**
@@ -430,10 +472,15 @@ export class HonertiaConfigurationError extends Data.TaggedError('HonertiaConfig
 
 /**
  * Redirect - Control flow for HTTP redirects (not an error)
+ *
+ * External redirects force a full browser navigation. Inertia requests get a
+ * 409 with `X-Inertia-Location` so the client leaves the SPA, and all other
+ * requests get a normal redirect.
  */
 export class Redirect extends Data.TaggedClass('Redirect')<{
   readonly url: string
   readonly status: 302 | 303
+  readonly external?: boolean
 }> {
   /**
    * Create a redirect to a URL.
@@ -448,6 +495,13 @@ export class Redirect extends Data.TaggedClass('Redirect')<{
   static back(fallback = '/'): Redirect {
     return new Redirect({ url: fallback, status: 303 })
   }
+
+  /**
+   * Create a full-page visit to a URL, e.g. an OAuth provider or checkout page.
+   */
+  static location(url: string): Redirect {
+    return new Redirect({ url, status: 302, external: true })
+  }
 }
 
 /**
@@ -0,0 +1,309 @@
+/**
+ * Events
+ *
+ * Schema-typed events, their listeners, and the EventBusService implementation.
+ */
+
+import { Cause, Context, Effect, Option, Schema as S } from 'effect'
+import {
+  EventBusService,
+  EventError,
+  ExecutionContextService,
+  type EventBusClient,
+  type EventDefinition,
+  type EventPayload,
+} from './services.js'
+import { getContextLogger } from './logger.js'
+import type { RequestServices } from './bridge.js'
+
+/**
+ * Handles an event payload. Requirements are satisfied by the context the
+ * event is dispatched from, so they are limited to the services
+ * `effectBridge` provides.
+ */
+export type EventListener<A, R = RequestServices> = (payload: A) => Effect.Effect<unknown, unknown, R>
+
+export interface ListenOptions {
+  /**
+   * Listener name shown by `honertia events`.
+   * Defaults to the handler function's name.
+   */
+  name?: string
+  /**
+   * Run after the response via `ExecutionContextService.runInBackground`.
+   * Failures are logged instead of failing the dispatch.
+   */
+  deferred?: boolean
+  /**
+   * Registry to listen on. Defaults to the global event registry.
+   */
+  registry?: EventRegistry
+}
+
+/**
+ * A listener registered for an event.
+ */
+export interface RegisteredListener {
+  name: string
+  deferred: boolean
+  handle: EventListener<any, unknown>
+}
+
+/**
+ * JSON-serializable event metadata for CLI output.
+ */
+export interface EventMetadataJson {
+  name: string
+  listeners: Array<{ name: string; deferred: boolean }>
+}
+
+/**
+ * Registry of events and their listeners.
+ */
+export class EventRegistry {
+  private events = new Map<string, EventDefinition>()
+  private listeners = new Map<string, RegisteredListener[]>()
+
+  /**
+   * Register an event definition, replacing any with the same name.
+   */
+  register(event: EventDefinition): void {
+    this.events.set(event.name, event)
+  }
+
+  /**
+   * Add a listener for an event.
+   */
+  listen(event: EventDefinition, listener: RegisteredListener): void {
+    this.register(event)
+    const listeners = this.listeners.get(event.name) ?? []
+    listeners.push(listener)
+    this.listeners.set(event.name, listeners)
+  }
+
+  /**
+   * Get all registered events.
+   */
+  all(): readonly EventDefinition[] {
+    return Array.from(this.events.values())
+  }
+
+  /**
+   * Find an event by name.
+   */
+  findByName(name: string): EventDefinition | undefined {
+    return this.events.get(name)
+  }
+
+  /**
+   * Get the listeners for an event, in registration order.
+   */
+  listenersFor(name: string): readonly RegisteredListener[] {
+    return this.listeners.get(name) ?? []
+  }
+
+  /**
+   * Get the number of registered events.
+   */
+  count(): number {
+    return this.events.size
+  }
+
+  /**
+   * Clear all events and listeners.
+   */
+  clear(): void {
+    this.events.clear()
+    this.listeners.clear()
+  }
+
+  /**
+   * Export events as JSON-serializable data, sorted by name.
+   */
+  toJson(): EventMetadataJson[] {
+    return this.all()
+      .map((event) => ({
+        name: event.name,
+        listeners: this.listenersFor(event.name).map(({ name, deferred }) => ({ name, deferred })),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+let globalEventRegistry: EventRegistry | null = null
+
+/**
+ * Get the global event registry.
+ * Creates one if it doesn't exist.
+ */
+export function getGlobalEventRegistry(): EventRegistry {
+  if (!globalEventRegistry) {
+    globalEventRegistry = new EventRegistry()
+  }
+  return globalEventRegistry
+}
+
+/**
+ * Reset the global event registry.
+ * Useful for testing.
+ */
+export function resetGlobalEventRegistry(): void {
+  globalEventRegistry = null
+}
+
+/**
+ * Define an event and register it.
+ *
+ * @example
+ * ```typescript
+ * export const OrderPlaced = defineEvent(
+ *   'order.placed',
+ *   S.Struct({ orderId: S.String, total: S.Number })
+ * )
+ * ```
+ */
+export function defineEvent<Name extends string, A, I>(
+  name: Name,
+  schema: S.Schema<A, I>,
+  registry: EventRegistry = getGlobalEventRegistry()
+): EventDefinition<Name, A, I> {
+  const event = { name, schema }
+  registry.register(event)
+  return event
+}
+
+/**
+ * Register a listener for an event.
+ * Listeners may use the services `effectBridge` provides. Pass the custom
+ * services given to `effectBridge` as the second type argument.
+ *
+ * @example
+ * ```typescript
+ * listen(OrderPlaced, (order) => updateSalesTotals(order))
+ * listen<typeof OrderPlaced, EmailService>(OrderPlaced, sendReceipt, { deferred: true })
+ * ```
+ */
+export function listen<Event extends EventDefinition<string, any, any>, CustomServices = never>(
+  event: Event,
+  handler: EventListener<EventPayload<Event>, RequestServices | NoInfer<CustomServices>>,
+  options: ListenOptions = {}
+): void {
+  const registry = options.registry ?? getGlobalEventRegistry()
+  registry.listen(event, {
+    name: options.name ?? (handler.name || `listener ${registry.listenersFor(event.name).length + 1}`),
+    deferred: options.deferred ?? false,
+    handle: handler,
+  })
+}
+
+/**
+ * Validate an event payload against its schema.
+ */
+export function validateEventPayload<A, I>(
+  event: EventDefinition<string, A, I>,
+  payload: A
+): Effect.Effect<A, EventError> {
+  return S.validate(event.schema)(payload).pipe(
+    Effect.mapError(
+      (cause) =>
+        new EventError({
+          message: `Invalid payload for event '${event.name}': ${cause.message}`,
+          event: event.name,
+          cause,
+        })
+    )
+  )
+}
+
+/**
+ * Log a deferred listener failure through LoggerService, or the default logger.
+ */
+function logListenerFailure(
+  context: Context.Context<never>,
+  event: string,
+  listener: string,
+  cause: Cause.Cause<unknown>
+): Effect.Effect<void> {
+  return getContextLogger(context).error('Deferred event listener failed', {
+    event,
+    listener,
+    cause: Cause.pretty(cause),
+  })
+}
+
+/**
+ * Create an EventBusClient that dispatches to a registry's listeners.
+ * Without a registry, the global registry is used at dispatch time.
+ *
+ * Deferred listeners run through `runInBackground` when an ExecutionContext
+ * is available (Workers), and inline after the sync listeners otherwise.
+ */
+export function createEventBus(registry?: EventRegistry): EventBusClient {
+  return {
+    dispatch: (event, payload) =>
+      Effect.gen(function* () {
+        const validated = yield* validateEventPayload(event, payload)
+        const context = yield* Effect.context<never>()
+        const listeners = (registry ?? getGlobalEventRegistry()).listenersFor(event.name)
+
+        const deferred: Array<Effect.Effect<void>> = []
+        for (const listener of listeners) {
+          const run = (listener.handle(validated) as Effect.Effect<unknown, unknown>).pipe(
+            Effect.provide(context)
+          )
+
+          if (!listener.deferred) {
+            yield* run.pipe(
+              Effect.mapError(
+                (cause) =>
+                  new EventError({
+                    message: `Listener '${listener.name}' failed for event '${event.name}'`,
+                    event: event.name,
+                    listener: listener.name,
+                    cause,
+                  })
+              )
+            )
+            continue
+          }
+
+          deferred.push(
+            run.pipe(
+              Effect.asVoid,
+              Effect.catchAllCause((cause) =>
+                logListenerFailure(context, event.name, listener.name, cause)
+              )
+            )
+          )
+        }
+
+        if (deferred.length === 0) return
+
+        const executionContext = Context.getOption(
+          context as Context.Context<ExecutionContextService>,
+          ExecutionContextService
+        )
+        if (Option.isSome(executionContext) && executionContext.value.isAvailable) {
+          for (const run of deferred) {
+            yield* executionContext.value.runInBackground(run)
+          }
+        } else {
+          yield* Effect.all(deferred, { discard: true })
+        }
+      }),
+  }
+}
+
+/**
+ * Dispatch an event through EventBusService.
+ *
+ * @example
+ * ```typescript
+ * yield* dispatch(OrderPlaced, { orderId: order.id, total: order.total })
+ * ```
+ */
+export const dispatch = <A, I>(
+  event: EventDefinition<string, A, I>,
+  payload: A
+): Effect.Effect<void, EventError, EventBusService> =>
+  Effect.flatMap(EventBusService, (bus) => bus.dispatch(event, payload))
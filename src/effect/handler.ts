@@ -4,9 +4,9 @@
  * Wraps Effect computations into Hono handlers.
  */
 
-import { Effect, Exit, Cause, ManagedRuntime } from 'effect'
+import { Context, Effect, Exit, Cause } from 'effect'
 import type { Context as HonoContext, MiddlewareHandler, Env } from 'hono'
-import { getEffectRuntime, buildContextLayer } from './bridge.js'
+import { getEffectRuntime, getRequestContext } from './bridge.js'
 import {
   ValidationError,
   UnauthorizedError,
@@ -22,9 +22,14 @@ import { captureErrorContext } from './error-context.js'
 import {
   detectOutputFormat,
   JsonErrorFormatter,
-  TerminalErrorFormatter,
 } from './error-formatter.js'
 import type { HonertiaStructuredError } from './error-types.js'
+import { LoggerService, type LogLevel } from './services.js'
+import {
+  PRECOGNITION_HEADERS,
+  filterValidationError,
+  getPrecognitionValidateOnly,
+} from './precognition.js'
 
 /**
  * Memoized formatter instances to avoid recreation on every error.
@@ -37,11 +42,6 @@ const memoizedFormatters = {
       includeContext: true,
       includeFixes: true,
     }),
-    terminal: new TerminalErrorFormatter({
-      useColors: true,
-      showSnippet: true,
-      showFixes: true,
-    }),
   },
   prod: {
     json: new JsonErrorFormatter({
@@ -85,17 +85,50 @@ function toThrowableError(error: AppError): Error {
 }
 
 /**
- * Log a structured error to the console in terminal format.
- * Suppressed during tests (NODE_ENV=test or BUN_ENV=test).
+ * Log level for an error: expected client errors are `info`, HttpErrors
+ * follow their status, and everything else is `error`.
+ */
+function logLevelFor(error: AppError): LogLevel {
+  if (error instanceof HttpError) return error.status >= 500 ? 'error' : 'warn'
+  if (
+    error instanceof ValidationError ||
+    error instanceof UnauthorizedError ||
+    error instanceof NotFoundError ||
+    ('_tag' in error && error._tag === 'ForbiddenError')
+  ) {
+    return 'info'
+  }
+  return 'error'
+}
+
+/**
+ * Log an error through the request's LoggerService and tag the
+ * structured error with the request ID. In development the entry also
+ * carries the full structured error (fixes, source and context).
+ * A failing log driver never prevents the error response.
  */
-function logStructuredError(
+function logToRequestLogger<E extends Env>(
+  c: HonoContext<E>,
+  error: AppError,
   structured: HonertiaStructuredError,
   isDev: boolean
 ): void {
-  if (!isDev) return
-  // Suppress logging during tests
-  if (typeof Bun !== 'undefined' && Bun.env?.NODE_ENV === 'test') return
-  console.error(memoizedFormatters.dev.terminal.format(structured))
+  try {
+    const logger = Context.get(getRequestContext(c), LoggerService)
+    structured.requestId = logger.requestId
+    Effect.runSync(
+      logger[logLevelFor(error)](structured.message, {
+        code: structured.code,
+        tag: structured.tag,
+        status: structured.httpStatus,
+        method: c.req.method,
+        path: c.req.path,
+        ...(isDev ? { details: { ...structured } } : {}),
+      }).pipe(Effect.catchAllCause(() => Effect.void))
+    )
+  } catch {
+    // Async or throwing drivers: the response matters more than the log line
+  }
 }
 
 /**
@@ -143,8 +176,7 @@ export async function errorToResponse<E extends Env>(
   // Convert to structured error
   const structured = toStructuredError(error, context)
 
-  // Log in development
-  logStructuredError(structured, isDev)
+  logToRequestLogger(c, error, structured, isDev)
 
   // ValidationError: re-render form with errors or redirect back
   if (error instanceof ValidationError) {
@@ -158,16 +190,20 @@ export async function errorToResponse<E extends Env>(
       return c.json(getJsonFormatter(isDev).format(structured), 422)
     }
 
+    // Scope errors to the error's own bag, or the one requested by the client
+    const errorBag = error.errorBag ?? (c.req.header('X-Inertia-Error-Bag') || undefined)
+
     // For Inertia requests with a component, render the component with errors
     if (error.component && (c as any).var?.honertia) {
       const honertia = (c as any).var.honertia
-      honertia.setErrors(error.errors)
+      honertia.setErrors(error.errors, errorBag)
       return await honertia.render(error.component)
     }
 
-    // Redirect back with errors
+    // Redirect back with errors, flashed so they survive the redirect
     const referer = c.req.header('Referer') || '/'
-    ;(c as any).var?.honertia?.setErrors(error.errors)
+    ;(c as any).var?.honertia?.setErrors(error.errors, errorBag)
+    ;(c as any).var?.flash?.putErrors(error.errors, errorBag)
     return c.redirect(referer, 303)
   }
 
@@ -201,6 +237,10 @@ export async function errorToResponse<E extends Env>(
 
   // HttpError: return custom status JSON (gives developers control over HTTP responses)
   if (error instanceof HttpError) {
+    const retryAfter = (error.body as { retryAfter?: unknown } | undefined)?.retryAfter
+    if (error.status === 429 && typeof retryAfter === 'number') {
+      c.header('Retry-After', String(retryAfter))
+    }
     return c.json(getJsonFormatter(isDev).format(structured), error.status as any)
   }
 
@@ -211,10 +251,49 @@ export async function errorToResponse<E extends Env>(
   throw throwable
 }
 
+/**
+ * Build the response for a precognitive request.
+ *
+ * Errors are narrowed to `Precognition-Validate-Only` when present. Returns
+ * 204 when nothing is left, otherwise 422 with the structured validation
+ * error plus a flat `errors` map for form helpers.
+ */
+export function precognitionResponse<E extends Env>(
+  c: HonoContext<E>,
+  error?: ValidationError
+): Response {
+  const validateOnly = getPrecognitionValidateOnly(c)
+  const remaining = error && validateOnly ? filterValidationError(error, validateOnly) : error
+
+  const headers = new Headers({
+    [PRECOGNITION_HEADERS.PRECOGNITION]: 'true',
+    Vary: PRECOGNITION_HEADERS.PRECOGNITION,
+  })
+
+  if (!remaining) {
+    headers.set(PRECOGNITION_HEADERS.SUCCESS, 'true')
+    return new Response(null, { status: 204, headers })
+  }
+
+  const structured = toStructuredError(remaining, captureErrorContext(c))
+  headers.set('Content-Type', 'application/json')
+  return new Response(
+    JSON.stringify({
+      ...getJsonFormatter(isDevelopment(c)).format(structured),
+      errors: remaining.errors,
+    }),
+    { status: 422, headers }
+  )
+}
+
 /**
  * Handle a Redirect value (which is not an error).
+ * External redirects from Inertia requests become a 409 with X-Inertia-Location.
  */
 function handleRedirect<E extends Env>(redirect: Redirect, c: HonoContext<E>): Response {
+  if (redirect.external && c.req.header('X-Inertia') === 'true') {
+    return c.body(null, 409, { 'X-Inertia-Location': redirect.url })
+  }
   return c.redirect(redirect.url, redirect.status)
 }
 
@@ -225,6 +304,23 @@ function isRedirect(value: unknown): value is Redirect {
   return value instanceof Redirect
 }
 
+/**
+ * Run an Effect that has all of its services provided.
+ *
+ * Uses the app runtime from effectBridge when present (for static `layer`
+ * services), otherwise the default runtime.
+ */
+export async function runEffect<E extends Env, Err extends AppError>(
+  c: HonoContext<E>,
+  effect: Effect.Effect<Response | Redirect, Err, never>
+): Promise<Response> {
+  const runtime = getEffectRuntime(c)
+  const exit = runtime
+    ? await runtime.runPromiseExit(effect)
+    : await Effect.runPromiseExit(effect)
+  return await handleExit(exit, c)
+}
+
 /**
  * Wrap an Effect into a Hono handler.
  */
@@ -232,23 +328,9 @@ export function effectHandler<E extends Env, R, Err extends AppError>(
   effect: Effect.Effect<Response | Redirect, Err, R>
 ): MiddlewareHandler<E> {
   return async (c) => {
-    const runtime = getEffectRuntime(c)
-
-    if (!runtime) {
-      // No runtime set up, create one for this request
-      const layer = buildContextLayer(c)
-      const tempRuntime = ManagedRuntime.make(layer)
-
-      try {
-        const exit = await tempRuntime.runPromiseExit(effect as Effect.Effect<Response | Redirect, AppError, any>)
-        return await handleExit(exit, c)
-      } finally {
-        await tempRuntime.dispose()
-      }
-    }
-
-    const exit = await runtime.runPromiseExit(effect as Effect.Effect<Response | Redirect, AppError, any>)
-    return await handleExit(exit, c)
+    // Falls back to building request services when effectBridge isn't installed
+    const program = Effect.provide(effect, getRequestContext(c))
+    return await runEffect(c, program as Effect.Effect<Response | Redirect, Err, never>)
   }
 }
 
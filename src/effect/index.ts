@@ -10,25 +10,70 @@ export {
   AuthService,
   AuthUserService,
   EmailService,
+  EmailError,
   HonertiaService,
   RequestService,
   ResponseFactoryService,
+  ResponseHeadersService,
   BindingsService,
   CacheService,
   CacheClientError,
+  StorageService,
+  StorageError,
   ExecutionContextService,
+  LoggerService,
+  EventBusService,
+  EventError,
+  QueueService,
+  QueueError,
+  RateLimitService,
+  FlashService,
+  HeadService,
+  RouteRegistryService,
   authorize,
   type AuthUser,
   type EmailClient,
+  type EmailAddress,
+  type EmailAttachment,
+  type EmailMessage,
   type HonertiaRenderer,
   type RequestContext,
   type ResponseFactory,
   type CacheClient,
+  type StorageClient,
+  type StorageBody,
+  type StorageObject,
+  type StorageObjectInfo,
+  type StoragePutOptions,
+  type StorageListOptions,
+  type StorageListResult,
+  type StorageSignedUrlOptions,
   type ExecutionContextClient,
+  type LoggerClient,
+  type LogDriver,
+  type LogEntry,
+  type LogLevel,
+  type EventBusClient,
+  type EventDefinition,
+  type EventPayload,
+  type QueueClient,
+  type QueueDispatchOptions,
+  type JobDefinition,
+  type RateLimitResult,
+  type FlashClient,
+  type HeadClient,
   type HonertiaDatabaseType,
   type HonertiaAuthType,
   type HonertiaBindingsType,
   type HonertiaAuthUserType,
+  type HonertiaPages,
+  type PageName,
+  type PageRenderProps,
+  type HonertiaSharedProps,
+  type BuiltinSharedProps,
+  type SharedPropsType,
+  type SharedPropKey,
+  type SharedPropValue,
   type DefaultAuthUser,
   type DatabaseType,
   type SchemaType,
@@ -155,9 +200,15 @@ export {
 export {
   effectBridge,
   buildContextLayer,
+  buildRequestContext,
   getEffectRuntime,
+  getRequestContext,
   getEffectSchema,
+  runWithServices,
   type EffectBridgeConfig,
+  type RequestServices,
+  type RunWithServicesOptions,
+  type CloudflareExecutionContext,
 } from './bridge.js'
 
 // Handler
@@ -165,10 +216,21 @@ export {
   effectHandler,
   effect,
   handle,
+  runEffect,
   errorToResponse,
+  precognitionResponse,
   getStructuredFromThrown,
 } from './handler.js'
 
+// Precognition
+export {
+  PRECOGNITION_HEADERS,
+  isPrecognitiveRequest,
+  getPrecognitionValidateOnly,
+  mergeValidationErrors,
+  filterValidationError,
+} from './precognition.js'
+
 // Action Composables
 export {
   action,
@@ -182,6 +244,9 @@ export {
 // Response Helpers
 export {
   redirect,
+  location,
+  urlFor,
+  redirectToRoute,
   render,
   renderWithErrors,
   json,
@@ -192,8 +257,27 @@ export {
   prefersJson,
   jsonOrRender,
   share,
+  flash,
+  head,
 } from './responses.js'
 
+// Prop Types
+export {
+  defer,
+  merge,
+  deepMerge,
+  optional,
+  always,
+  isDeferProp,
+  isMergeProp,
+  isOptionalProp,
+  isAlwaysProp,
+  DeferProp,
+  MergeProp,
+  OptionalProp,
+  AlwaysProp,
+} from '../props.js'
+
 // Routing
 export {
   EffectRouteBuilder,
@@ -226,10 +310,159 @@ export {
   type TestExpectation,
   type TestContext,
   type TestCaseOptions,
+  type PrecognitiveTestCaseOptions,
   type TestFn,
   type TestAppConfig,
 } from './testing.js'
 
+// Storage
+export {
+  StorageLayer,
+  createR2StorageClient,
+  createLocalStorageClient,
+  createMemoryStorageClient,
+  presignS3Url,
+  verifyLocalSignedUrl,
+  type R2BucketLike,
+  type R2S3Credentials,
+  type R2StorageOptions,
+  type R2StorageLayerOptions,
+  type LocalStorageOptions,
+  type PresignS3UrlOptions,
+} from './storage.js'
+
+// Logger
+export {
+  REQUEST_ID_HEADER,
+  getRequestId,
+  createLoggerClient,
+  createConsoleLogDriver,
+  type ConsoleLogDriverOptions,
+} from './logger.js'
+
+// Events
+export {
+  EventRegistry,
+  getGlobalEventRegistry,
+  resetGlobalEventRegistry,
+  defineEvent,
+  listen,
+  dispatch,
+  createEventBus,
+  validateEventPayload,
+  type EventListener,
+  type ListenOptions,
+  type RegisteredListener,
+  type EventMetadataJson,
+} from './events.js'
+
+// Queue
+export {
+  JobRegistry,
+  getGlobalJobRegistry,
+  resetGlobalJobRegistry,
+  defineJob,
+  dispatchJob,
+  createQueuedJob,
+  attemptJob,
+  createCloudflareQueueClient,
+  createQueueConsumer,
+  createLocalQueue,
+  createMemoryFailedJobStore,
+  createKVFailedJobStore,
+  QueueLayer,
+  type JobBackoff,
+  type DefineJobOptions,
+  type JobRunnerOptions,
+  type JobAttemptResult,
+  type JobMetadataJson,
+  type QueuedJob,
+  type FailedJob,
+  type FailedJobStore,
+  type KVNamespaceLike,
+  type CloudflareQueueLike,
+  type QueueMessageLike,
+  type QueueBatchLike,
+  type QueueConsumerOptions,
+  type CloudflareQueueLayerOptions,
+  type LocalQueue,
+  type LocalQueuedJob,
+  type LocalQueueOptions,
+  type WorkOptions,
+  type WorkResult,
+} from './queue.js'
+
+// Schedules
+export {
+  ScheduleRegistry,
+  getGlobalScheduleRegistry,
+  resetGlobalScheduleRegistry,
+  defineSchedule,
+  runSchedule,
+  scheduled,
+  scheduleLockKey,
+  type DefineScheduleOptions,
+  type ScheduleDefinition,
+  type ScheduleMetadataJson,
+  type ScheduleRunResult,
+  type RunScheduleOptions,
+  type ScheduledControllerLike,
+  type ScheduledHandlerOptions,
+} from './schedule.js'
+
+// Rate Limiting
+export {
+  RateLimitLayer,
+  rateLimit,
+  checkRateLimit,
+  rateLimitHeaders,
+  resolveRateLimitKey,
+  type RateLimitKey,
+  type RateLimitSubject,
+  type RateLimitAlgorithm,
+  type RateLimitOptions,
+  type RateLimitLayerOptions,
+} from './rate-limit.js'
+
+// Mail
+export {
+  MailableRegistry,
+  getGlobalMailableRegistry,
+  resetGlobalMailableRegistry,
+  defineMailable,
+  renderMailable,
+  renderTemplate,
+  htmlToText,
+  buildMailMessage,
+  sendMail,
+  validateEmailMessage,
+  createEmailClient,
+  EmailLayer,
+  formatEmailAddress,
+  buildMimeMessage,
+  toResendPayload,
+  createHttpMailTransport,
+  createSmtpMailTransport,
+  createFileMailTransport,
+  createLogMailTransport,
+  mailPreview,
+  type MailRenderable,
+  type MailTemplate,
+  type MailableOptions,
+  type Mailable,
+  type MailableMetadataJson,
+  type RenderedMail,
+  type MailEnvelope,
+  type OutgoingEmailMessage,
+  type MailTransport,
+  type EmailClientOptions,
+  type HttpMailTransportOptions,
+  type SmtpMailTransportOptions,
+  type FileMailTransportOptions,
+  type LogMailTransportOptions,
+  type MailPreviewOptions,
+} from './mail.js'
+
 // Test Layers
 export {
   TestLayer,
@@ -257,6 +490,7 @@ export {
   cacheSet,
   cacheInvalidate,
   cacheInvalidatePrefix,
+  createMemoryCacheClient,
   type CacheOptions,
   type CacheGetOptions,
   type CacheInvalidateOptions,
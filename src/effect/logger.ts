@@ -0,0 +1,169 @@
+/**
+ * Logger
+ *
+ * Request IDs and log drivers for LoggerService.
+ */
+
+import { Context, Effect, Option } from 'effect'
+import type { Context as HonoContext, Env } from 'hono'
+import { LoggerService, type LogDriver, type LogEntry, type LogLevel, type LoggerClient } from './services.js'
+
+/**
+ * Response header carrying the request ID.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+/**
+ * Symbol for storing the request ID in Hono context.
+ */
+const REQUEST_ID = Symbol('requestId')
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+}
+
+/**
+ * Incoming IDs end up in logs and response headers, so only accept
+ * short tokens (Cloudflare ray IDs, UUIDs and similar).
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+function acceptRequestId(value: string | undefined): string | undefined {
+  return value && REQUEST_ID_PATTERN.test(value) ? value : undefined
+}
+
+/**
+ * Get the request ID, taken from `cf-ray` or `X-Request-Id` or generated.
+ * The ID is stored on the context, so every call for a request agrees.
+ */
+export function getRequestId<E extends Env>(c: HonoContext<E>): string {
+  const existing = (c as any).var?.[REQUEST_ID] as string | undefined
+  if (existing) return existing
+
+  const requestId =
+    acceptRequestId(c.req.header('cf-ray')) ??
+    acceptRequestId(c.req.header(REQUEST_ID_HEADER)) ??
+    crypto.randomUUID()
+  c.set(REQUEST_ID as any, requestId)
+  return requestId
+}
+
+/**
+ * Create a LoggerClient that writes entries to a driver.
+ */
+export function createLoggerClient(
+  driver: LogDriver,
+  requestId: string,
+  bound: Record<string, unknown> = {}
+): LoggerClient {
+  const log = (level: LogLevel) => (message: string, context?: Record<string, unknown>) =>
+    Effect.sync(() => {
+      // A broken driver must not fail the code that is logging
+      try {
+        const written: unknown = driver.write({
+          level,
+          message,
+          timestamp: new Date().toISOString(),
+          requestId,
+          context: { ...bound, ...context },
+        })
+        if (written instanceof Promise) written.catch(() => {})
+      } catch {
+        // Dropped
+      }
+    })
+
+  return {
+    requestId,
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    with: (context) => createLoggerClient(driver, requestId, { ...bound, ...context }),
+  }
+}
+
+export interface ConsoleLogDriverOptions {
+  /** Minimum level to write. Defaults to `info`. */
+  level?: LogLevel
+}
+
+/**
+ * Errors have no enumerable properties, so JSON.stringify would drop them.
+ */
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  return value
+}
+
+/**
+ * Serialize a log entry, falling back to a replacer that writes BigInts as
+ * strings and circular references as `[Circular]` rather than throwing.
+ */
+function serializeLogEntry(entry: LogEntry): string {
+  try {
+    return JSON.stringify(entry, serializeValue)
+  } catch {
+    const ancestors: unknown[] = []
+    return JSON.stringify(entry, function (this: unknown, key: string, value: unknown) {
+      if (typeof value === 'bigint') return value.toString()
+      if (typeof value !== 'object' || value === null) return value
+      // `this` is the object holding `key`; drop ancestors we've left
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop()
+      if (ancestors.includes(value)) return '[Circular]'
+      const serialized = serializeValue(key, value)
+      if (serialized === value) ancestors.push(value)
+      return serialized
+    })
+  }
+}
+
+/**
+ * Log driver that writes one JSON object per line to the console.
+ * Cloudflare Workers Logs indexes the fields of JSON log lines.
+ */
+export function createConsoleLogDriver(options: ConsoleLogDriverOptions = {}): LogDriver {
+  const minimum = LOG_LEVELS[options.level ?? 'info']
+
+  return {
+    write: (entry: LogEntry) => {
+      if (LOG_LEVELS[entry.level] < minimum) return
+      const line = serializeLogEntry(entry)
+      if (entry.level === 'error') console.error(line)
+      else if (entry.level === 'warn') console.warn(line)
+      else console.log(line)
+    },
+  }
+}
+
+const silentLogDriver: LogDriver = { write: () => {} }
+
+let defaultLogDriver: LogDriver | undefined
+
+/**
+ * The driver used when `logger` isn't configured: JSON to the console,
+ * suppressed during tests (NODE_ENV=test).
+ */
+export function getDefaultLogDriver(): LogDriver {
+  if (!defaultLogDriver) {
+    const isTest = typeof Bun !== 'undefined' && Bun.env?.NODE_ENV === 'test'
+    defaultLogDriver = isTest ? silentLogDriver : createConsoleLogDriver()
+  }
+  return defaultLogDriver
+}
+
+/**
+ * The context's LoggerService, or a logger on the default driver for
+ * effects running without one.
+ */
+export function getContextLogger(context: Context.Context<never>): LoggerClient {
+  return Option.getOrElse(
+    Context.getOption(context as Context.Context<LoggerService>, LoggerService),
+    () => createLoggerClient(getDefaultLogDriver(), crypto.randomUUID())
+  )
+}
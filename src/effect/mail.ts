@@ -0,0 +1,942 @@
+/**
+ * Mail
+ *
+ * Mailables (templated multi-part emails), transports that deliver them,
+ * and a development preview of every registered mailable.
+ */
+
+import { Effect, Layer } from 'effect'
+import { Hono, type Context as HonoContext } from 'hono'
+import {
+  BindingsService,
+  EmailError,
+  EmailService,
+  type EmailAddress,
+  type EmailAttachment,
+  type EmailClient,
+  type EmailMessage,
+} from './services.js'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Anything a template can render to: a string, or a value whose `toString()`
+ * returns the HTML, such as a `hono/jsx` element or `hono/html` template.
+ */
+export type MailRenderable = string | { toString(): string | Promise<string> }
+
+/**
+ * A mail body: a `{{ path }}` template string, or a function of the props
+ * returning a component or string.
+ */
+export type MailTemplate<P> = string | ((props: P) => MailRenderable | Promise<MailRenderable>)
+
+export interface MailableOptions<P> {
+  /** Subject line, as a `{{ path }}` template or a function of the props */
+  subject: string | ((props: P) => string)
+  html?: MailTemplate<P>
+  /** Plain text body. Derived from the HTML when omitted. */
+  text?: MailTemplate<P>
+  from?: EmailAddress
+  cc?: EmailAddress | readonly EmailAddress[]
+  bcc?: EmailAddress | readonly EmailAddress[]
+  replyTo?: EmailAddress | readonly EmailAddress[]
+  attachments?: readonly EmailAttachment[] | ((props: P) => readonly EmailAttachment[])
+  /** Sample props used by the preview route */
+  preview?: P | (() => P)
+  /** Registry to register the mailable in. Defaults to the global mailable registry. */
+  registry?: MailableRegistry
+}
+
+/**
+ * A named email template. Create with `defineMailable()`.
+ */
+export interface Mailable<P = any> {
+  readonly name: string
+  readonly options: MailableOptions<P>
+}
+
+/**
+ * Subject and bodies rendered from a mailable.
+ */
+export interface RenderedMail {
+  subject: string
+  html?: string
+  text?: string
+}
+
+/**
+ * Recipients and extras for sending a mailable.
+ */
+export interface MailEnvelope {
+  to: EmailAddress | readonly EmailAddress[]
+  cc?: EmailAddress | readonly EmailAddress[]
+  bcc?: EmailAddress | readonly EmailAddress[]
+  replyTo?: EmailAddress | readonly EmailAddress[]
+  from?: EmailAddress
+  /** Added to the mailable's own attachments */
+  attachments?: readonly EmailAttachment[]
+}
+
+/**
+ * A message ready for a transport, with its sender resolved.
+ */
+export interface OutgoingEmailMessage extends EmailMessage {
+  readonly from: EmailAddress
+}
+
+/**
+ * Delivers outgoing messages.
+ */
+export interface MailTransport {
+  /** Shown in errors, e.g. `smtp` */
+  readonly name: string
+  send(message: OutgoingEmailMessage): Promise<void>
+}
+
+export interface EmailClientOptions {
+  /** Sender for messages without a `from` address */
+  from?: EmailAddress
+}
+
+/**
+ * JSON-serializable mailable metadata.
+ */
+export interface MailableMetadataJson {
+  name: string
+  preview: boolean
+}
+
+// ============================================================================
+// Mailable Registry
+// ============================================================================
+
+/**
+ * Registry of mailables by name, used by the preview route.
+ */
+export class MailableRegistry {
+  private mailables = new Map<string, Mailable>()
+
+  /**
+   * Register a mailable, replacing any with the same name.
+   */
+  register(mailable: Mailable): void {
+    this.mailables.set(mailable.name, mailable)
+  }
+
+  /**
+   * Get all registered mailables.
+   */
+  all(): readonly Mailable[] {
+    return Array.from(this.mailables.values())
+  }
+
+  /**
+   * Find a mailable by name.
+   */
+  findByName(name: string): Mailable | undefined {
+    return this.mailables.get(name)
+  }
+
+  /**
+   * Get the number of registered mailables.
+   */
+  count(): number {
+    return this.mailables.size
+  }
+
+  /**
+   * Clear all mailables.
+   */
+  clear(): void {
+    this.mailables.clear()
+  }
+
+  /**
+   * Export mailables as JSON-serializable data, sorted by name.
+   */
+  toJson(): MailableMetadataJson[] {
+    return this.all()
+      .map(({ name, options }) => ({ name, preview: options.preview !== undefined }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+let globalMailableRegistry: MailableRegistry | null = null
+
+/**
+ * Get the global mailable registry.
+ * Creates one if it doesn't exist.
+ */
+export function getGlobalMailableRegistry(): MailableRegistry {
+  if (!globalMailableRegistry) {
+    globalMailableRegistry = new MailableRegistry()
+  }
+  return globalMailableRegistry
+}
+
+/**
+ * Reset the global mailable registry.
+ * Useful for testing.
+ */
+export function resetGlobalMailableRegistry(): void {
+  globalMailableRegistry = null
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+/**
+ * Replace `{{ path }}` placeholders with values from the props.
+ * Missing values render as empty strings.
+ */
+export function renderTemplate(
+  template: string,
+  props: unknown,
+  options: { escape?: boolean } = {}
+): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    let value: unknown = props
+    for (const key of path.split('.')) {
+      value = value == null ? undefined : (value as Record<string, unknown>)[key]
+    }
+    const text = value == null ? '' : String(value)
+    return options.escape ? escapeHtml(text) : text
+  })
+}
+
+/**
+ * Derive a plain text body from HTML.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').trim()
+      return text && text !== href ? `${text} (${href})` : href
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+async function renderBody<P>(template: MailTemplate<P>, props: P, escape: boolean): Promise<string> {
+  if (typeof template === 'string') {
+    return renderTemplate(template, props, { escape })
+  }
+  const rendered = await template(props)
+  return typeof rendered === 'string' ? rendered : String(await rendered.toString())
+}
+
+/**
+ * Define a mailable and register it.
+ *
+ * @example
+ * ```typescript
+ * export const WelcomeEmail = defineMailable<{ name: string; url: string }>('welcome', {
+ *   subject: 'Welcome, {{ name }}!',
+ *   html: (props) => <Welcome {...props} />,
+ *   preview: { name: 'Ada', url: 'https://example.com' },
+ * })
+ * ```
+ */
+export function defineMailable<P = Record<string, unknown>>(
+  name: string,
+  options: MailableOptions<P>
+): Mailable<P> {
+  const mailable: Mailable<P> = { name, options }
+  ;(options.registry ?? getGlobalMailableRegistry()).register(mailable)
+  return mailable
+}
+
+/**
+ * Render a mailable's subject and bodies.
+ */
+export function renderMailable<P>(
+  mailable: Mailable<P>,
+  props: P
+): Effect.Effect<RenderedMail, EmailError> {
+  const { subject, html, text } = mailable.options
+  return Effect.tryPromise({
+    try: async () => {
+      const renderedHtml = html !== undefined ? await renderBody(html, props, true) : undefined
+      const renderedText =
+        text !== undefined
+          ? await renderBody(text, props, false)
+          : renderedHtml !== undefined
+            ? htmlToText(renderedHtml)
+            : undefined
+      return {
+        subject: typeof subject === 'function' ? subject(props) : renderTemplate(subject, props),
+        ...(renderedHtml !== undefined ? { html: renderedHtml } : {}),
+        ...(renderedText !== undefined ? { text: renderedText } : {}),
+      }
+    },
+    catch: (cause) =>
+      new EmailError({ message: `Failed to render mailable '${mailable.name}'`, cause }),
+  })
+}
+
+const toList = (
+  value: EmailAddress | readonly EmailAddress[] | undefined
+): readonly EmailAddress[] | undefined =>
+  value === undefined ? undefined : Array.isArray(value) ? value : [value as EmailAddress]
+
+const mergeLists = (
+  ...lists: Array<readonly EmailAddress[] | undefined>
+): readonly EmailAddress[] | undefined => {
+  const merged = lists.flatMap((list) => list ?? [])
+  return merged.length > 0 ? merged : undefined
+}
+
+/**
+ * Render a mailable into a message for an envelope.
+ */
+export function buildMailMessage<P>(
+  mailable: Mailable<P>,
+  props: P,
+  envelope: MailEnvelope
+): Effect.Effect<EmailMessage, EmailError> {
+  const { options } = mailable
+  return Effect.map(renderMailable(mailable, props), (rendered) => {
+    const attachments = [
+      ...(typeof options.attachments === 'function' ? options.attachments(props) : options.attachments ?? []),
+      ...(envelope.attachments ?? []),
+    ]
+    const from = envelope.from ?? options.from
+    const cc = mergeLists(toList(options.cc), toList(envelope.cc))
+    const bcc = mergeLists(toList(options.bcc), toList(envelope.bcc))
+    const replyTo = toList(envelope.replyTo) ?? toList(options.replyTo)
+    return {
+      ...(from !== undefined ? { from } : {}),
+      to: toList(envelope.to) ?? [],
+      ...(cc ? { cc } : {}),
+      ...(bcc ? { bcc } : {}),
+      ...(replyTo ? { replyTo } : {}),
+      ...rendered,
+      ...(attachments.length > 0 ? { attachments } : {}),
+      mailable: mailable.name,
+    }
+  })
+}
+
+/**
+ * Render and send a mailable through EmailService.
+ *
+ * @example
+ * ```typescript
+ * yield* sendMail(WelcomeEmail, { name: user.name, url }, { to: user.email })
+ * ```
+ */
+export const sendMail = <P>(
+  mailable: Mailable<P>,
+  props: P,
+  envelope: MailEnvelope
+): Effect.Effect<void, EmailError, EmailService> =>
+  Effect.flatMap(buildMailMessage(mailable, props, envelope), (message) =>
+    Effect.flatMap(EmailService, (email) =>
+      email.sendMessage ? email.sendMessage(message) : sendPlainMessage(email, message)
+    )
+  )
+
+/**
+ * Send a message through a client that only has `send`: one plain-text email
+ * per recipient. Attachments can't be sent this way.
+ */
+function sendPlainMessage(email: EmailClient, message: EmailMessage): Effect.Effect<void, EmailError> {
+  if (message.attachments && message.attachments.length > 0) {
+    return Effect.fail(
+      new EmailError({ message: 'EmailService needs sendMessage to send attachments' })
+    )
+  }
+
+  const recipients = [...message.to, ...(message.cc ?? []), ...(message.bcc ?? [])]
+  const body = message.text ?? htmlToText(message.html ?? '')
+  return Effect.forEach(
+    recipients,
+    (recipient) =>
+      email.send(addressOf(recipient), message.subject, body).pipe(
+        Effect.mapError(
+          (cause) => new EmailError({ message: `Failed to send email: ${cause.message}`, cause })
+        )
+      ),
+    { discard: true }
+  )
+}
+
+// ============================================================================
+// Email Client
+// ============================================================================
+
+const addressOf = (address: EmailAddress): string =>
+  typeof address === 'string' ? address : address.address
+
+/**
+ * Check that a message has recipients and a body, and that no address or
+ * header could inject extra headers.
+ */
+export function validateEmailMessage(message: EmailMessage): Effect.Effect<EmailMessage, EmailError> {
+  const recipients = [...message.to, ...(message.cc ?? []), ...(message.bcc ?? [])]
+  const addresses = [...recipients, ...(message.replyTo ?? []), ...(message.from ? [message.from] : [])]
+
+  if (message.to.length === 0) {
+    return Effect.fail(new EmailError({ message: 'Email has no recipients' }))
+  }
+  if (message.html === undefined && message.text === undefined) {
+    return Effect.fail(new EmailError({ message: 'Email has no HTML or text body' }))
+  }
+  const invalid = addresses.find((address) => !/^[^\s<>@]+@[^\s<>@]+$/.test(addressOf(address)))
+  if (invalid !== undefined) {
+    return Effect.fail(new EmailError({ message: `Invalid email address: ${addressOf(invalid)}` }))
+  }
+  const headerValues = [
+    message.subject,
+    ...addresses.map((address) => (typeof address === 'string' ? '' : address.name ?? '')),
+    ...Object.entries(message.headers ?? {}).flat(),
+  ]
+  if (headerValues.some((value) => /[\r\n]/.test(value))) {
+    return Effect.fail(new EmailError({ message: 'Email headers cannot contain line breaks' }))
+  }
+  return Effect.succeed(message)
+}
+
+/**
+ * Create an EmailClient that delivers through a transport.
+ *
+ * @example
+ * ```typescript
+ * const email = createEmailClient(createSmtpMailTransport({ port: 1025 }), {
+ *   from: { name: 'Acme', address: 'hello@acme.test' },
+ * })
+ * ```
+ */
+export function createEmailClient(transport: MailTransport, options: EmailClientOptions = {}): EmailClient {
+  const sendMessage = (message: EmailMessage): Effect.Effect<void, EmailError> =>
+    Effect.gen(function* () {
+      const from = message.from ?? options.from
+      if (from === undefined) {
+        return yield* Effect.fail(
+          new EmailError({
+            message: 'Email has no from address. Set `from` on the message, mailable or email client.',
+            transport: transport.name,
+          })
+        )
+      }
+      const outgoing = (yield* validateEmailMessage({ ...message, from })) as OutgoingEmailMessage
+      yield* Effect.tryPromise({
+        try: () => transport.send(outgoing),
+        catch: (cause) =>
+          new EmailError({
+            message: `Failed to send email via ${transport.name}: ${cause instanceof Error ? cause.message : String(cause)}`,
+            transport: transport.name,
+            cause,
+          }),
+      })
+    })
+
+  return {
+    send: (to, subject, body) => sendMessage({ to: [to], subject, text: body }),
+    sendMessage,
+  }
+}
+
+/**
+ * Layers providing EmailService.
+ *
+ * @example
+ * ```typescript
+ * effectRoutes(app).provide(
+ *   EmailLayer.transport(
+ *     (env) => createHttpMailTransport({ url: 'https://api.resend.com/emails', apiKey: env.RESEND_KEY }),
+ *     { from: 'hello@acme.com' }
+ *   )
+ * )
+ * ```
+ */
+export const EmailLayer = {
+  /**
+   * Send through a transport, or one built from the worker bindings.
+   */
+  transport: (
+    transport: MailTransport | ((bindings: any) => MailTransport),
+    options: EmailClientOptions = {}
+  ) =>
+    typeof transport === 'function'
+      ? Layer.effect(
+          EmailService,
+          Effect.map(BindingsService, (bindings) => createEmailClient(transport(bindings), options))
+        )
+      : Layer.succeed(EmailService, createEmailClient(transport, options)),
+}
+
+// ============================================================================
+// MIME
+// ============================================================================
+
+const encoder = new TextEncoder()
+
+const toBytes = (content: string | Uint8Array | ArrayBuffer): Uint8Array =>
+  typeof content === 'string'
+    ? encoder.encode(content)
+    : content instanceof Uint8Array
+      ? content
+      : new Uint8Array(content)
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const wrap = (value: string, width = 76): string => value.match(new RegExp(`.{1,${width}}`, 'g'))?.join('\r\n') ?? ''
+
+/**
+ * Encode a header value as an RFC 2047 word when it isn't plain ASCII.
+ */
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(encoder.encode(value))}?=`
+
+/**
+ * Format an address for a header, e.g. `"Ada Lovelace" <ada@example.com>`.
+ */
+export function formatEmailAddress(address: EmailAddress): string {
+  if (typeof address === 'string' || !address.name) {
+    return addressOf(address)
+  }
+  const name = /^[\x20-\x7e]*$/.test(address.name)
+    ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeader(address.name)
+  return `${name} <${address.address}>`
+}
+
+const createBoundary = (): string => `honertia-${crypto.randomUUID()}`
+
+function textPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrap(toBase64(encoder.encode(content))),
+  ].join('\r\n')
+}
+
+function attachmentPart(attachment: EmailAttachment): string {
+  const filename = attachment.filename.replace(/["\r\n]/g, '')
+  return [
+    `Content-Type: ${attachment.contentType ?? 'application/octet-stream'}; name="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: ${attachment.contentId ? 'inline' : 'attachment'}; filename="${filename}"`,
+    ...(attachment.contentId ? [`Content-ID: <${attachment.contentId.replace(/[<>\r\n]/g, '')}>`] : []),
+    '',
+    wrap(toBase64(toBytes(attachment.content))),
+  ].join('\r\n')
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = createBoundary()
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join('\r\n')
+}
+
+/**
+ * Build an RFC 5322 message with text/HTML alternatives and attachments.
+ * Bcc recipients are left out of the headers.
+ */
+export function buildMimeMessage(message: OutgoingEmailMessage, options: { date?: Date } = {}): string {
+  const bodies = [
+    ...(message.text !== undefined ? [textPart('text/plain', message.text)] : []),
+    ...(message.html !== undefined ? [textPart('text/html', message.html)] : []),
+  ]
+  const body = bodies.length === 1 ? bodies[0] : multipart('alternative', bodies)
+  const content = message.attachments?.length
+    ? multipart('mixed', [body, ...message.attachments.map(attachmentPart)])
+    : body
+
+  const domain = addressOf(message.from).split('@')[1] ?? 'honertia.local'
+  const headers = [
+    `From: ${formatEmailAddress(message.from)}`,
+    `To: ${message.to.map(formatEmailAddress).join(', ')}`,
+    ...(message.cc?.length ? [`Cc: ${message.cc.map(formatEmailAddress).join(', ')}`] : []),
+    ...(message.replyTo?.length ? [`Reply-To: ${message.replyTo.map(formatEmailAddress).join(', ')}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${encodeHeader(value)}`),
+  ]
+
+  return `${headers.join('\r\n')}\r\n${content}\r\n`
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+export interface HttpMailTransportOptions {
+  /** Provider endpoint, e.g. `https://api.resend.com/emails` */
+  url: string
+  /** Sent as `Authorization: Bearer <apiKey>` */
+  apiKey?: string
+  headers?: Record<string, string>
+  /**
+   * Build the JSON request body. Defaults to the Resend format, which
+   * several providers accept.
+   */
+  body?: (message: OutgoingEmailMessage) => unknown
+  /** Custom fetch implementation */
+  fetch?: typeof fetch
+}
+
+/**
+ * The default HTTP transport body (Resend format).
+ */
+export function toResendPayload(message: OutgoingEmailMessage): Record<string, unknown> {
+  return {
+    from: formatEmailAddress(message.from),
+    to: message.to.map(formatEmailAddress),
+    ...(message.cc?.length ? { cc: message.cc.map(formatEmailAddress) } : {}),
+    ...(message.bcc?.length ? { bcc: message.bcc.map(formatEmailAddress) } : {}),
+    ...(message.replyTo?.length ? { reply_to: message.replyTo.map(formatEmailAddress) } : {}),
+    subject: message.subject,
+    ...(message.html !== undefined ? { html: message.html } : {}),
+    ...(message.text !== undefined ? { text: message.text } : {}),
+    ...(message.headers ? { headers: message.headers } : {}),
+    ...(message.attachments?.length
+      ? {
+          attachments: message.attachments.map((attachment) => ({
+            filename: attachment.filename,
+            content: toBase64(toBytes(attachment.content)),
+            ...(attachment.contentType ? { content_type: attachment.contentType } : {}),
+            ...(attachment.contentId ? { content_id: attachment.contentId } : {}),
+          })),
+        }
+      : {}),
+  }
+}
+
+/**
+ * Send through an email provider's HTTP API. Works on Workers.
+ */
+export function createHttpMailTransport(options: HttpMailTransportOptions): MailTransport {
+  return {
+    name: 'http',
+    send: async (message) => {
+      const response = await (options.fetch ?? fetch)(options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          ...options.headers,
+        },
+        body: JSON.stringify((options.body ?? toResendPayload)(message)),
+      })
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 500)
+        throw new Error(`${options.url} responded with ${response.status}${detail ? `: ${detail}` : ''}`)
+      }
+    },
+  }
+}
+
+export interface SmtpMailTransportOptions {
+  /** @default 'localhost' */
+  host?: string
+  /** @default 1025 (Mailpit and MailHog) */
+  port?: number
+  /** Connect over TLS */
+  secure?: boolean
+  /** Credentials for AUTH PLAIN */
+  auth?: { user: string; pass: string }
+  /** Name sent with EHLO. @default 'localhost' */
+  clientName?: string
+  /** Milliseconds before the connection is abandoned. @default 10000 */
+  timeout?: number
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+interface SmtpSocket {
+  write(data: string): unknown
+  end(): unknown
+  destroy(error?: Error): unknown
+  setEncoding(encoding: 'utf8'): unknown
+  setTimeout(ms: number, callback: () => void): unknown
+  on(event: 'data', listener: (chunk: string) => void): unknown
+  on(event: 'error', listener: (error: Error) => void): unknown
+  on(event: 'close', listener: () => void): unknown
+}
+
+/**
+ * Read SMTP replies from a socket, joining multi-line replies.
+ */
+function createReplyReader(socket: SmtpSocket): () => Promise<SmtpReply> {
+  const replies: SmtpReply[] = []
+  const waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = []
+  let buffer = ''
+  let lines: string[] = []
+  let failure: Error | undefined
+
+  const fail = (error: Error) => {
+    failure ??= error
+    for (const waiter of waiters.splice(0)) waiter.reject(failure)
+  }
+
+  socket.setEncoding('utf8')
+  socket.on('data', (chunk) => {
+    buffer += chunk
+    let index: number
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+      lines.push(line.slice(4))
+      if (line[3] === '-') continue
+
+      const reply = { code: Number(line.slice(0, 3)), text: lines.join('\n') }
+      lines = []
+      const waiter = waiters.shift()
+      if (waiter) waiter.resolve(reply)
+      else replies.push(reply)
+    }
+  })
+  socket.on('error', fail)
+  socket.on('close', () => fail(new Error('SMTP connection closed')))
+
+  return () => {
+    const reply = replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (failure) return Promise.reject(failure)
+    return new Promise((resolve, reject) => waiters.push({ resolve, reject }))
+  }
+}
+
+/**
+ * Send over SMTP, for local development against Mailpit, MailHog or a
+ * similar catcher. Uses `node:net`, so it doesn't run on Workers.
+ */
+export function createSmtpMailTransport(options: SmtpMailTransportOptions = {}): MailTransport {
+  const { host = 'localhost', port = 1025, clientName = 'localhost', timeout = 10_000 } = options
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const socket: SmtpSocket = options.secure
+        ? (await import('node:tls')).connect({ host, port, servername: host })
+        : (await import('node:net')).connect({ host, port })
+      socket.setTimeout(timeout, () => socket.destroy(new Error(`SMTP timed out after ${timeout}ms`)))
+      const read = createReplyReader(socket)
+
+      const expect = async (step: string, codes: number[]) => {
+        const reply = await read()
+        if (!codes.includes(reply.code)) {
+          throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.text}`)
+        }
+      }
+      const command = (step: string, line: string, codes: number[]) => {
+        socket.write(`${line}\r\n`)
+        return expect(step, codes)
+      }
+
+      try {
+        await expect('greeting', [220])
+        await command('EHLO', `EHLO ${clientName}`, [250])
+        if (options.auth) {
+          const credentials = toBase64(encoder.encode(`\0${options.auth.user}\0${options.auth.pass}`))
+          await command('AUTH', `AUTH PLAIN ${credentials}`, [235])
+        }
+        await command('MAIL FROM', `MAIL FROM:<${addressOf(message.from)}>`, [250])
+        for (const recipient of [...message.to, ...(message.cc ?? []), ...(message.bcc ?? [])]) {
+          await command('RCPT TO', `RCPT TO:<${addressOf(recipient)}>`, [250, 251])
+        }
+        await command('DATA', 'DATA', [354])
+        // Lines starting with a dot are escaped by doubling it
+        const data = buildMimeMessage(message).replace(/^\./gm, '..')
+        await command('message', `${data}.`, [250])
+        await command('QUIT', 'QUIT', [221]).catch(() => {})
+      } finally {
+        socket.end()
+      }
+    },
+  }
+}
+
+export interface FileMailTransportOptions {
+  /** Directory for `.eml` files. @default '.honertia/mail' */
+  directory?: string
+}
+
+/**
+ * Write each message to an `.eml` file, for development.
+ */
+export function createFileMailTransport(options: FileMailTransportOptions = {}): MailTransport {
+  const directory = options.directory ?? '.honertia/mail'
+  return {
+    name: 'file',
+    send: async (message) => {
+      const fs = await import('node:fs/promises')
+      const { join } = await import('node:path')
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug || 'email'}.eml`
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(join(directory, name), buildMimeMessage(message))
+    },
+  }
+}
+
+export interface LogMailTransportOptions {
+  /** Where to write each message. @default console.log */
+  write?: (output: string) => void
+}
+
+/**
+ * Log each message's recipients, subject and text body instead of sending it.
+ */
+export function createLogMailTransport(options: LogMailTransportOptions = {}): MailTransport {
+  const write = options.write ?? ((output: string) => console.log(output))
+  return {
+    name: 'log',
+    send: async (message) => {
+      write(
+        [
+          `From: ${formatEmailAddress(message.from)}`,
+          `To: ${message.to.map(formatEmailAddress).join(', ')}`,
+          ...(message.cc?.length ? [`Cc: ${message.cc.map(formatEmailAddress).join(', ')}`] : []),
+          ...(message.bcc?.length ? [`Bcc: ${message.bcc.map(formatEmailAddress).join(', ')}`] : []),
+          `Subject: ${message.subject}`,
+          ...(message.attachments?.length
+            ? [`Attachments: ${message.attachments.map((attachment) => attachment.filename).join(', ')}`]
+            : []),
+          '',
+          message.text ?? htmlToText(message.html ?? ''),
+        ].join('\n')
+      )
+    },
+  }
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+export interface MailPreviewOptions {
+  /** Registry to list mailables from. Defaults to the global mailable registry. */
+  registry?: MailableRegistry
+  /**
+   * Serve previews. Defaults to `ENVIRONMENT` or `NODE_ENV` being
+   * `'development'` in `c.env`; otherwise every preview route is a 404.
+   */
+  dev?: boolean | ((c: HonoContext) => boolean)
+}
+
+function isPreviewEnabled(c: HonoContext, dev: MailPreviewOptions['dev']): boolean {
+  if (typeof dev === 'boolean') return dev
+  if (dev) return dev(c)
+  const env = c.env as Record<string, unknown> | undefined
+  return env?.ENVIRONMENT === 'development' || env?.NODE_ENV === 'development'
+}
+
+function previewIndex(basePath: string, registry: MailableRegistry): string {
+  const items = registry
+    .toJson()
+    .map(({ name, preview }) => {
+      const href = `${basePath}/${encodeURIComponent(name)}`
+      return (
+        `<li><a href="${escapeHtml(href)}">${escapeHtml(name)}</a>` +
+        ` (<a href="${escapeHtml(href)}?format=text">text</a>)` +
+        (preview ? '' : ' <em>no preview props</em>') +
+        '</li>'
+      )
+    })
+    .join('\n')
+
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Mailables</title></head>
+<body>
+<h1>Mailables</h1>
+${items ? `<ul>\n${items}\n</ul>` : '<p>No mailables registered.</p>'}
+</body>
+</html>`
+}
+
+/**
+ * Development routes that list registered mailables and render each with
+ * its `preview` props. `?format=text` shows the text body and
+ * `?format=json` the rendered subject and bodies.
+ *
+ * @example
+ * ```typescript
+ * app.route('/_mail', mailPreview())
+ * ```
+ */
+export function mailPreview(options: MailPreviewOptions = {}): Hono {
+  const preview = new Hono()
+  const registry = () => options.registry ?? getGlobalMailableRegistry()
+
+  preview.use('*', async (c, next) => {
+    if (!isPreviewEnabled(c, options.dev)) {
+      return c.notFound()
+    }
+    await next()
+  })
+
+  preview.get('/', (c) => c.html(previewIndex(c.req.path.replace(/\/$/, ''), registry())))
+
+  preview.get('/:name', async (c) => {
+    const mailable = registry().findByName(c.req.param('name'))
+    if (!mailable) {
+      return c.notFound()
+    }
+
+    const { preview: props } = mailable.options
+    const resolved = typeof props === 'function' ? (props as () => unknown)() : props ?? {}
+    const result = await Effect.runPromise(Effect.either(renderMailable(mailable, resolved)))
+    if (result._tag === 'Left') {
+      const cause = result.left.cause
+      return c.text(`${result.left.message}\n\n${cause instanceof Error ? cause.stack : String(cause)}`, 500)
+    }
+
+    const rendered = result.right
+    switch (c.req.query('format')) {
+      case 'json':
+        return c.json(rendered)
+      case 'text':
+        return c.text(rendered.text ?? '')
+      default:
+        return rendered.html !== undefined ? c.html(rendered.html) : c.text(rendered.text ?? '')
+    }
+  })
+
+  return preview
+}
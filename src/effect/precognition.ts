@@ -0,0 +1,83 @@
+/**
+ * Precognition
+ *
+ * Live validation for forms: a request sent with `Precognition: true` runs
+ * the route's param, query and body validation and returns 204 or 422
+ * without invoking the route's effect.
+ */
+
+import type { Context as HonoContext, Env } from 'hono'
+import { ValidationError } from './errors.js'
+
+/**
+ * Headers used by the Precognition protocol.
+ */
+export const PRECOGNITION_HEADERS = {
+  PRECOGNITION: 'Precognition',
+  VALIDATE_ONLY: 'Precognition-Validate-Only',
+  SUCCESS: 'Precognition-Success',
+} as const
+
+/**
+ * Whether the request asks for precognitive validation only.
+ */
+export function isPrecognitiveRequest<E extends Env>(c: HonoContext<E>): boolean {
+  return c.req.header(PRECOGNITION_HEADERS.PRECOGNITION) === 'true'
+}
+
+/**
+ * Fields listed in `Precognition-Validate-Only`, or undefined to validate all.
+ */
+export function getPrecognitionValidateOnly<E extends Env>(
+  c: HonoContext<E>
+): string[] | undefined {
+  const header = c.req.header(PRECOGNITION_HEADERS.VALIDATE_ONLY)
+  if (header === undefined) return undefined
+  return header
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Combine validation errors from several sources (params, query, body).
+ * Returns undefined when there are none.
+ */
+export function mergeValidationErrors(
+  errors: readonly ValidationError[]
+): ValidationError | undefined {
+  if (errors.length === 0) return undefined
+  if (errors.length === 1) return errors[0]
+
+  return new ValidationError({
+    errors: Object.assign({}, ...errors.map((error) => error.errors)),
+    fieldDetails: Object.assign({}, ...errors.map((error) => error.fieldDetails ?? {})),
+  })
+}
+
+/**
+ * Keep only errors for the given fields. A field also matches its nested
+ * paths, so `items` keeps `items.0.name`. Returns undefined when nothing is left.
+ */
+export function filterValidationError(
+  error: ValidationError,
+  fields: readonly string[]
+): ValidationError | undefined {
+  const matches = (key: string) =>
+    fields.some((field) => key === field || key.startsWith(`${field}.`))
+
+  const errors = Object.fromEntries(
+    Object.entries(error.errors).filter(([key]) => matches(key))
+  )
+  if (Object.keys(errors).length === 0) return undefined
+
+  return new ValidationError({
+    errors,
+    component: error.component,
+    errorBag: error.errorBag,
+    fieldDetails: error.fieldDetails
+      ? Object.fromEntries(Object.entries(error.fieldDetails).filter(([key]) => matches(key)))
+      : undefined,
+    code: error.code,
+  })
+}
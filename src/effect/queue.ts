@@ -0,0 +1,836 @@
+/**
+ * Queues
+ *
+ * Background jobs defined with `defineJob()`: a Cloudflare Queues producer
+ * and consumer, a local queue that runs jobs in-process for development,
+ * and storage for jobs that failed every attempt.
+ */
+
+import { Cause, Duration, Effect, Either, Exit, Layer, Option, Schema as S } from 'effect'
+import type { MiddlewareHandler } from 'hono'
+import {
+  BindingsService,
+  QueueError,
+  QueueService,
+  type JobDefinition,
+  type QueueClient,
+  type QueueDispatchOptions,
+} from './services.js'
+import { runWithServices, type CloudflareExecutionContext } from './bridge.js'
+import { createLoggerClient, getDefaultLogDriver } from './logger.js'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Retry delay: one duration, a duration per attempt (the last one repeats),
+ * or a function of the failed attempt number.
+ */
+export type JobBackoff =
+  | Duration.DurationInput
+  | ReadonlyArray<Duration.DurationInput>
+  | ((attempt: number) => Duration.DurationInput)
+
+export interface DefineJobOptions {
+  /** Total attempts before the job is stored as failed. Defaults to 3. */
+  tries?: number
+  /** Delay between attempts. Defaults to 10 seconds, doubling each attempt. */
+  backoff?: JobBackoff
+  /** Registry to register the job in. Defaults to the global job registry. */
+  registry?: JobRegistry
+}
+
+/**
+ * A job as it travels through a queue. The payload is schema-encoded.
+ */
+export interface QueuedJob {
+  id: string
+  job: string
+  payload: unknown
+  /** Attempts already made (tracked by the local queue) */
+  attempts: number
+  dispatchedAt: string
+}
+
+/**
+ * A job that failed its last attempt.
+ */
+export interface FailedJob {
+  id: string
+  job: string
+  payload: unknown
+  attempts: number
+  error: string
+  failedAt: string
+}
+
+/**
+ * Storage for failed jobs.
+ */
+export interface FailedJobStore {
+  record: (job: FailedJob) => Effect.Effect<void, QueueError>
+  list: () => Effect.Effect<readonly FailedJob[], QueueError>
+  forget: (id: string) => Effect.Effect<boolean, QueueError>
+  flush: () => Effect.Effect<void, QueueError>
+}
+
+/**
+ * Outcome of one attempt at running a job.
+ */
+export type JobAttemptResult =
+  | { status: 'completed' }
+  | { status: 'retry'; delay: Duration.Duration; error: string }
+  | { status: 'failed'; error: string }
+
+/**
+ * How jobs are run: where handlers are found and which services they get.
+ */
+export interface JobRunnerOptions {
+  /** Registry to find job handlers in. Defaults to the global job registry. */
+  registry?: JobRegistry
+  /**
+   * Middleware that sets up services, such as the one returned by
+   * `setupHonertia()`. Defaults to `effectBridge()`.
+   */
+  middleware?: MiddlewareHandler<any>
+}
+
+/**
+ * JSON-serializable job metadata for CLI output.
+ */
+export interface JobMetadataJson {
+  name: string
+  tries: number
+}
+
+// ============================================================================
+// Job Registry
+// ============================================================================
+
+/**
+ * Registry of jobs by name, used to find handlers when jobs are consumed.
+ */
+export class JobRegistry {
+  private jobs = new Map<string, JobDefinition>()
+
+  /**
+   * Register a job, replacing any with the same name.
+   */
+  register(job: JobDefinition): void {
+    this.jobs.set(job.name, job)
+  }
+
+  /**
+   * Get all registered jobs.
+   */
+  all(): readonly JobDefinition[] {
+    return Array.from(this.jobs.values())
+  }
+
+  /**
+   * Find a job by name.
+   */
+  findByName(name: string): JobDefinition | undefined {
+    return this.jobs.get(name)
+  }
+
+  /**
+   * Get the number of registered jobs.
+   */
+  count(): number {
+    return this.jobs.size
+  }
+
+  /**
+   * Clear all jobs.
+   */
+  clear(): void {
+    this.jobs.clear()
+  }
+
+  /**
+   * Export jobs as JSON-serializable data, sorted by name.
+   */
+  toJson(): JobMetadataJson[] {
+    return this.all()
+      .map(({ name, tries }) => ({ name, tries }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+let globalJobRegistry: JobRegistry | null = null
+
+/**
+ * Get the global job registry.
+ * Creates one if it doesn't exist.
+ */
+export function getGlobalJobRegistry(): JobRegistry {
+  if (!globalJobRegistry) {
+    globalJobRegistry = new JobRegistry()
+  }
+  return globalJobRegistry
+}
+
+/**
+ * Reset the global job registry.
+ * Useful for testing.
+ */
+export function resetGlobalJobRegistry(): void {
+  globalJobRegistry = null
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+function resolveBackoff(backoff?: JobBackoff): (attempt: number) => Duration.Duration {
+  if (backoff === undefined) {
+    return (attempt) => Duration.seconds(10 * 2 ** (attempt - 1))
+  }
+  if (typeof backoff === 'function') {
+    return (attempt) => Duration.decode(backoff(attempt))
+  }
+  if (Array.isArray(backoff)) {
+    const delays = backoff as ReadonlyArray<Duration.DurationInput>
+    return (attempt) => Duration.decode(delays[Math.min(attempt, delays.length) - 1] ?? 0)
+  }
+  const delay = Duration.decode(backoff as Duration.DurationInput)
+  return () => delay
+}
+
+/**
+ * Define a job and register it.
+ *
+ * The handler runs with the same services as routes, so it can use
+ * DatabaseService, CacheService, LoggerService and custom services.
+ *
+ * @example
+ * ```typescript
+ * export const SendWelcomeEmail = defineJob(
+ *   'send-welcome-email',
+ *   S.Struct({ userId: S.String }),
+ *   ({ userId }) => Effect.gen(function* () {
+ *     const db = yield* DatabaseService
+ *     // ...
+ *   }),
+ *   { tries: 5, backoff: ['10 seconds', '1 minute', '10 minutes'] }
+ * )
+ * ```
+ */
+export function defineJob<Name extends string, A, I, R>(
+  name: Name,
+  schema: S.Schema<A, I>,
+  handler: (payload: A) => Effect.Effect<unknown, unknown, R>,
+  options: DefineJobOptions = {}
+): JobDefinition<Name, A, I> {
+  const job: JobDefinition<Name, A, I> = {
+    name,
+    schema,
+    handle: handler,
+    tries: Math.max(1, options.tries ?? 3),
+    backoff: resolveBackoff(options.backoff),
+  }
+  ;(options.registry ?? getGlobalJobRegistry()).register(job)
+  return job
+}
+
+const QueuedJobSchema = S.Struct({
+  id: S.String,
+  job: S.String,
+  payload: S.Unknown,
+  attempts: S.Number,
+  dispatchedAt: S.String,
+})
+
+/**
+ * Encode a payload and wrap it for a queue.
+ */
+export function createQueuedJob<A, I>(
+  job: JobDefinition<string, A, I>,
+  payload: A
+): Effect.Effect<QueuedJob, QueueError> {
+  return S.encode(job.schema)(payload).pipe(
+    Effect.map((encoded) => ({
+      id: crypto.randomUUID(),
+      job: job.name,
+      payload: encoded,
+      attempts: 0,
+      dispatchedAt: new Date().toISOString(),
+    })),
+    Effect.mapError(
+      (cause) =>
+        new QueueError({
+          message: `Invalid payload for job '${job.name}': ${cause.message}`,
+          job: job.name,
+          cause,
+        })
+    )
+  )
+}
+
+/**
+ * Run one attempt of a queued job with the services effectBridge provides.
+ * `attempt` is 1-based; failures retry with the job's backoff until it has
+ * used all of its tries. Payloads that no longer decode fail immediately.
+ */
+export async function attemptJob(
+  queued: QueuedJob,
+  attempt: number,
+  options: JobRunnerOptions & {
+    env?: unknown
+    executionCtx?: CloudflareExecutionContext
+  } = {}
+): Promise<JobAttemptResult> {
+  const job = (options.registry ?? getGlobalJobRegistry()).findByName(queued.job)
+  if (!job) {
+    return { status: 'failed', error: `No job named '${queued.job}' is registered` }
+  }
+
+  const payload = S.decodeUnknownEither(job.schema)(queued.payload)
+  if (Either.isLeft(payload)) {
+    return { status: 'failed', error: `Invalid payload: ${payload.left.message}` }
+  }
+
+  const exit = await runWithServices(job.handle(payload.right), {
+    middleware: options.middleware,
+    env: options.env,
+    executionCtx: options.executionCtx,
+    url: `http://honertia.internal/jobs/${encodeURIComponent(job.name)}`,
+  })
+  if (Exit.isSuccess(exit)) {
+    return { status: 'completed' }
+  }
+
+  const error = Cause.pretty(exit.cause)
+  return attempt < job.tries
+    ? { status: 'retry', delay: job.backoff(attempt), error }
+    : { status: 'failed', error }
+}
+
+function toFailedJob(queued: QueuedJob, attempts: number, error: string): FailedJob {
+  return {
+    id: queued.id,
+    job: queued.job,
+    payload: queued.payload,
+    attempts,
+    error,
+    failedAt: new Date().toISOString(),
+  }
+}
+
+// ============================================================================
+// Failed Job Stores
+// ============================================================================
+
+/**
+ * Keep failed jobs in memory.
+ */
+export function createMemoryFailedJobStore(): FailedJobStore {
+  const jobs = new Map<string, FailedJob>()
+  return {
+    record: (job) => Effect.sync(() => void jobs.set(job.id, job)),
+    list: () => Effect.sync(() => Array.from(jobs.values())),
+    forget: (id) => Effect.sync(() => jobs.delete(id)),
+    flush: () => Effect.sync(() => jobs.clear()),
+  }
+}
+
+/**
+ * Minimal KV namespace interface for failed job storage.
+ */
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>
+  put(key: string, value: string): Promise<void>
+  delete(key: string): Promise<void>
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string }>
+    list_complete: boolean
+    cursor?: string
+  }>
+}
+
+/**
+ * Store failed jobs in Workers KV, one key per job.
+ *
+ * @example
+ * ```typescript
+ * createQueueConsumer({ failed: (env) => createKVFailedJobStore(env.KV) })
+ * ```
+ */
+export function createKVFailedJobStore(
+  kv: KVNamespaceLike,
+  options: { prefix?: string } = {}
+): FailedJobStore {
+  const prefix = options.prefix ?? 'failed-jobs:'
+  const attempt = <A>(message: string, run: () => Promise<A>) =>
+    Effect.tryPromise({ try: run, catch: (cause) => new QueueError({ message, cause }) })
+
+  const keys = async (): Promise<string[]> => {
+    const names: string[] = []
+    let cursor: string | undefined
+    do {
+      const page = await kv.list({ prefix, cursor })
+      names.push(...page.keys.map((key) => key.name))
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+    return names
+  }
+
+  return {
+    record: (job) =>
+      attempt('Failed to record failed job', () => kv.put(`${prefix}${job.id}`, JSON.stringify(job))),
+    list: () =>
+      attempt('Failed to list failed jobs', async () => {
+        const values = await Promise.all((await keys()).map((key) => kv.get(key)))
+        return values
+          .filter((value): value is string => value !== null)
+          .map((value) => JSON.parse(value) as FailedJob)
+          .sort((a, b) => a.failedAt.localeCompare(b.failedAt))
+      }),
+    forget: (id) =>
+      attempt('Failed to forget failed job', async () => {
+        const existing = await kv.get(`${prefix}${id}`)
+        if (existing === null) return false
+        await kv.delete(`${prefix}${id}`)
+        return true
+      }),
+    flush: () =>
+      attempt('Failed to flush failed jobs', async () => {
+        await Promise.all((await keys()).map((key) => kv.delete(key)))
+      }),
+  }
+}
+
+// ============================================================================
+// Cloudflare Queues
+// ============================================================================
+
+/**
+ * Minimal Cloudflare Queue producer binding interface.
+ */
+export interface CloudflareQueueLike {
+  send(body: unknown, options?: { delaySeconds?: number }): Promise<void>
+}
+
+/**
+ * Minimal Cloudflare Queues message interface.
+ */
+export interface QueueMessageLike {
+  readonly id: string
+  readonly body: unknown
+  /** Delivery attempt, starting at 1 */
+  readonly attempts: number
+  ack(): void
+  retry(options?: { delaySeconds?: number }): void
+}
+
+/**
+ * Minimal Cloudflare Queues batch interface.
+ */
+export interface QueueBatchLike {
+  readonly queue: string
+  readonly messages: readonly QueueMessageLike[]
+}
+
+export interface QueueConsumerOptions<Bindings = any> extends JobRunnerOptions {
+  /**
+   * Where jobs are stored after their last attempt fails.
+   * A function receives the worker env, for stores backed by bindings.
+   */
+  failed?: FailedJobStore | ((env: Bindings) => FailedJobStore)
+}
+
+export interface CloudflareQueueLayerOptions {
+  /** Name of the queue producer binding in `c.env` */
+  binding: string
+}
+
+const toDelaySeconds = (delay: Duration.DurationInput): number =>
+  Math.ceil(Duration.toSeconds(Duration.decode(delay)))
+
+/**
+ * Create a QueueClient that sends jobs to a Cloudflare Queue.
+ */
+export function createCloudflareQueueClient(queue: CloudflareQueueLike): QueueClient {
+  return {
+    dispatch: (job, payload, options) =>
+      Effect.flatMap(createQueuedJob(job, payload), (queued) =>
+        Effect.tryPromise({
+          try: () =>
+            queue.send(
+              queued,
+              options?.delay !== undefined ? { delaySeconds: toDelaySeconds(options.delay) } : undefined
+            ),
+          catch: (cause) =>
+            new QueueError({ message: `Failed to dispatch job '${job.name}'`, job: job.name, cause }),
+        })
+      ),
+  }
+}
+
+/**
+ * Create a Cloudflare Queues consumer that runs jobs with the same services
+ * as routes. Failed attempts are retried with the job's backoff; jobs that
+ * fail every attempt (or aren't Honertia jobs) are recorded and acked.
+ * A message that throws (e.g. when recording the failure dies) is logged and
+ * retried on its own, so the rest of the batch is still processed.
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   fetch: app.fetch,
+ *   queue: createQueueConsumer({
+ *     middleware: honertiaMiddleware,
+ *     failed: (env) => createKVFailedJobStore(env.KV),
+ *   }),
+ * }
+ * ```
+ */
+export function createQueueConsumer<Bindings = any>(
+  options: QueueConsumerOptions<Bindings> = {}
+): (batch: QueueBatchLike, env: Bindings, ctx?: CloudflareExecutionContext) => Promise<void> {
+  return async (batch, env, ctx) => {
+    const failed = typeof options.failed === 'function' ? options.failed(env) : options.failed
+
+    const consumeMessage = async (message: QueueMessageLike): Promise<void> => {
+      const queued = S.decodeUnknownOption(QueuedJobSchema)(message.body)
+      const result = Option.isSome(queued)
+        ? await attemptJob(queued.value, message.attempts, { ...options, env, executionCtx: ctx })
+        : ({ status: 'failed', error: 'Message is not a Honertia job' } as const)
+
+      if (result.status === 'retry') {
+        message.retry({ delaySeconds: toDelaySeconds(result.delay) })
+        return
+      }
+
+      if (result.status === 'failed' && failed) {
+        const job = Option.getOrElse(queued, () => ({
+          id: message.id,
+          job: 'unknown',
+          payload: message.body,
+          attempts: 0,
+          dispatchedAt: new Date().toISOString(),
+        }))
+        await Effect.runPromise(
+          Effect.either(failed.record(toFailedJob(job, message.attempts, result.error)))
+        )
+      }
+      message.ack()
+    }
+
+    for (const message of batch.messages) {
+      try {
+        await consumeMessage(message)
+      } catch (error) {
+        Effect.runSync(
+          createLoggerClient(getDefaultLogDriver(), message.id).error('Queue message threw', {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        )
+        message.retry()
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Local Queue
+// ============================================================================
+
+/**
+ * A job waiting in the local queue.
+ */
+export interface LocalQueuedJob extends QueuedJob {
+  /** Epoch milliseconds when the job may run */
+  availableAt: number
+}
+
+interface LocalQueueState {
+  jobs: LocalQueuedJob[]
+  failed: FailedJob[]
+}
+
+export interface LocalQueueOptions extends JobRunnerOptions {
+  /**
+   * Persist jobs and failed jobs to this JSON file so `honertia queue:work`
+   * and `queue:failed` can see them. Jobs are kept in memory when omitted.
+   */
+  path?: string
+  /**
+   * Run jobs in this process as they become available, including retries.
+   * Defaults to true for in-memory queues and false with a `path`.
+   */
+  process?: boolean
+  /** Worker bindings passed to jobs */
+  env?: unknown
+}
+
+/**
+ * Summary of a `work()` run.
+ */
+export interface WorkResult {
+  completed: number
+  retried: number
+  failed: number
+}
+
+export interface WorkOptions {
+  /** Called after each attempt */
+  onAttempt?: (job: LocalQueuedJob, result: JobAttemptResult) => void
+}
+
+export interface LocalQueue {
+  readonly client: QueueClient
+  readonly failed: FailedJobStore
+  /** Run every job that is available now, retries included */
+  work: (options?: WorkOptions) => Promise<WorkResult>
+  /** Jobs waiting to run */
+  pending: () => Promise<readonly LocalQueuedJob[]>
+  /** Move a failed job (or all of them) back onto the queue; returns how many moved */
+  retryFailed: (id?: string) => Promise<number>
+}
+
+interface LocalQueueStore {
+  read: () => Promise<LocalQueueState>
+  write: (state: LocalQueueState) => Promise<void>
+}
+
+function createMemoryQueueStore(): LocalQueueStore {
+  let state: LocalQueueState = { jobs: [], failed: [] }
+  return {
+    read: async () => state,
+    write: async (next) => {
+      state = next
+    },
+  }
+}
+
+function createFileQueueStore(path: string): LocalQueueStore {
+  return {
+    read: async () => {
+      const fs = await import('node:fs/promises')
+      try {
+        return JSON.parse(await fs.readFile(path, 'utf8')) as LocalQueueState
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return { jobs: [], failed: [] }
+        throw error
+      }
+    },
+    write: async (state) => {
+      const fs = await import('node:fs/promises')
+      const { dirname } = await import('node:path')
+      await fs.mkdir(dirname(path), { recursive: true })
+      await fs.writeFile(path, JSON.stringify(state, null, 2))
+    },
+  }
+}
+
+/**
+ * Create a local queue for development. Jobs run in-process with retries
+ * and backoff, or from `honertia queue:work` when persisted to a file.
+ *
+ * @example
+ * ```typescript
+ * const queue = createLocalQueue()
+ * effectRoutes(app).provide(QueueLayer.local(queue))
+ * ```
+ */
+export function createLocalQueue(options: LocalQueueOptions = {}): LocalQueue {
+  const store = options.path ? createFileQueueStore(options.path) : createMemoryQueueStore()
+  const processInline = options.process ?? options.path === undefined
+
+  // Serialize read-modify-write cycles within this process
+  let lock: Promise<unknown> = Promise.resolve()
+  const update = <A>(fn: (state: LocalQueueState) => A): Promise<A> => {
+    const next = lock.then(async () => {
+      const state = await store.read()
+      const result = fn(state)
+      await store.write(state)
+      return result
+    })
+    lock = next.catch(() => {})
+    return next
+  }
+
+  const storeError = (message: string) => (cause: unknown) => new QueueError({ message, cause })
+
+  let working: Promise<WorkResult> | undefined
+  const schedule = (delay: number) => {
+    if (!processInline) return
+    const timer = setTimeout(() => void work().catch(() => {}), Math.max(0, delay))
+    ;(timer as { unref?: () => void }).unref?.()
+  }
+
+  const runAvailable = async (workOptions: WorkOptions): Promise<WorkResult> => {
+    const result: WorkResult = { completed: 0, retried: 0, failed: 0 }
+
+    for (;;) {
+      const now = Date.now()
+      const next = await update((state) => {
+        const index = state.jobs.findIndex((job) => job.availableAt <= now)
+        return index === -1 ? undefined : state.jobs.splice(index, 1)[0]
+      })
+      if (!next) return result
+
+      const attempt = next.attempts + 1
+      const outcome = await attemptJob(next, attempt, options)
+      workOptions.onAttempt?.(next, outcome)
+
+      if (outcome.status === 'completed') {
+        result.completed++
+      } else if (outcome.status === 'retry') {
+        result.retried++
+        const delay = Duration.toMillis(outcome.delay)
+        await update((state) => {
+          state.jobs.push({ ...next, attempts: attempt, availableAt: Date.now() + delay })
+        })
+        if (delay > 0) schedule(delay)
+      } else {
+        result.failed++
+        await update((state) => {
+          state.failed.push(toFailedJob(next, attempt, outcome.error))
+        })
+      }
+    }
+  }
+
+  const work = (workOptions: WorkOptions = {}): Promise<WorkResult> => {
+    // One worker at a time; later calls wait for it and then run
+    const run = (working ?? Promise.resolve()).then(() => runAvailable(workOptions))
+    working = run.catch(() => ({ completed: 0, retried: 0, failed: 0 }))
+    return run
+  }
+
+  const client: QueueClient = {
+    dispatch: (job, payload, dispatchOptions) =>
+      Effect.gen(function* () {
+        const queued = yield* createQueuedJob(job, payload)
+        const delay =
+          dispatchOptions?.delay !== undefined
+            ? Duration.toMillis(Duration.decode(dispatchOptions.delay))
+            : 0
+        yield* Effect.tryPromise({
+          try: () => update((state) => void state.jobs.push({ ...queued, availableAt: Date.now() + delay })),
+          catch: (cause) =>
+            new QueueError({ message: `Failed to dispatch job '${job.name}'`, job: job.name, cause }),
+        })
+        schedule(delay)
+      }),
+  }
+
+  const failed: FailedJobStore = {
+    record: (job) =>
+      Effect.tryPromise({
+        try: () => update((state) => void state.failed.push(job)),
+        catch: storeError('Failed to record failed job'),
+      }),
+    list: () =>
+      Effect.tryPromise({
+        try: () => update((state) => [...state.failed]),
+        catch: storeError('Failed to list failed jobs'),
+      }),
+    forget: (id) =>
+      Effect.tryPromise({
+        try: () =>
+          update((state) => {
+            const index = state.failed.findIndex((job) => job.id === id)
+            if (index === -1) return false
+            state.failed.splice(index, 1)
+            return true
+          }),
+        catch: storeError('Failed to forget failed job'),
+      }),
+    flush: () =>
+      Effect.tryPromise({
+        try: () => update((state) => void state.failed.splice(0)),
+        catch: storeError('Failed to flush failed jobs'),
+      }),
+  }
+
+  return {
+    client,
+    failed,
+    work,
+    pending: () => update((state) => [...state.jobs]),
+    retryFailed: async (id) => {
+      const moved = await update((state) => {
+        const retrying = state.failed.filter((job) => id === undefined || job.id === id)
+        state.failed = state.failed.filter((job) => !retrying.includes(job))
+        const now = Date.now()
+        for (const job of retrying) {
+          state.jobs.push({
+            id: job.id,
+            job: job.job,
+            payload: job.payload,
+            attempts: 0,
+            dispatchedAt: new Date(now).toISOString(),
+            availableAt: now,
+          })
+        }
+        return retrying.length
+      })
+      if (moved > 0) schedule(0)
+      return moved
+    },
+  }
+}
+
+// ============================================================================
+// Layers
+// ============================================================================
+
+/**
+ * Create a QueueClient that fails every dispatch with a configuration error.
+ */
+function createUnconfiguredQueueClient(message: string): QueueClient {
+  return {
+    dispatch: (job) => Effect.fail(new QueueError({ message, job: job.name })),
+  }
+}
+
+/**
+ * Layers providing QueueService.
+ *
+ * @example
+ * ```typescript
+ * // Production: send to the queue bound as JOBS in wrangler.toml
+ * effectRoutes(app).provide(QueueLayer.cloudflare({ binding: 'JOBS' }))
+ *
+ * // Development: run jobs in this process
+ * effectRoutes(app).provide(QueueLayer.local(createLocalQueue()))
+ * ```
+ */
+export const QueueLayer = {
+  cloudflare: (options: CloudflareQueueLayerOptions) =>
+    Layer.effect(
+      QueueService,
+      Effect.map(BindingsService, (bindings) => {
+        const queue = (bindings as Record<string, unknown>)[options.binding] as
+          | CloudflareQueueLike
+          | undefined
+        return queue && typeof queue.send === 'function'
+          ? createCloudflareQueueClient(queue)
+          : createUnconfiguredQueueClient(
+              `QueueLayer.cloudflare requires the queue producer binding '${options.binding}'. ` +
+                `Add it under [[queues.producers]] in wrangler.toml.`
+            )
+      })
+    ),
+  local: (queue: LocalQueue) => Layer.succeed(QueueService, queue.client),
+}
+
+/**
+ * Dispatch a job through QueueService.
+ *
+ * @example
+ * ```typescript
+ * yield* dispatchJob(SendWelcomeEmail, { userId: user.id }, { delay: '5 minutes' })
+ * ```
+ */
+export const dispatchJob = <A, I>(
+  job: JobDefinition<string, A, I>,
+  payload: A,
+  options?: QueueDispatchOptions
+): Effect.Effect<void, QueueError, QueueService> =>
+  Effect.flatMap(QueueService, (queue) => queue.dispatch(job, payload, options))
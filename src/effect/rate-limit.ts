@@ -0,0 +1,288 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window and sliding-window request limits counted in CacheService.
+ * Counters are read and written without a lock, so limits are approximate
+ * under heavy concurrency (and across KV's eventually consistent edges).
+ */
+
+import { Duration, Effect, Layer, Option } from 'effect'
+import type { Env, MiddlewareHandler } from 'hono'
+import {
+  AuthUserService,
+  CacheService,
+  LoggerService,
+  RateLimitService,
+  RequestService,
+  ResponseHeadersService,
+  type AuthUser,
+  type CacheClient,
+  type RateLimitResult,
+  type RequestContext,
+} from './services.js'
+import { HttpError } from './errors.js'
+import { getRequestContext, setResponseHeader } from './bridge.js'
+import { errorToResponse } from './handler.js'
+
+/**
+ * What a rate limit key is derived from.
+ */
+export interface RateLimitSubject {
+  readonly request: RequestContext
+  /** The authenticated user, when there is one */
+  readonly user?: AuthUser
+}
+
+/**
+ * How requests are grouped into counters.
+ * - `'ip'`: the client IP (`CF-Connecting-IP`, then `X-Forwarded-For`)
+ * - `'user'`: the authenticated user's id, falling back to the IP for guests
+ * - `'route'`: the request method and path
+ * - a function returning a custom key
+ */
+export type RateLimitKey = 'ip' | 'user' | 'route' | ((subject: RateLimitSubject) => string)
+
+export type RateLimitAlgorithm = 'fixed' | 'sliding'
+
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  limit: number
+  /** Window length */
+  window: Duration.DurationInput
+  /**
+   * Key to count requests under. Pass several to combine them,
+   * e.g. `['user', 'route']` for a per-user limit on each route.
+   * Defaults to `'ip'`.
+   */
+  key?: RateLimitKey | readonly RateLimitKey[]
+  /**
+   * `'fixed'` counts requests per window. `'sliding'` weights the previous
+   * window's count by how much of it still overlaps, which smooths bursts
+   * at window boundaries. Defaults to `'fixed'`.
+   */
+  algorithm?: RateLimitAlgorithm
+  /** Cache key prefix (default: 'rate-limit') */
+  prefix?: string
+  /** Cache to count in. Defaults to CacheService. */
+  cache?: CacheClient
+}
+
+/**
+ * Options for a `RateLimitLayer`, whose algorithm is chosen by the constructor.
+ */
+export type RateLimitLayerOptions = Omit<RateLimitOptions, 'algorithm'>
+
+// KV requires a TTL of at least 60 seconds
+const MIN_TTL_SECONDS = 60
+
+const clientIp = (request: RequestContext): string =>
+  request.header('cf-connecting-ip') ??
+  request.header('x-forwarded-for')?.split(',')[0]?.trim() ??
+  'unknown'
+
+const userId = (user: AuthUser | undefined): string | undefined =>
+  (user as { user?: { id?: string } } | undefined)?.user?.id
+
+const resolveKeyPart = (key: RateLimitKey, subject: RateLimitSubject): string => {
+  if (typeof key === 'function') return key(subject)
+  switch (key) {
+    case 'ip':
+      return `ip:${clientIp(subject.request)}`
+    case 'user': {
+      const id = userId(subject.user)
+      return id ? `user:${id}` : `ip:${clientIp(subject.request)}`
+    }
+    case 'route':
+      return `route:${subject.request.method} ${new URL(subject.request.url).pathname}`
+  }
+}
+
+/**
+ * Resolve the cache key requests are counted under, without the window suffix.
+ */
+export function resolveRateLimitKey(
+  options: Pick<RateLimitOptions, 'key' | 'prefix'>,
+  subject: RateLimitSubject
+): string {
+  const keys = Array.isArray(options.key) ? options.key : [options.key ?? 'ip']
+  const parts = (keys as RateLimitKey[]).map((key) => resolveKeyPart(key, subject))
+  return [options.prefix ?? 'rate-limit', ...parts].join(':')
+}
+
+const readCount = (cache: CacheClient, key: string) =>
+  Effect.map(cache.get(key), (value) => {
+    const count = value === null ? 0 : Number.parseInt(value, 10)
+    return Number.isFinite(count) ? count : 0
+  })
+
+/**
+ * Count a request and decide whether it is allowed.
+ * Rejected requests are not counted. Cache failures let the request through
+ * and are logged as warnings.
+ */
+export const checkRateLimit = (
+  options: RateLimitOptions
+): Effect.Effect<RateLimitResult, never, RequestService | CacheService | LoggerService> =>
+  Effect.gen(function* () {
+    const request = yield* RequestService
+    const user = Option.getOrUndefined(yield* Effect.serviceOption(AuthUserService))
+    const cache = options.cache ?? (yield* CacheService)
+    const key = resolveRateLimitKey(options, { request, user })
+
+    const { limit } = options
+    const windowMs = Duration.toMillis(options.window)
+    const window = Math.ceil(windowMs / 1000)
+    const now = Date.now()
+    const windowStart = Math.floor(now / windowMs) * windowMs
+    const elapsed = now - windowStart
+    const reset = Math.ceil((windowMs - elapsed) / 1000)
+    const currentKey = `${key}:${windowStart}`
+
+    const count = Effect.gen(function* () {
+      const current = yield* readCount(cache, currentKey)
+
+      if (options.algorithm === 'sliding') {
+        const previous = yield* readCount(cache, `${key}:${windowStart - windowMs}`)
+        const estimate = previous * (1 - elapsed / windowMs) + current
+        if (estimate + 1 > limit) {
+          // Time until the weighted count drops enough to admit one more request
+          const waitMs =
+            current + 1 > limit
+              ? windowMs - elapsed + windowMs * Math.max(0, 1 - (limit - 1) / current)
+              : windowMs * (1 - (limit - 1 - current) / previous) - elapsed
+          return { allowed: false, remaining: 0, retryAfter: Math.max(1, Math.ceil(waitMs / 1000)) }
+        }
+
+        // The counter is read back as the previous window, so keep it for two
+        yield* cache.put(currentKey, String(current + 1), {
+          expirationTtl: Math.max(MIN_TTL_SECONDS, window * 2),
+        })
+        return { allowed: true, remaining: Math.max(0, Math.floor(limit - estimate - 1)) }
+      }
+
+      if (current + 1 > limit) {
+        return { allowed: false, remaining: 0, retryAfter: Math.max(1, reset) }
+      }
+
+      yield* cache.put(currentKey, String(current + 1), {
+        expirationTtl: Math.max(MIN_TTL_SECONDS, window),
+      })
+      return { allowed: true, remaining: limit - current - 1 }
+    })
+
+    const outcome = yield* count.pipe(
+      Effect.catchAll((error) =>
+        Effect.flatMap(LoggerService, (logger) =>
+          logger.warn('Rate limit check failed, allowing request', {
+            key,
+            reason: error.reason,
+          })
+        ).pipe(Effect.as({ allowed: true, remaining: limit }))
+      )
+    )
+
+    return { key, limit, window, reset, ...outcome }
+  })
+
+/**
+ * Headers describing a rate limit result: `RateLimit-Limit`,
+ * `RateLimit-Remaining`, `RateLimit-Reset`, `RateLimit-Policy`, and
+ * `Retry-After` when the request was rejected.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': `${result.limit};w=${result.window}`,
+  }
+  if (result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(result.retryAfter)
+  }
+  return headers
+}
+
+/**
+ * Hono middleware that rejects requests over the limit with a 429
+ * (`HTTP_429_RATE_LIMITED`) before the handler runs.
+ * Use it with `.middleware()` on `effectRoutes`, or on any Hono app
+ * running `effectBridge`.
+ *
+ * @example
+ * ```typescript
+ * effectRoutes(app)
+ *   .middleware(rateLimit({ key: 'ip', limit: 5, window: '1 minute' }))
+ *   .post('/login', login)
+ * ```
+ */
+export function rateLimit<E extends Env>(options: RateLimitOptions): MiddlewareHandler<E> {
+  return async (c, next) => {
+    const result = await Effect.runPromise(
+      checkRateLimit(options).pipe(Effect.provide(getRequestContext(c)))
+    )
+    const headers = rateLimitHeaders(result)
+
+    if (!result.allowed) {
+      for (const [name, value] of Object.entries(headers)) {
+        c.header(name, value)
+      }
+      return errorToResponse(HttpError.rateLimited(result.retryAfter ?? result.reset), c)
+    }
+
+    await next()
+    for (const [name, value] of Object.entries(headers)) {
+      setResponseHeader(c, name, value)
+    }
+  }
+}
+
+const rateLimitLayer = (options: RateLimitOptions) =>
+  Layer.effect(
+    RateLimitService,
+    Effect.gen(function* () {
+      const result = yield* checkRateLimit(options)
+      const headers = yield* ResponseHeadersService
+      for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+        headers.set(name, value)
+      }
+
+      if (!result.allowed) {
+        return yield* Effect.fail(HttpError.rateLimited(result.retryAfter ?? result.reset))
+      }
+      return result
+    })
+  )
+
+/**
+ * Layers that rate limit every route they are provided to, for use with
+ * `.provide()`. Requests over the limit fail with `HttpError.rateLimited`;
+ * allowed requests can read their result from `RateLimitService`.
+ *
+ * @example
+ * ```typescript
+ * effectRoutes(app)
+ *   .provide(RateLimitLayer.sliding({ key: ['user', 'route'], limit: 60, window: '1 minute' }))
+ *   .group((route) => {
+ *     route.post('/api/search', search)
+ *   })
+ * ```
+ */
+export const RateLimitLayer = {
+  /** Count requests per fixed window */
+  fixed: (
+    options: RateLimitLayerOptions
+  ): Layer.Layer<
+    RateLimitService,
+    HttpError,
+    RequestService | CacheService | LoggerService | ResponseHeadersService
+  > => rateLimitLayer({ ...options, algorithm: 'fixed' }),
+
+  /** Weight the previous window's count to smooth bursts at window boundaries */
+  sliding: (
+    options: RateLimitLayerOptions
+  ): Layer.Layer<
+    RateLimitService,
+    HttpError,
+    RequestService | CacheService | LoggerService | ResponseHeadersService
+  > => rateLimitLayer({ ...options, algorithm: 'sliding' }),
+}
@@ -9,8 +9,17 @@ import {
   HonertiaService,
   ResponseFactoryService,
   RequestService,
+  FlashService,
+  HeadService,
+  RouteRegistryService,
+  type PageName,
+  type PageRenderProps,
+  type SharedPropKey,
+  type SharedPropValue,
 } from './services.js'
-import { Redirect, NotFoundError, ForbiddenError, HttpError } from './errors.js'
+import type { PageHead } from '../types.js'
+import { Redirect, NotFoundError, ForbiddenError, HttpError, RouteConfigurationError } from './errors.js'
+import { buildRouteUrl, RouteParamError, type RouteParamValue, type RouteQuery } from '../routes.js'
 
 /**
  * Create a redirect response.
@@ -22,15 +31,91 @@ import { Redirect, NotFoundError, ForbiddenError, HttpError } from './errors.js'
 export const redirect = (url: string, status: 302 | 303 = 303): Effect.Effect<Redirect, never, never> =>
   Effect.succeed(new Redirect({ url, status }))
 
+/**
+ * Force a full browser navigation, e.g. to a payment or OAuth provider.
+ * Inertia requests receive a 409 with `X-Inertia-Location`; other requests
+ * receive a normal redirect.
+ *
+ * @example
+ * return yield* location(session.checkoutUrl)
+ */
+export const location = (url: string): Effect.Effect<Redirect, never, never> =>
+  Effect.succeed(Redirect.location(url))
+
+/**
+ * Build the URL for a named route registered on the current route builder.
+ * Params may be scalars or model objects, which are read by the binding
+ * column (`{project:slug}` reads `project.slug`).
+ *
+ * Fails with `RouteConfigurationError` when the route name is unknown
+ * (`HON_RTE_604_ROUTE_NOT_FOUND`) or a required param is missing
+ * (`HON_RTE_605_ROUTE_PARAM_MISSING`).
+ *
+ * @example
+ * const url = yield* urlFor('projects.show', { project })
+ * const url = yield* urlFor('projects.index', {}, { page: 2 })
+ */
+export const urlFor = (
+  name: string,
+  params: Record<string, RouteParamValue | null | undefined> = {},
+  query?: RouteQuery
+): Effect.Effect<string, RouteConfigurationError, RouteRegistryService> =>
+  Effect.gen(function* () {
+    const registry = yield* RouteRegistryService
+    const route = registry.findByName(name)
+    if (!route) {
+      return yield* Effect.fail(RouteConfigurationError.routeNotFound(name))
+    }
+
+    const definition = {
+      method: route.method,
+      path: route.fullPath,
+      bindings: Object.fromEntries(route.bindings.map((b) => [b.param, b.column])),
+    }
+
+    return yield* Effect.try({
+      try: () => buildRouteUrl(name, definition, params, query),
+      catch: (error) =>
+        error instanceof RouteParamError
+          ? RouteConfigurationError.missingRouteParam(name, error.param)
+          : new RouteConfigurationError({ message: String(error), route: name }),
+    })
+  })
+
+/**
+ * Redirect to a named route. See `urlFor()` for how params are resolved.
+ *
+ * @example
+ * return yield* redirectToRoute('projects.show', { project })
+ */
+export const redirectToRoute = (
+  name: string,
+  params?: Record<string, RouteParamValue | null | undefined>,
+  query?: RouteQuery
+): Effect.Effect<Redirect, RouteConfigurationError, RouteRegistryService> =>
+  Effect.map(urlFor(name, params, query), (url) => new Redirect({ url, status: 303 }))
+
+/**
+ * Props argument for a page: optional unless the page has required props
+ * in `HonertiaPages`.
+ */
+type RenderPropsArgs<K extends string> = object extends PageRenderProps<K>
+  ? [props?: PageRenderProps<K>]
+  : [props: PageRenderProps<K>]
+
 /**
  * Render a Honertia component.
  *
+ * Props wrapped in `defer()` are left out of the initial response and
+ * loaded by the client in a follow-up partial reload.
+ *
  * @example
  * return yield* render('Dashboard/Index', { projects })
+ * return yield* render('Dashboard/Index', { projects, stats: defer(() => loadStats()) })
  */
-export const render = <T extends object>(
-  component: string,
-  props?: T
+export const render = <K extends PageName>(
+  component: K,
+  ...[props]: RenderPropsArgs<K>
 ): Effect.Effect<Response, never, HonertiaService> =>
   Effect.gen(function* () {
     const honertia = yield* HonertiaService
@@ -39,18 +124,20 @@ export const render = <T extends object>(
 
 /**
  * Render a Honertia component with validation errors pre-set.
+ * Pass `bag` to scope the errors under a named error bag.
  *
  * @example
  * return yield* renderWithErrors('Auth/Login', { email: 'Invalid' })
+ * return yield* renderWithErrors('Profile/Edit', { password: 'Too short' }, { user }, 'updatePassword')
  */
-export const renderWithErrors = <T extends object>(
-  component: string,
+export const renderWithErrors = <K extends PageName>(
+  component: K,
   errors: Record<string, string>,
-  props?: T
+  ...[props, bag]: [...RenderPropsArgs<K>, bag?: string]
 ): Effect.Effect<Response, never, HonertiaService> =>
   Effect.gen(function* () {
     const honertia = yield* HonertiaService
-    honertia.setErrors(errors)
+    honertia.setErrors(errors, bag as string | undefined)
     return yield* Effect.promise(() => honertia.render(component, props as Record<string, unknown>))
   })
 
@@ -123,23 +210,82 @@ export const prefersJson: Effect.Effect<boolean, never, RequestService> =
 /**
  * Return JSON if client prefers it, otherwise render Honertia component.
  */
-export const jsonOrRender = <T extends object>(
-  component: string,
-  data: T
+export const jsonOrRender = <K extends PageName>(
+  component: K,
+  data: PageRenderProps<K>
 ): Effect.Effect<Response, never, RequestService | HonertiaService | ResponseFactoryService> =>
   Effect.gen(function* () {
     const wantsJson = yield* prefersJson
     if (wantsJson) {
       return yield* json(data)
     }
-    return yield* render(component, data)
+    return yield* render(component, ...([data] as RenderPropsArgs<K>))
   })
 
 /**
  * Share data with all Honertia responses.
+ * Keys and values are checked against `HonertiaSharedProps` once augmented.
+ *
+ * @example
+ * yield* share('appName', 'Acme')
  */
-export const share = (key: string, value: unknown): Effect.Effect<void, never, HonertiaService> =>
+export const share = <K extends SharedPropKey>(
+  key: K,
+  value: SharedPropValue<K>
+): Effect.Effect<void, never, HonertiaService> =>
   Effect.gen(function* () {
     const honertia = yield* HonertiaService
     honertia.share(key, value)
   })
+
+/**
+ * Flash data for the next request.
+ *
+ * Flashed messages are shared with the next rendered page under the `flash`
+ * prop, so they survive a redirect.
+ *
+ * @example
+ * yield* flash('success', 'Project created.')
+ * yield* flash({ success: 'Saved', highlight: project.id })
+ * return yield* redirect('/projects')
+ */
+export function flash(key: string, value: unknown): Effect.Effect<void, never, FlashService>
+export function flash(messages: Record<string, unknown>): Effect.Effect<void, never, FlashService>
+export function flash(
+  keyOrMessages: string | Record<string, unknown>,
+  value?: unknown
+): Effect.Effect<void, never, FlashService> {
+  return Effect.gen(function* () {
+    const flashService = yield* FlashService
+    if (typeof keyOrMessages === 'string') {
+      flashService.put(keyOrMessages, value)
+      return
+    }
+    for (const [key, message] of Object.entries(keyOrMessages)) {
+      flashService.put(key, message)
+    }
+  })
+}
+
+/**
+ * Set document head entries for the page being rendered.
+ *
+ * The title replaces the template title on full page loads, and all entries
+ * are sent as `head` in Inertia responses so the client can update the head
+ * on navigation. Meta tags are replaced by name/property, so a page can
+ * override defaults set by a layout.
+ *
+ * @example
+ * yield* head({
+ *   title: `${project.name} - Acme`,
+ *   meta: [{ name: 'description', content: project.summary }],
+ *   link: [{ rel: 'canonical', href: `https://acme.test/projects/${project.slug}` }],
+ *   jsonLd: [{ '@context': 'https://schema.org', '@type': 'Product', name: project.name }],
+ * })
+ * return yield* render('Projects/Show', { project })
+ */
+export const head = (entries: PageHead): Effect.Effect<void, never, HeadService> =>
+  Effect.gen(function* () {
+    const client = yield* HeadService
+    client.set(entries)
+  })
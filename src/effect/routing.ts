@@ -4,13 +4,14 @@
  * Laravel-style routing with Effect handlers.
  */
 
-import { Effect, Exit, Layer, Option, Schema as S } from 'effect'
+import { Context, Effect, Either, Exit, Layer, ManagedRuntime, Option, Schema as S } from 'effect'
 import type { Context as HonoContext, Hono, MiddlewareHandler, Env } from 'hono'
-import { effectHandler, errorToResponse } from './handler.js'
+import { errorToResponse, precognitionResponse, runEffect } from './handler.js'
+import { isPrecognitiveRequest, mergeValidationErrors } from './precognition.js'
 import {
-  buildContextLayer,
-  getEffectRuntime,
   getEffectSchema,
+  getRequestContext,
+  hasRequestServices,
   isUnconfiguredService,
   type EffectBridgeConfig,
 } from './bridge.js'
@@ -26,6 +27,13 @@ import {
   RequestService,
   ResponseFactoryService,
   BindingsService,
+  CacheService,
+  FlashService,
+  HeadService,
+  LoggerService,
+  EventBusService,
+  ResponseHeadersService,
+  RouteRegistryService,
 } from './services.js'
 import { ValidatedBodyService, ValidatedQueryService } from './validated-services.js'
 import { createBodyParseValidationError, validateUnknown } from './validation.js'
@@ -65,6 +73,13 @@ export type BaseServices =
   | DatabaseService
   | AuthService
   | BindingsService
+  | CacheService
+  | FlashService
+  | HeadService
+  | LoggerService
+  | EventBusService
+  | ResponseHeadersService
+  | RouteRegistryService
   | BoundModels
   | ValidatedBodyService
   | ValidatedQueryService
@@ -125,6 +140,16 @@ export interface EffectRouteOptions {
    * Defaults to false.
    */
   validateResponse?: boolean
+  /**
+   * Cache-Control header for this route's responses, including 304s.
+   * Responses that already set Cache-Control are left untouched.
+   *
+   * @example
+   * ```typescript
+   * effectRoutes(app).get('/pricing', showPricing, { cacheControl: 'private, max-age=60' })
+   * ```
+   */
+  cacheControl?: string
 }
 
 const BODYLESS_METHODS = new Set(['GET', 'HEAD'])
@@ -145,16 +170,107 @@ async function parseRequestBody<E extends Env>(
   }
 }
 
-async function hydrateRequestDb<E extends Env>(c: HonoContext<E>): Promise<void> {
-  const runtime = getEffectRuntime(c)
-  if (!runtime) return
+/**
+ * Validate data against a route schema, keeping the ValidationError as a value.
+ */
+function validateInput(
+  schema: S.Schema.AnyNoContext,
+  data: unknown,
+  allErrors = false
+): Promise<Either.Either<unknown, ValidationError>> {
+  return Effect.runPromise(Effect.either(validateUnknown(schema, data, { allErrors })))
+}
+
+interface RouteInput {
+  body: Option.Option<unknown>
+  query: Option.Option<unknown>
+  errors: ValidationError[]
+}
+
+/**
+ * Validate the request body and query against the route's schemas.
+ * Stops at the first failure unless `collectAll` is set, in which case
+ * every failing field is reported.
+ */
+async function validateRouteInput<E extends Env>(
+  c: HonoContext<E>,
+  options: EffectRouteOptions | undefined,
+  collectAll: boolean
+): Promise<RouteInput> {
+  const input: RouteInput = { body: Option.none(), query: Option.none(), errors: [] }
+  const bodySchema = options?.body
+  const querySchema = options?.query
+  const shouldValidateBody = bodySchema !== undefined && (options?.validateBody ?? true)
+
+  if (shouldValidateBody && !BODYLESS_METHODS.has(c.req.method.toUpperCase())) {
+    try {
+      const result = await validateInput(
+        bodySchema as S.Schema.AnyNoContext,
+        await parseRequestBody(c),
+        collectAll
+      )
+      if (Either.isRight(result)) input.body = Option.some(result.right)
+      else input.errors.push(result.left)
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error
+      input.errors.push(error)
+    }
+  }
+
+  if (querySchema && (collectAll || input.errors.length === 0)) {
+    const result = await validateInput(
+      querySchema as S.Schema.AnyNoContext,
+      c.req.query(),
+      collectAll
+    )
+    if (Either.isRight(result)) input.query = Option.some(result.right)
+    else input.errors.push(result.left)
+  }
+
+  return input
+}
+
+function applyCacheControl(response: Response, value: string): Response {
+  if (response.headers.has('Cache-Control')) return response
+  try {
+    response.headers.set('Cache-Control', value)
+    return response
+  } catch {
+    // Immutable headers (e.g. a fetched response) - copy into a new response
+    const copy = new Response(response.body, response)
+    copy.headers.set('Cache-Control', value)
+    return copy
+  }
+}
 
-  const maybeDb = await runtime.runPromise(Effect.serviceOption(DatabaseService))
+function hydrateRequestDb<E extends Env>(
+  c: HonoContext<E>,
+  context: Context.Context<never>
+): void {
+  const maybeDb = Context.getOption(context as Context.Context<DatabaseService>, DatabaseService)
   if (Option.isSome(maybeDb) && !isUnconfiguredService(maybeDb.value)) {
     c.set('db' as any, maybeDb.value)
   }
 }
 
+/**
+ * Contexts built from `provideStatic()` layers, once per layer.
+ */
+const staticContexts = new WeakMap<Layer.Layer<any, never, never>, Promise<Context.Context<any>>>()
+
+function buildStaticLayer(layer: Layer.Layer<any, never, never>): Promise<Context.Context<any>> {
+  let context = staticContexts.get(layer)
+  if (!context) {
+    context = ManagedRuntime.make(layer)
+      .runtime()
+      .then((runtime) => runtime.context)
+    // Retry on the next request if the build failed
+    context.catch(() => staticContexts.delete(layer))
+    staticContexts.set(layer, context)
+  }
+  return context
+}
+
 /**
  * Effect Route Builder with layer composition.
  */
@@ -169,7 +285,8 @@ export class EffectRouteBuilder<
     private readonly pathPrefix: string = '',
     private readonly bridgeConfig?: EffectBridgeConfig<E, CustomServices>,
     private readonly registry: RouteRegistry = getGlobalRegistry(),
-    private readonly middlewares: MiddlewareHandler<E>[] = []
+    private readonly middlewares: MiddlewareHandler<E>[] = [],
+    private readonly staticLayers: Layer.Layer<any, never, never>[] = []
   ) {}
 
   /**
@@ -178,6 +295,8 @@ export class EffectRouteBuilder<
    * available in this route context (`BaseServices`, previously provided services,
    * and bridge-level custom services).
    * The layer's error type must be handled by the effect bridge (AppError or subtype).
+   * It is built for every request, so it can read request services such as
+   * `AuthUserService`; use `provideStatic()` for layers that don't.
    */
   provide<
     S,
@@ -192,7 +311,35 @@ export class EffectRouteBuilder<
       this.pathPrefix,
       this.bridgeConfig,
       this.registry,
-      this.middlewares
+      this.middlewares,
+      this.staticLayers
+    )
+  }
+
+  /**
+   * Add a self-contained layer (`R = never`, `E = never`) for all routes in
+   * this builder. It is built once per app, on first use, and shared by every
+   * request, so use it for clients and configuration rather than request data.
+   *
+   * @example
+   * ```typescript
+   * effectRoutes(app)
+   *   .provideStatic(Layer.succeed(Analytics, createAnalytics()))
+   *   .provide(RequireAuthLayer)
+   *   .get('/reports', showReports)
+   * ```
+   */
+  provideStatic<S>(
+    layer: Layer.Layer<S, never, never>
+  ): EffectRouteBuilder<E, ProvidedServices | S, CustomServices> {
+    return new EffectRouteBuilder(
+      this.app,
+      this.layers,
+      this.pathPrefix,
+      this.bridgeConfig,
+      this.registry,
+      this.middlewares,
+      [...this.staticLayers, layer]
     )
   }
 
@@ -220,7 +367,8 @@ export class EffectRouteBuilder<
       this.pathPrefix,
       this.bridgeConfig,
       this.registry,
-      [...this.middlewares, ...handlers]
+      [...this.middlewares, ...handlers],
+      this.staticLayers
     )
   }
 
@@ -235,7 +383,8 @@ export class EffectRouteBuilder<
       this.pathPrefix + normalizedPath,
       this.bridgeConfig,
       this.registry,
-      this.middlewares
+      this.middlewares,
+      this.staticLayers
     )
   }
 
@@ -371,8 +520,13 @@ export class EffectRouteBuilder<
     bindings: ParsedBinding[],
     options?: EffectRouteOptions
   ): MiddlewareHandler<E> {
-    const layers = this.layers
     const bridgeConfig = this.bridgeConfig
+    const registry = this.registry
+    // Compose the provided layers once; each may depend on the ones before it
+    const routeLayer = this.layers.length > 0
+      ? this.layers.reduce((composed, layer) => Layer.provideMerge(layer, composed))
+      : undefined
+    const staticLayers = this.staticLayers
 
     return async (c) => {
       // Get schema from bridgeConfig or from context (set by setupHonertia/effectBridge)
@@ -385,48 +539,66 @@ export class EffectRouteBuilder<
           : undefined
       )
 
-      const validation = await this.ensureParams(c, paramsSchema)
-      if (validation) return validation
-
-      const bodySchema = options?.body
-      const querySchema = options?.query
-      const shouldValidateBody = bodySchema !== undefined && (options?.validateBody ?? true)
+      const requestContext = getRequestContext(c, bridgeConfig)
+      hydrateRequestDb(c, requestContext)
 
-      let validatedBody: unknown
-      let validatedQuery: unknown
-      let hasValidatedBody = false
-      let hasValidatedQuery = false
+      // Route services sit over the static services
+      let routeContext: Context.Context<any> = Context.add(requestContext, RouteRegistryService, registry)
+      if (staticLayers.length > 0) {
+        const built = await Promise.all(staticLayers.map(buildStaticLayer))
+        routeContext = Context.merge(built.reduce((all, next) => Context.merge(all, next)), routeContext)
+      }
 
-      try {
-        if (shouldValidateBody && !BODYLESS_METHODS.has(c.req.method.toUpperCase())) {
-          const body = await parseRequestBody(c)
-          validatedBody = await Effect.runPromise(
-            validateUnknown(bodySchema as S.Schema.AnyNoContext, body)
-          )
-          hasValidatedBody = true
+      // Provided layers are built against the request context (and route-level services)
+      const provideRouteServices = (
+        program: Effect.Effect<Response | Redirect, any, any>
+      ): Effect.Effect<Response | Redirect, any, any> => {
+        if (routeLayer) {
+          program = program.pipe(Effect.provide(routeLayer))
         }
+        // effectBridge has usually built these already when given the same config
+        if (bridgeConfig?.services && !hasRequestServices(c, bridgeConfig.services)) {
+          program = program.pipe(Effect.provide(bridgeConfig.services(c)))
+        }
+        return program
+      }
 
-        if (querySchema) {
-          const query = c.req.query()
-          validatedQuery = await Effect.runPromise(
-            validateUnknown(querySchema as S.Schema.AnyNoContext, query)
+      // Precognitive requests only validate, once the provided layers (auth,
+      // rate limits) have let them through. Bindings are not resolved and the
+      // effect never runs.
+      if (isPrecognitiveRequest(c)) {
+        const precognition = Effect.promise(async () => {
+          const input = await validateRouteInput(c, options, true)
+          const paramErrors = paramsSchema
+            ? await validateInput(paramsSchema as S.Schema.AnyNoContext, c.req.param(), true)
+            : undefined
+          return precognitionResponse(
+            c,
+            mergeValidationErrors(
+              paramErrors && Either.isLeft(paramErrors)
+                ? [paramErrors.left, ...input.errors]
+                : input.errors
+            )
           )
-          hasValidatedQuery = true
-        }
-      } catch (error) {
-        if (error instanceof ValidationError) {
-          return await errorToResponse(error, c)
-        }
-        throw error
+        })
+        return await runEffect(
+          c,
+          provideRouteServices(precognition).pipe(
+            Effect.provide(Context.add(routeContext, BoundModels, new Map()))
+          )
+        )
       }
 
-      await hydrateRequestDb(c)
+      const validation = await this.ensureParams(c, paramsSchema)
+      if (validation) return validation
 
-      // Build context layer from Hono context
-      const contextLayer = buildContextLayer(c, bridgeConfig)
+      const input = await validateRouteInput(c, options, false)
+      if (input.errors.length > 0) {
+        return await errorToResponse(input.errors[0], c)
+      }
 
       // Resolve route model bindings if we have any and schema is configured
-      let boundModelsLayer: Layer.Layer<BoundModels, never, never>
+      let boundModels: ReadonlyMap<string, unknown>
 
       if (bindings.length > 0 && schema) {
         const db = (c as { var?: { db?: unknown } }).var?.db
@@ -439,40 +611,30 @@ export class EffectRouteBuilder<
           return result
         }
 
-        boundModelsLayer = Layer.succeed(BoundModels, result as ReadonlyMap<string, unknown>)
+        boundModels = result
       } else if (bindings.length > 0 && !schema) {
         // Bindings exist but no schema - provide a map that signals this for better errors
         const unconfiguredMap = new Map<string, unknown>()
         unconfiguredMap.set('__schema_not_configured__', true)
-        boundModelsLayer = Layer.succeed(BoundModels, unconfiguredMap as ReadonlyMap<string, unknown>)
+        boundModels = unconfiguredMap
       } else {
         // No bindings - empty bound models
-        boundModelsLayer = Layer.succeed(BoundModels, new Map() as ReadonlyMap<string, unknown>)
+        boundModels = new Map()
       }
 
-      // Combine with provided layers
-      let fullLayer: Layer.Layer<any, never, never> = Layer.merge(contextLayer, boundModelsLayer)
-      if (hasValidatedBody) {
-        fullLayer = Layer.merge(
-          fullLayer,
-          Layer.succeed(ValidatedBodyService, validatedBody as any)
-        )
-      }
-      if (hasValidatedQuery) {
-        fullLayer = Layer.merge(
-          fullLayer,
-          Layer.succeed(ValidatedQueryService, validatedQuery as any)
-        )
+      let context = Context.add(routeContext, BoundModels, boundModels)
+      if (Option.isSome(input.body)) {
+        context = Context.add(context, ValidatedBodyService, input.body.value as any)
       }
-      for (const layer of layers) {
-        fullLayer = Layer.provideMerge(layer, fullLayer)
+      if (Option.isSome(input.query)) {
+        context = Context.add(context, ValidatedQueryService, input.query.value as any)
       }
 
-      // Run the effect with the combined layer
-      const program = effect.pipe(Effect.provide(fullLayer))
-
-      // Use the handler
-      return effectHandler<E, never, AppError>(program as any)(c, async () => {})
+      const program = provideRouteServices(effect)
+      const response = await runEffect(c, program.pipe(Effect.provide(context)))
+      return options?.cacheControl && response
+        ? applyCacheControl(response, options.cacheControl)
+        : response
     }
   }
 
@@ -585,9 +747,10 @@ export class EffectRouteBuilder<
 
 /**
  * Configuration for effectRoutes().
+ * Static `layer` services are configured on effectBridge, once per app.
  */
 export interface EffectRoutesConfig<E extends Env, CustomServices = never>
-  extends EffectBridgeConfig<E, CustomServices> {
+  extends Omit<EffectBridgeConfig<E, CustomServices>, 'layer'> {
   /**
    * Route registry for storing route metadata.
    * Defaults to the global registry.
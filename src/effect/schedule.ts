@@ -0,0 +1,320 @@
+/**
+ * Schedules
+ *
+ * Tasks run by Workers cron triggers, with the same services as routes.
+ */
+
+import { Cause, Duration, Effect, Exit } from 'effect'
+import type { MiddlewareHandler } from 'hono'
+import { CacheService, LoggerService } from './services.js'
+import { runWithServices, type CloudflareExecutionContext, type RequestServices } from './bridge.js'
+
+export interface DefineScheduleOptions {
+  /**
+   * Name shown by `honertia schedule:list` and used by `schedule:run`.
+   * Must be unique. Defaults to the cron expression, numbered (`'0 * * * * #2'`)
+   * for further unnamed tasks on the same cron.
+   */
+  name?: string
+  /**
+   * Skip a run while the previous one still holds its CacheService lock.
+   * `true` holds the lock for at most an hour; pass a duration to change it.
+   */
+  withoutOverlapping?: boolean | Duration.DurationInput
+  /** Registry to register the task in. Defaults to the global schedule registry. */
+  registry?: ScheduleRegistry
+}
+
+/**
+ * A task run on a cron trigger.
+ */
+export interface ScheduleDefinition {
+  readonly name: string
+  readonly cron: string
+  readonly effect: Effect.Effect<unknown, unknown, unknown>
+  /** How long the overlap lock is held at most, or undefined when overlapping is allowed */
+  readonly lockTtl?: Duration.Duration
+}
+
+/**
+ * JSON-serializable schedule metadata for CLI output.
+ */
+export interface ScheduleMetadataJson {
+  name: string
+  cron: string
+  withoutOverlapping: boolean
+}
+
+/**
+ * Outcome of running a scheduled task.
+ */
+export type ScheduleRunResult =
+  | { name: string; status: 'completed' }
+  | { name: string; status: 'skipped' }
+  | { name: string; status: 'failed'; error: string }
+
+export interface RunScheduleOptions {
+  /**
+   * Middleware that sets up services, such as the one returned by
+   * `setupHonertia()`. Defaults to `effectBridge()`.
+   */
+  middleware?: MiddlewareHandler<any>
+  /** Worker bindings passed to the task */
+  env?: unknown
+  /** Worker execution context, for `waitUntil` and `runInBackground` */
+  executionCtx?: CloudflareExecutionContext
+}
+
+/**
+ * Minimal Cloudflare ScheduledController interface.
+ */
+export interface ScheduledControllerLike {
+  readonly cron: string
+  readonly scheduledTime: number
+}
+
+export interface ScheduledHandlerOptions {
+  /**
+   * Middleware that sets up services, such as the one returned by
+   * `setupHonertia()`. Defaults to `effectBridge()`.
+   */
+  middleware?: MiddlewareHandler<any>
+  /** Registry to find tasks in. Defaults to the global schedule registry. */
+  registry?: ScheduleRegistry
+}
+
+// ============================================================================
+// Schedule Registry
+// ============================================================================
+
+/**
+ * Registry of scheduled tasks by name.
+ */
+export class ScheduleRegistry {
+  private schedules = new Map<string, ScheduleDefinition>()
+
+  /**
+   * Register a task.
+   * @throws Error if a task with the same name already exists
+   */
+  register(schedule: ScheduleDefinition): void {
+    const existing = this.schedules.get(schedule.name)
+    if (existing) {
+      throw new Error(
+        `Duplicate schedule name '${schedule.name}'. ` +
+          `Already registered for '${existing.cron}'; pass a unique \`name\``
+      )
+    }
+    this.schedules.set(schedule.name, schedule)
+  }
+
+  /**
+   * Get all registered tasks, in registration order.
+   */
+  all(): readonly ScheduleDefinition[] {
+    return Array.from(this.schedules.values())
+  }
+
+  /**
+   * Find a task by name.
+   */
+  findByName(name: string): ScheduleDefinition | undefined {
+    return this.schedules.get(name)
+  }
+
+  /**
+   * Get the tasks for a cron expression, as passed by the cron trigger.
+   */
+  forCron(cron: string): readonly ScheduleDefinition[] {
+    return this.all().filter((schedule) => schedule.cron === cron)
+  }
+
+  /**
+   * Get the number of registered tasks.
+   */
+  count(): number {
+    return this.schedules.size
+  }
+
+  /**
+   * Clear all tasks.
+   */
+  clear(): void {
+    this.schedules.clear()
+  }
+
+  /**
+   * Export tasks as JSON-serializable data, sorted by name.
+   */
+  toJson(): ScheduleMetadataJson[] {
+    return this.all()
+      .map(({ name, cron, lockTtl }) => ({ name, cron, withoutOverlapping: lockTtl !== undefined }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
+
+let globalScheduleRegistry: ScheduleRegistry | null = null
+
+/**
+ * Get the global schedule registry.
+ * Creates one if it doesn't exist.
+ */
+export function getGlobalScheduleRegistry(): ScheduleRegistry {
+  if (!globalScheduleRegistry) {
+    globalScheduleRegistry = new ScheduleRegistry()
+  }
+  return globalScheduleRegistry
+}
+
+/**
+ * Reset the global schedule registry.
+ * Useful for testing.
+ */
+export function resetGlobalScheduleRegistry(): void {
+  globalScheduleRegistry = null
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+/**
+ * Define a task for a cron trigger and register it. The cron expression
+ * must match one in wrangler.toml `[triggers] crons` exactly.
+ * Tasks may use the services `effectBridge` provides. Pass the custom
+ * services given to `effectBridge` as the type argument.
+ *
+ * @example
+ * ```typescript
+ * defineSchedule('0 * * * *', pruneExpiredSessions, {
+ *   name: 'prune-sessions',
+ *   withoutOverlapping: true,
+ * })
+ * defineSchedule<ReportService>('0 8 * * *', sendDailyReport)
+ * ```
+ */
+export function defineSchedule<CustomServices = never>(
+  cron: string,
+  effect: Effect.Effect<unknown, unknown, RequestServices | NoInfer<CustomServices>>,
+  options: DefineScheduleOptions = {}
+): ScheduleDefinition {
+  const { withoutOverlapping } = options
+  const registry = options.registry ?? getGlobalScheduleRegistry()
+  // Unnamed tasks sharing a cron are numbered in registration order
+  const index = registry.forCron(cron).length
+  const schedule: ScheduleDefinition = {
+    name: options.name ?? (index === 0 ? cron : `${cron} #${index + 1}`),
+    cron,
+    effect,
+    lockTtl:
+      withoutOverlapping === undefined || withoutOverlapping === false
+        ? undefined
+        : withoutOverlapping === true
+          ? Duration.hours(1)
+          : Duration.decode(withoutOverlapping),
+  }
+  registry.register(schedule)
+  return schedule
+}
+
+/**
+ * Cache key holding a task's overlap lock.
+ */
+export const scheduleLockKey = (name: string): string => `schedule-lock:${name}`
+
+/**
+ * Run the task, holding its overlap lock if it has one. KV is eventually
+ * consistent, so the lock prevents overlapping runs rather than guaranteeing
+ * exclusion.
+ */
+function withLock(
+  schedule: ScheduleDefinition
+): Effect.Effect<'completed' | 'skipped', unknown, any> {
+  const { lockTtl } = schedule
+  if (lockTtl === undefined) {
+    return Effect.as(schedule.effect, 'completed' as const)
+  }
+
+  return Effect.gen(function* () {
+    const cache = yield* CacheService
+    const key = scheduleLockKey(schedule.name)
+    if ((yield* cache.get(key)) !== null) {
+      return 'skipped' as const
+    }
+
+    // KV requires a TTL of at least 60 seconds
+    const expirationTtl = Math.max(60, Math.ceil(Duration.toSeconds(lockTtl)))
+    yield* cache.put(key, new Date().toISOString(), { expirationTtl })
+
+    return yield* schedule.effect.pipe(
+      Effect.as('completed' as const),
+      Effect.ensuring(Effect.ignore(cache.delete(key)))
+    )
+  })
+}
+
+/**
+ * Run a scheduled task with the services effectBridge provides.
+ * Failures are logged through LoggerService.
+ */
+export async function runSchedule(
+  schedule: ScheduleDefinition,
+  options: RunScheduleOptions = {}
+): Promise<ScheduleRunResult> {
+  const task = withLock(schedule).pipe(
+    Effect.tapErrorCause((cause) =>
+      Effect.flatMap(LoggerService, (logger) =>
+        logger.error('Scheduled task failed', {
+          schedule: schedule.name,
+          cron: schedule.cron,
+          error: Cause.pretty(cause),
+        })
+      )
+    )
+  )
+  const exit = await runWithServices(task, {
+    middleware: options.middleware,
+    env: options.env,
+    executionCtx: options.executionCtx,
+    url: `http://honertia.internal/schedules/${encodeURIComponent(schedule.name)}`,
+  })
+
+  return Exit.isSuccess(exit)
+    ? { name: schedule.name, status: exit.value }
+    : { name: schedule.name, status: 'failed', error: Cause.pretty(exit.cause) }
+}
+
+/**
+ * Create a Workers `scheduled` handler that runs the tasks registered for
+ * the trigger's cron expression, in parallel. If any fail, the handler
+ * throws so the invocation is reported as failed.
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   fetch: app.fetch,
+ *   scheduled: scheduled({ middleware: honertiaMiddleware }),
+ * }
+ * ```
+ */
+export function scheduled(
+  options: ScheduledHandlerOptions = {}
+): (controller: ScheduledControllerLike, env: unknown, ctx?: CloudflareExecutionContext) => Promise<void> {
+  return async (controller, env, ctx) => {
+    const schedules = (options.registry ?? getGlobalScheduleRegistry()).forCron(controller.cron)
+    const results = await Promise.all(
+      schedules.map((schedule) =>
+        runSchedule(schedule, { middleware: options.middleware, env, executionCtx: ctx })
+      )
+    )
+
+    const failed = results.filter(
+      (result): result is Extract<ScheduleRunResult, { status: 'failed' }> => result.status === 'failed'
+    )
+    if (failed.length > 0) {
+      throw new Error(
+        `Scheduled task${failed.length === 1 ? '' : 's'} failed: ${failed.map((result) => result.name).join(', ')}`
+      )
+    }
+  }
+}
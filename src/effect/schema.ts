@@ -663,6 +663,113 @@ export const min = (length: number, message?: string) =>
 export const max = (length: number, message?: string) =>
   S.String.pipe(S.maxLength(length, { message: () => message ?? `Must be at most ${length} characters` }))
 
+// =============================================================================
+// Laravel-style File Rules
+// =============================================================================
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+}
+
+/**
+ * Image types accepted by `image()`. SVG is excluded because it can carry scripts.
+ */
+const IMAGE_TYPES = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'avif']
+
+const isFile = (value: unknown): value is File =>
+  typeof File !== 'undefined' && value instanceof File
+
+const formatBytes = (bytes: number): string => {
+  const units = ['bytes', 'KB', 'MB', 'GB']
+  let size = bytes
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`
+}
+
+/**
+ * Whether a file matches an extension ('pdf') or MIME type ('image/png', 'image/*').
+ */
+const matchesType = (value: File, type: string): boolean => {
+  const expected = type.toLowerCase()
+  const actual = value.type.toLowerCase()
+  if (expected.includes('/')) {
+    return expected.endsWith('/*')
+      ? actual.startsWith(expected.slice(0, -1))
+      : actual === expected
+  }
+  return (
+    value.name.toLowerCase().endsWith(`.${expected}`) ||
+    (actual !== '' && actual === MIME_TYPES_BY_EXTENSION[expected])
+  )
+}
+
+/**
+ * An uploaded file from a multipart form. An empty file input
+ * (no name, zero bytes) fails as required.
+ */
+export const file = (message?: string) =>
+  S.declare(
+    (value: unknown): value is File => isFile(value) && !(value.name === '' && value.size === 0),
+    {
+      identifier: 'File',
+      jsonSchema: { type: 'string', format: 'binary' },
+      message: (issue) =>
+        message ?? (isFile(issue.actual) ? 'This field is required' : 'Must be a file'),
+    }
+  )
+
+/**
+ * Validates a file's extension or MIME type. Pipe onto `file()`.
+ *
+ * @example
+ * file().pipe(mimes(['pdf', 'image/*']))
+ */
+export const mimes = (types: readonly string[], message?: string) =>
+  <I, R>(self: S.Schema<File, I, R>) =>
+    self.pipe(
+      S.filter((value) => types.some((type) => matchesType(value, type)), {
+        message: () => message ?? `Must be a file of type: ${types.join(', ')}`,
+      })
+    )
+
+/**
+ * Validates a file is no larger than the given number of bytes. Pipe onto `file()`.
+ *
+ * @example
+ * image().pipe(maxFileSize(2 * 1024 * 1024))
+ */
+export const maxFileSize = (bytes: number, message?: string) =>
+  <I, R>(self: S.Schema<File, I, R>) =>
+    self.pipe(
+      S.filter((value) => value.size <= bytes, {
+        message: () => message ?? `Must not be larger than ${formatBytes(bytes)}`,
+      })
+    )
+
+/**
+ * An uploaded image (jpg, png, gif, bmp, webp or avif).
+ */
+export const image = (message?: string) =>
+  file(message ?? 'Must be an image').pipe(mimes(IMAGE_TYPES, message ?? 'Must be an image'))
+
 // =============================================================================
 // Laravel-style Date Rules
 // =============================================================================
@@ -4,8 +4,11 @@
  * Service tags for dependency injection via Effect.
  */
 
-import { Context, Effect, Option } from 'effect'
+import { Context, Data, Duration, Effect, Option, type Schema as S } from 'effect'
 import { UnauthorizedError, ForbiddenError } from './errors.js'
+import type { PageHead } from '../types.js'
+import type { DeferProp, MergeProp, OptionalProp, AlwaysProp } from '../props.js'
+import type { RouteRegistry } from './route-registry.js'
 
 /**
  * Augmentable interface for database type.
@@ -225,11 +228,62 @@ const AuthUserService_base: Context.TagClass<
 
 export class AuthUserService extends AuthUserService_base {}
 
+/**
+ * An email address, optionally with a display name.
+ */
+export type EmailAddress = string | { readonly name?: string; readonly address: string }
+
+/**
+ * A file attached to an email. String content is sent as UTF-8 text.
+ */
+export interface EmailAttachment {
+  readonly filename: string
+  readonly content: string | Uint8Array | ArrayBuffer
+  /** Defaults to `application/octet-stream` */
+  readonly contentType?: string
+  /** Content-ID for inline images referenced as `cid:` in the HTML */
+  readonly contentId?: string
+}
+
+/**
+ * A structured email message with HTML and/or text bodies.
+ */
+export interface EmailMessage {
+  /** Defaults to the client's `from` address */
+  readonly from?: EmailAddress
+  readonly to: readonly EmailAddress[]
+  readonly cc?: readonly EmailAddress[]
+  readonly bcc?: readonly EmailAddress[]
+  readonly replyTo?: readonly EmailAddress[]
+  readonly subject: string
+  readonly html?: string
+  readonly text?: string
+  readonly attachments?: readonly EmailAttachment[]
+  readonly headers?: Readonly<Record<string, string>>
+  /** Name of the mailable the message was rendered from */
+  readonly mailable?: string
+}
+
+/**
+ * Error from rendering or sending an email.
+ */
+export class EmailError extends Data.TaggedError('EmailError')<{
+  readonly message: string
+  readonly transport?: string
+  readonly cause?: unknown
+}> {}
+
 /**
  * Email Service - Outbound email delivery
  */
 export interface EmailClient {
+  /** Send a plain-text email */
   send: (to: string, subject: string, body: string) => Effect.Effect<void, Error>
+  /**
+   * Send a structured message, such as one rendered from a mailable.
+   * Without it, `sendMail()` falls back to one plain-text `send` per recipient.
+   */
+  sendMessage?: (message: EmailMessage) => Effect.Effect<void, EmailError>
 }
 
 export class EmailService extends Context.Tag('honertia/Email')<
@@ -237,6 +291,87 @@ export class EmailService extends Context.Tag('honertia/Email')<
   EmailClient
 >() {}
 
+/**
+ * Augmentable interface mapping page component names to the props the
+ * server sends them. Generate it with `honertia generate:pages`, or
+ * declare it by hand:
+ *
+ * @example
+ * ```typescript
+ * declare module 'honertia/effect' {
+ *   interface HonertiaPages {
+ *     'Projects/Show': { project: Project; canEdit: boolean }
+ *   }
+ * }
+ * ```
+ *
+ * Once augmented, `render()`, `renderWithErrors()` and `jsonOrRender()`
+ * only accept registered component names and check their props.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface HonertiaPages {}
+
+/** Registered page component names, or any string when HonertiaPages is not configured. */
+export type PageName = keyof HonertiaPages extends never
+  ? string
+  : Extract<keyof HonertiaPages, string>
+
+/** A prop value, optionally wrapped in `defer()`, `merge()`, `optional()` or `always()`. */
+type PropValue<T> = T | DeferProp<T> | MergeProp<T> | OptionalProp<T> | AlwaysProp<T>
+
+/**
+ * Props accepted when rendering a page. Each prop may also be wrapped in
+ * `defer()`, `merge()`, `optional()` or `always()`.
+ */
+export type PageRenderProps<K extends string> = K extends keyof HonertiaPages
+  ? { [P in keyof HonertiaPages[K]]: PropValue<HonertiaPages[K][P]> }
+  : object
+
+/**
+ * Augmentable interface for props shared with every page via `share()`.
+ *
+ * @example
+ * ```typescript
+ * declare module 'honertia/effect' {
+ *   interface HonertiaSharedProps {
+ *     appName: string
+ *     team: { id: string; name: string } | null
+ *   }
+ * }
+ * ```
+ *
+ * Once augmented, `share()` only accepts declared keys (plus the built-in
+ * `auth` and `flash`) and checks their values. `WithSharedProps` from
+ * `honertia/react` includes every shared prop.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface HonertiaSharedProps {}
+
+/**
+ * Props shared by Honertia itself: `auth` from `shareAuthMiddleware()`
+ * and `flash` from the flash middleware.
+ */
+export interface BuiltinSharedProps {
+  auth?: { user: (AuthUser extends { user: infer U } ? U : never) | null }
+  flash?: Record<string, unknown>
+}
+
+/** All shared props: built-in props plus the augmented HonertiaSharedProps. */
+export type SharedPropsType = Omit<BuiltinSharedProps, keyof HonertiaSharedProps> & HonertiaSharedProps
+
+/** Shared prop keys, or any string when HonertiaSharedProps is not configured. */
+export type SharedPropKey = keyof HonertiaSharedProps extends never
+  ? string
+  : Extract<keyof SharedPropsType, string>
+
+/**
+ * Value accepted by `share()` for a key: the prop type, a prop wrapper or a
+ * lazy callback. Undeclared keys accept any value.
+ */
+export type SharedPropValue<K extends string> = K extends keyof SharedPropsType
+  ? PropValue<SharedPropsType[K]> | (() => SharedPropsType[K] | Promise<SharedPropsType[K]>)
+  : unknown
+
 /**
  * Honertia Renderer - Inertia-style page rendering
  */
@@ -245,8 +380,8 @@ export interface HonertiaRenderer {
     component: string,
     props?: T
   ): Promise<Response>
-  share(key: string, value: unknown): void
-  setErrors(errors: Record<string, string>): void
+  share<K extends SharedPropKey>(key: K, value: SharedPropValue<K>): void
+  setErrors(errors: Record<string, string>, bag?: string): void
 }
 
 export class HonertiaService extends Context.Tag('honertia/Honertia')<
@@ -254,6 +389,78 @@ export class HonertiaService extends Context.Tag('honertia/Honertia')<
   HonertiaRenderer
 >() {}
 
+/**
+ * Flash Client - Data that survives one redirect
+ */
+export interface FlashClient {
+  /** Flash a message for the next request. */
+  put(key: string, value: unknown): void
+  /** Flash validation errors for the next request, optionally scoped to an error bag. */
+  putErrors(errors: Record<string, string>, bag?: string): void
+  /** Data flashed by the previous request. */
+  current(): {
+    errors?: Record<string, string>
+    errorBags?: Record<string, Record<string, string>>
+    messages?: Record<string, unknown>
+  }
+}
+
+/**
+ * Flash Service - Session-backed flash messages and errors
+ *
+ * Automatically provided by the Effect bridge. Backed by the flash
+ * middleware configured in setupHonertia.
+ *
+ * @example
+ * ```typescript
+ * const flash = yield* FlashService
+ * flash.put('success', 'Project created.')
+ * return yield* redirect('/projects')
+ * ```
+ */
+export class FlashService extends Context.Tag('honertia/Flash')<
+  FlashService,
+  FlashClient
+>() {}
+
+/**
+ * Head Client - Document head entries for the current page
+ */
+export interface HeadClient {
+  /** Add head entries. Later titles win; meta and links are replaced by key. */
+  set(head: PageHead): void
+  /** Head entries collected so far. */
+  get(): PageHead
+}
+
+/**
+ * Head Service - Title, meta, link and JSON-LD entries for the page
+ *
+ * Automatically provided by the Effect bridge. Entries are rendered into
+ * the template on full page loads and sent as `head` in Inertia responses.
+ *
+ * @example
+ * ```typescript
+ * const head = yield* HeadService
+ * head.set({ title: project.name })
+ * ```
+ */
+export class HeadService extends Context.Tag('honertia/Head')<
+  HeadService,
+  HeadClient
+>() {}
+
+/**
+ * Route Registry Service - Named routes for the current route builder
+ *
+ * Provided by `effectRoutes()` so `urlFor()` and `redirectToRoute()` resolve
+ * names against the registry the route was registered in.
+ */
+export class RouteRegistryService extends Context.Tag('honertia/RouteRegistry')<
+  RouteRegistryService,
+  RouteRegistry
+>() {}
+
 /**
  * Request Context - HTTP request data and environment bindings
  */
@@ -299,6 +506,21 @@ export class ResponseFactoryService extends Context.Tag('honertia/ResponseFactor
   ResponseFactory
 >() {}
 
+/**
+ * Response Headers Service - Headers added to this request's response by
+ * `effectBridge`. Headers the response already has are kept.
+ *
+ * @example
+ * ```typescript
+ * const headers = yield* ResponseHeadersService
+ * headers.set('Server-Timing', `db;dur=${elapsed}`)
+ * ```
+ */
+export class ResponseHeadersService extends Context.Tag('honertia/ResponseHeaders')<
+  ResponseHeadersService,
+  Headers
+>() {}
+
 /**
  * Cache Service - KV-backed caching for expensive operations
  *
@@ -339,6 +561,309 @@ export class CacheService extends Context.Tag('honertia/Cache')<
   CacheClient
 >() {}
 
+// ============================================================================
+// Storage Service
+// ============================================================================
+
+/**
+ * Content accepted by `StorageClient.put`. Files and blobs default the
+ * object's content type to their own `type`.
+ */
+export type StorageBody = ReadableStream | ArrayBuffer | ArrayBufferView | Blob | string
+
+export interface StoragePutOptions {
+  contentType?: string
+  metadata?: Record<string, string>
+}
+
+export interface StorageListOptions {
+  prefix?: string
+  cursor?: string
+  limit?: number
+}
+
+export interface StorageSignedUrlOptions {
+  /** How long the URL stays valid */
+  expiresIn: Duration.DurationInput
+  /** HTTP method the URL is signed for (default: 'GET') */
+  method?: 'GET' | 'PUT'
+}
+
+/**
+ * Metadata for a stored object.
+ */
+export interface StorageObjectInfo {
+  key: string
+  size: number
+  contentType?: string
+  metadata: Record<string, string>
+  uploadedAt: Date
+}
+
+/**
+ * A stored object with its content.
+ */
+export interface StorageObject extends StorageObjectInfo {
+  readonly body: ReadableStream
+  arrayBuffer(): Promise<ArrayBuffer>
+  text(): Promise<string>
+}
+
+export interface StorageListResult {
+  objects: StorageObjectInfo[]
+  truncated: boolean
+  cursor?: string
+}
+
+/**
+ * Error from storage operations.
+ */
+export class StorageError extends Data.TaggedError('StorageError')<{
+  readonly message: string
+  readonly key?: string
+  readonly cause?: unknown
+}> {}
+
+/**
+ * Storage Service - Object storage for uploads and generated files
+ *
+ * Not provided by default. Add a driver with `.provide()`:
+ * `StorageLayer.r2({ binding: 'UPLOADS' })` in production,
+ * `StorageLayer.local({ root: '.storage' })` in development, or
+ * `TestLayer.Storage.inMemory()` in tests.
+ *
+ * @example
+ * ```typescript
+ * const storage = yield* StorageService
+ * yield* storage.put(`avatars/${user.id}`, input.avatar)
+ * const url = yield* storage.signedUrl(`avatars/${user.id}`, { expiresIn: '10 minutes' })
+ * ```
+ */
+export interface StorageClient {
+  put(key: string, body: StorageBody, options?: StoragePutOptions): Effect.Effect<StorageObjectInfo, StorageError>
+  get(key: string): Effect.Effect<StorageObject | null, StorageError>
+  delete(key: string): Effect.Effect<void, StorageError>
+  list(options?: StorageListOptions): Effect.Effect<StorageListResult, StorageError>
+  signedUrl(key: string, options: StorageSignedUrlOptions): Effect.Effect<string, StorageError>
+}
+
+export class StorageService extends Context.Tag('honertia/Storage')<
+  StorageService,
+  StorageClient
+>() {}
+
+// ============================================================================
+// Rate Limit Service
+// ============================================================================
+
+/**
+ * Outcome of a rate limit check.
+ */
+export interface RateLimitResult {
+  /** Cache key the request was counted under */
+  readonly key: string
+  readonly allowed: boolean
+  readonly limit: number
+  readonly remaining: number
+  /** Window length in seconds */
+  readonly window: number
+  /** Seconds until the current window resets */
+  readonly reset: number
+  /** Seconds to wait before retrying, when not allowed */
+  readonly retryAfter?: number
+}
+
+/**
+ * Rate Limit Service - The rate limit check for this request.
+ * Provided by `RateLimitLayer`.
+ */
+export class RateLimitService extends Context.Tag('honertia/RateLimit')<
+  RateLimitService,
+  RateLimitResult
+>() {}
+
+// ============================================================================
+// Queue Service
+// ============================================================================
+
+/**
+ * A named background job with a schema-typed payload.
+ * Create with `defineJob()`.
+ */
+export interface JobDefinition<Name extends string = string, A = any, I = any> {
+  readonly name: Name
+  readonly schema: S.Schema<A, I>
+  readonly handle: (payload: A) => Effect.Effect<unknown, unknown, any>
+  /** Total attempts before the job is stored as failed */
+  readonly tries: number
+  /** Delay before retrying after a failed attempt (1-based) */
+  readonly backoff: (attempt: number) => Duration.Duration
+}
+
+/**
+ * Options for dispatching a job.
+ */
+export interface QueueDispatchOptions {
+  /** Wait this long before the job becomes available */
+  delay?: Duration.DurationInput
+}
+
+/**
+ * Error from dispatching a job or reading failed jobs.
+ */
+export class QueueError extends Data.TaggedError('QueueError')<{
+  readonly message: string
+  readonly job?: string
+  readonly cause?: unknown
+}> {}
+
+/**
+ * Client interface for dispatching jobs.
+ */
+export interface QueueClient {
+  dispatch: <A, I>(
+    job: JobDefinition<string, A, I>,
+    payload: A,
+    options?: QueueDispatchOptions
+  ) => Effect.Effect<void, QueueError>
+}
+
+/**
+ * Queue Service - Dispatch jobs to run outside the request.
+ *
+ * Not provided by default. Use `QueueLayer.cloudflare()` in production
+ * or `QueueLayer.local()` for development.
+ *
+ * @example
+ * ```typescript
+ * const queue = yield* QueueService
+ * yield* queue.dispatch(SendWelcomeEmail, { userId: user.id })
+ * ```
+ */
+export class QueueService extends Context.Tag('honertia/Queue')<
+  QueueService,
+  QueueClient
+>() {}
+
+// ============================================================================
+// Event Bus Service
+// ============================================================================
+
+/**
+ * A named event whose payload is described by an Effect Schema.
+ * Create with `defineEvent()`.
+ */
+export interface EventDefinition<Name extends string = string, A = any, I = any> {
+  readonly name: Name
+  readonly schema: S.Schema<A, I>
+}
+
+/**
+ * Payload type of an event definition.
+ */
+export type EventPayload<Event> = Event extends EventDefinition<string, infer A, any> ? A : never
+
+/**
+ * Error from dispatching an event: an invalid payload or a failing sync listener.
+ */
+export class EventError extends Data.TaggedError('EventError')<{
+  readonly message: string
+  readonly event: string
+  readonly listener?: string
+  readonly cause?: unknown
+}> {}
+
+/**
+ * Client interface for dispatching events.
+ */
+export interface EventBusClient {
+  /**
+   * Validate the payload, run sync listeners in order, and schedule
+   * deferred listeners to run after the response.
+   */
+  dispatch: <A, I>(
+    event: EventDefinition<string, A, I>,
+    payload: A
+  ) => Effect.Effect<void, EventError>
+}
+
+/**
+ * Event Bus Service - Dispatch events to their registered listeners.
+ *
+ * Automatically provided by the Effect bridge.
+ *
+ * @example
+ * ```typescript
+ * const events = yield* EventBusService
+ * yield* events.dispatch(OrderPlaced, { orderId: order.id })
+ * ```
+ */
+export class EventBusService extends Context.Tag('honertia/EventBus')<
+  EventBusService,
+  EventBusClient
+>() {}
+
+// ============================================================================
+// Logger Service
+// ============================================================================
+
+/**
+ * Log levels, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * A structured log entry, as handed to a log driver.
+ */
+export interface LogEntry {
+  level: LogLevel
+  message: string
+  /** ISO 8601 timestamp */
+  timestamp: string
+  /** Correlation ID of the request that produced the entry */
+  requestId: string
+  /** Structured fields bound with `with()` or passed to the log call */
+  context: Record<string, unknown>
+}
+
+/**
+ * Where log entries are written (console, capture buffer, log drain, ...).
+ */
+export interface LogDriver {
+  write: (entry: LogEntry) => void
+}
+
+/**
+ * Client interface for structured, request-scoped logging.
+ */
+export interface LoggerClient {
+  /** Request ID from `cf-ray` or `X-Request-Id`, or generated */
+  readonly requestId: string
+  debug: (message: string, context?: Record<string, unknown>) => Effect.Effect<void>
+  info: (message: string, context?: Record<string, unknown>) => Effect.Effect<void>
+  warn: (message: string, context?: Record<string, unknown>) => Effect.Effect<void>
+  error: (message: string, context?: Record<string, unknown>) => Effect.Effect<void>
+  /** Create a logger that adds these fields to every entry */
+  with: (context: Record<string, unknown>) => LoggerClient
+}
+
+/**
+ * Logger Service - Structured logging tagged with the request ID.
+ *
+ * Automatically provided by the Effect bridge. Entries go to the JSON
+ * console driver unless `logger` is configured.
+ *
+ * @example
+ * ```typescript
+ * const logger = yield* LoggerService
+ * yield* logger.info('Project created', { projectId: project.id })
+ * ```
+ */
+export class LoggerService extends Context.Tag('honertia/Logger')<
+  LoggerService,
+  LoggerClient
+>() {}
+
 // ============================================================================
 // Execution Context Service
 // ============================================================================
@@ -0,0 +1,613 @@
+/**
+ * Storage Drivers
+ *
+ * Implementations of StorageService: Cloudflare R2 for production, the
+ * local filesystem for development, and an in-memory store for tests.
+ */
+
+import { Duration, Effect, Layer } from 'effect'
+import {
+  BindingsService,
+  StorageError,
+  StorageService,
+  type StorageBody,
+  type StorageClient,
+  type StorageListOptions,
+  type StorageListResult,
+  type StorageObject,
+  type StorageObjectInfo,
+  type StoragePutOptions,
+} from './services.js'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface R2Object {
+  key: string
+  size: number
+  uploaded: Date
+  httpMetadata?: { contentType?: string }
+  customMetadata?: Record<string, string>
+}
+
+interface R2ObjectBody extends R2Object {
+  body: ReadableStream
+  arrayBuffer(): Promise<ArrayBuffer>
+  text(): Promise<string>
+}
+
+/**
+ * Cloudflare R2 bucket binding (subset of the full API).
+ */
+export interface R2BucketLike {
+  put(
+    key: string,
+    value: ReadableStream | ArrayBuffer | ArrayBufferView | Blob | string,
+    options?: { httpMetadata?: { contentType?: string }; customMetadata?: Record<string, string> }
+  ): Promise<R2Object | null>
+  get(key: string): Promise<R2ObjectBody | null>
+  delete(key: string): Promise<void>
+  list(options?: {
+    prefix?: string
+    cursor?: string
+    limit?: number
+    include?: Array<'httpMetadata' | 'customMetadata'>
+  }): Promise<{ objects: R2Object[]; truncated: boolean; cursor?: string }>
+}
+
+/**
+ * S3 API credentials for an R2 bucket. Bindings cannot sign URLs, so
+ * `signedUrl` requires these.
+ */
+export interface R2S3Credentials {
+  accountId: string
+  accessKeyId: string
+  secretAccessKey: string
+  /** Bucket name (not the binding name) */
+  bucketName: string
+}
+
+export interface R2StorageOptions {
+  s3?: R2S3Credentials
+}
+
+export interface R2StorageLayerOptions extends R2StorageOptions {
+  /** Name of the R2 binding in `c.env` */
+  binding: string
+}
+
+export interface LocalStorageOptions {
+  /** Directory objects are written to */
+  root: string
+  /** URL prefix for signed URLs (default: '/storage') */
+  baseUrl?: string
+  /** Secret used to sign URLs */
+  secret?: string
+}
+
+export interface PresignS3UrlOptions {
+  /** Object URL, e.g. `https://<account>.r2.cloudflarestorage.com/<bucket>/<key>` */
+  url: string
+  accessKeyId: string
+  secretAccessKey: string
+  /** Expiry in seconds */
+  expiresIn: number
+  /** Signing region (default: 'auto', as used by R2) */
+  region?: string
+  method?: 'GET' | 'PUT'
+  now?: Date
+}
+
+// ============================================================================
+// Internal
+// ============================================================================
+
+const DEFAULT_LIST_LIMIT = 1000
+const META_DIR = '.meta'
+
+const encoder = new TextEncoder()
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+const hmac = async (key: BufferSource, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data))
+}
+
+// Compares every character so the time taken doesn't reveal a matching prefix
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/** RFC 3986 encoding, as required by SigV4. */
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/')
+
+const toSeconds = (duration: Duration.DurationInput): number =>
+  Math.max(1, Math.round(Duration.toSeconds(Duration.decode(duration))))
+
+const toBytes = async (body: StorageBody): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(body as BodyInit).arrayBuffer())
+
+const contentTypeOf = (body: StorageBody, options?: StoragePutOptions): string | undefined =>
+  options?.contentType ?? (body instanceof Blob && body.type ? body.type : undefined)
+
+const storageObject = (info: StorageObjectInfo, bytes: Uint8Array): StorageObject => {
+  const blob = new Blob([bytes as BlobPart], info.contentType ? { type: info.contentType } : {})
+  return {
+    ...info,
+    get body() {
+      return blob.stream()
+    },
+    arrayBuffer: () => blob.arrayBuffer(),
+    text: () => blob.text(),
+  }
+}
+
+/**
+ * Keys map to file paths in the local driver, so reject traversal.
+ */
+const assertKey = (key: string): Effect.Effect<void, StorageError> =>
+  key === '' ||
+  key.startsWith('/') ||
+  key.startsWith(`${META_DIR}/`) ||
+  key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')
+    ? Effect.fail(new StorageError({ message: `Invalid storage key '${key}'`, key }))
+    : Effect.void
+
+/**
+ * Page through sorted keys the way R2 does: the cursor is the last key returned.
+ */
+const paginate = (
+  keys: string[],
+  options: StorageListOptions = {}
+): { keys: string[]; truncated: boolean; cursor?: string } => {
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT
+  const matching = keys
+    .filter((key) => !options.prefix || key.startsWith(options.prefix))
+    .filter((key) => !options.cursor || key > options.cursor)
+    .sort()
+  const page = matching.slice(0, limit)
+  const truncated = matching.length > limit
+  return { keys: page, truncated, cursor: truncated ? page[page.length - 1] : undefined }
+}
+
+const localSignature = (
+  secret: string,
+  method: string,
+  key: string,
+  expires: number
+): Promise<string> => hmac(encoder.encode(secret), `${method}:${key}:${expires}`).then(toHex)
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Presign an S3-compatible object URL (AWS Signature Version 4, query auth).
+ */
+export async function presignS3Url(options: PresignS3UrlOptions): Promise<string> {
+  const url = new URL(options.url)
+  const method = options.method ?? 'GET'
+  const region = options.region ?? 'auto'
+  const amzDate = (options.now ?? new Date()).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const date = amzDate.slice(0, 8)
+  const scope = `${date}/${region}/s3/aws4_request`
+
+  const query = [
+    ['X-Amz-Algorithm', 'AWS4-HMAC-SHA256'],
+    ['X-Amz-Credential', `${options.accessKeyId}/${scope}`],
+    ['X-Amz-Date', amzDate],
+    ['X-Amz-Expires', String(options.expiresIn)],
+    ['X-Amz-SignedHeaders', 'host'],
+  ]
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .join('&')
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    query,
+    `host:${url.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n')
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    toHex(await crypto.subtle.digest('SHA-256', encoder.encode(canonicalRequest))),
+  ].join('\n')
+
+  let signingKey = await hmac(encoder.encode(`AWS4${options.secretAccessKey}`), date)
+  for (const part of [region, 's3', 'aws4_request']) {
+    signingKey = await hmac(signingKey, part)
+  }
+  const signature = toHex(await hmac(signingKey, stringToSign))
+
+  return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`
+}
+
+/**
+ * Verify a URL signed by the local storage driver.
+ * Returns the object key, or null when the signature is invalid or expired.
+ *
+ * @example
+ * ```typescript
+ * app.get('/storage/*', async (c) => {
+ *   const key = await verifyLocalSignedUrl(c.req.url, { secret: c.env.APP_KEY })
+ *   if (!key) return c.notFound()
+ *   // serve the file
+ * })
+ * ```
+ */
+export async function verifyLocalSignedUrl(
+  url: string,
+  options: { secret: string; baseUrl?: string; method?: 'GET' | 'PUT'; now?: Date }
+): Promise<string | null> {
+  const parsed = new URL(url, 'http://localhost')
+  const basePath = new URL(options.baseUrl ?? '/storage', 'http://localhost').pathname.replace(/\/$/, '')
+  if (!parsed.pathname.startsWith(`${basePath}/`)) return null
+
+  let key: string
+  try {
+    key = parsed.pathname.slice(basePath.length + 1).split('/').map(decodeURIComponent).join('/')
+  } catch {
+    // Malformed percent-encoding
+    return null
+  }
+  const expires = Number(parsed.searchParams.get('expires'))
+  const signature = parsed.searchParams.get('signature')
+  if (!signature || !Number.isFinite(expires)) return null
+  if (expires * 1000 < (options.now ?? new Date()).getTime()) return null
+
+  const expected = await localSignature(options.secret, options.method ?? 'GET', key, expires)
+  return timingSafeEqual(expected, signature) ? key : null
+}
+
+// ============================================================================
+// Drivers
+// ============================================================================
+
+/**
+ * Create a StorageClient backed by a Cloudflare R2 binding.
+ */
+export function createR2StorageClient(
+  bucket: R2BucketLike,
+  options: R2StorageOptions = {}
+): StorageClient {
+  const toInfo = (object: R2Object): StorageObjectInfo => ({
+    key: object.key,
+    size: object.size,
+    contentType: object.httpMetadata?.contentType,
+    metadata: object.customMetadata ?? {},
+    uploadedAt: object.uploaded,
+  })
+
+  return {
+    put: (key, body, putOptions) =>
+      Effect.tryPromise({
+        try: async () => {
+          const contentType = contentTypeOf(body, putOptions)
+          const object = await bucket.put(key, body, {
+            httpMetadata: contentType ? { contentType } : undefined,
+            customMetadata: putOptions?.metadata,
+          })
+          if (!object) throw new Error('R2 did not store the object')
+          return toInfo(object)
+        },
+        catch: (cause) => new StorageError({ message: `Failed to put '${key}'`, key, cause }),
+      }),
+    get: (key) =>
+      Effect.tryPromise({
+        try: async () => {
+          const object = await bucket.get(key)
+          if (!object) return null
+          return {
+            ...toInfo(object),
+            body: object.body,
+            arrayBuffer: () => object.arrayBuffer(),
+            text: () => object.text(),
+          }
+        },
+        catch: (cause) => new StorageError({ message: `Failed to get '${key}'`, key, cause }),
+      }),
+    delete: (key) =>
+      Effect.tryPromise({
+        try: () => bucket.delete(key),
+        catch: (cause) => new StorageError({ message: `Failed to delete '${key}'`, key, cause }),
+      }),
+    list: (listOptions = {}) =>
+      Effect.tryPromise({
+        try: async (): Promise<StorageListResult> => {
+          const result = await bucket.list({
+            ...listOptions,
+            include: ['httpMetadata', 'customMetadata'],
+          })
+          return {
+            objects: result.objects.map(toInfo),
+            truncated: result.truncated,
+            cursor: result.truncated ? result.cursor : undefined,
+          }
+        },
+        catch: (cause) => new StorageError({ message: 'Failed to list objects', cause }),
+      }),
+    signedUrl: (key, signOptions) => {
+      const s3 = options.s3
+      if (!s3) {
+        return Effect.fail(new StorageError({
+          message: 'R2 signed URLs require S3 credentials. Pass `s3: { accountId, accessKeyId, secretAccessKey, bucketName }`.',
+          key,
+        }))
+      }
+      return Effect.tryPromise({
+        try: () =>
+          presignS3Url({
+            url: `https://${s3.accountId}.r2.cloudflarestorage.com/${encodeRfc3986(s3.bucketName)}/${encodeKey(key)}`,
+            accessKeyId: s3.accessKeyId,
+            secretAccessKey: s3.secretAccessKey,
+            expiresIn: toSeconds(signOptions.expiresIn),
+            method: signOptions.method,
+          }),
+        catch: (cause) => new StorageError({ message: `Failed to sign '${key}'`, key, cause }),
+      })
+    },
+  }
+}
+
+/**
+ * Create a StorageClient that writes to a local directory.
+ * Content type and metadata are kept in `<root>/.meta`. Intended for
+ * development and tests; requires a Node-compatible runtime.
+ */
+export function createLocalStorageClient(options: LocalStorageOptions): StorageClient {
+  const baseUrl = (options.baseUrl ?? '/storage').replace(/\/$/, '')
+
+  const run = <A>(message: string, key: string | undefined, fn: () => Promise<A>) =>
+    Effect.tryPromise({
+      try: fn,
+      catch: (cause) => new StorageError({ message, key, cause }),
+    })
+
+  const paths = async (key: string) => {
+    const { join } = await import('node:path')
+    return {
+      file: join(options.root, key),
+      meta: join(options.root, META_DIR, `${key}.json`),
+    }
+  }
+
+  const readInfo = async (key: string): Promise<StorageObjectInfo | null> => {
+    const fs = await import('node:fs/promises')
+    const { file, meta } = await paths(key)
+    const stat = await fs.stat(file).catch(() => null)
+    if (!stat?.isFile()) return null
+    const stored = await fs
+      .readFile(meta, 'utf-8')
+      .then((content) => JSON.parse(content) as { contentType?: string; metadata?: Record<string, string> })
+      .catch(() => ({ contentType: undefined, metadata: undefined }))
+    return {
+      key,
+      size: stat.size,
+      contentType: stored.contentType,
+      metadata: stored.metadata ?? {},
+      uploadedAt: stat.mtime,
+    }
+  }
+
+  const walk = async (dir: string, prefix = ''): Promise<string[]> => {
+    const fs = await import('node:fs/promises')
+    const { join } = await import('node:path')
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+    const keys: string[] = []
+    for (const entry of entries) {
+      if (!prefix && entry.name === META_DIR) continue
+      const key = `${prefix}${entry.name}`
+      if (entry.isDirectory()) keys.push(...(await walk(join(dir, entry.name), `${key}/`)))
+      else if (entry.isFile()) keys.push(key)
+    }
+    return keys
+  }
+
+  return {
+    put: (key, body, putOptions) =>
+      assertKey(key).pipe(
+        Effect.zipRight(
+          run(`Failed to put '${key}'`, key, async () => {
+            const fs = await import('node:fs/promises')
+            const { dirname } = await import('node:path')
+            const { file, meta } = await paths(key)
+            const bytes = await toBytes(body)
+            const contentType = contentTypeOf(body, putOptions)
+            await fs.mkdir(dirname(file), { recursive: true })
+            await fs.mkdir(dirname(meta), { recursive: true })
+            await fs.writeFile(file, bytes)
+            await fs.writeFile(meta, JSON.stringify({ contentType, metadata: putOptions?.metadata ?? {} }))
+            return (await readInfo(key))!
+          })
+        )
+      ),
+    get: (key) =>
+      assertKey(key).pipe(
+        Effect.zipRight(
+          run(`Failed to get '${key}'`, key, async () => {
+            const info = await readInfo(key)
+            if (!info) return null
+            const fs = await import('node:fs/promises')
+            const bytes = await fs.readFile((await paths(key)).file)
+            return storageObject(info, new Uint8Array(bytes))
+          })
+        )
+      ),
+    delete: (key) =>
+      assertKey(key).pipe(
+        Effect.zipRight(
+          run(`Failed to delete '${key}'`, key, async () => {
+            const fs = await import('node:fs/promises')
+            const { file, meta } = await paths(key)
+            await fs.rm(file, { force: true })
+            await fs.rm(meta, { force: true })
+          })
+        )
+      ),
+    list: (listOptions) =>
+      run('Failed to list objects', undefined, async () => {
+        const page = paginate(await walk(options.root), listOptions)
+        const objects = await Promise.all(page.keys.map(readInfo))
+        return {
+          objects: objects.filter((object): object is StorageObjectInfo => object !== null),
+          truncated: page.truncated,
+          cursor: page.cursor,
+        }
+      }),
+    signedUrl: (key, signOptions) => {
+      const secret = options.secret
+      if (!secret) {
+        return Effect.fail(new StorageError({
+          message: 'Local signed URLs require a `secret` in the local storage options.',
+          key,
+        }))
+      }
+      return assertKey(key).pipe(
+        Effect.zipRight(
+          run(`Failed to sign '${key}'`, key, async () => {
+            const method = signOptions.method ?? 'GET'
+            const expires = Math.floor(Date.now() / 1000) + toSeconds(signOptions.expiresIn)
+            const signature = await localSignature(secret, method, key, expires)
+            return `${baseUrl}/${encodeKey(key)}?expires=${expires}&signature=${signature}`
+          })
+        )
+      )
+    },
+  }
+}
+
+/**
+ * Create a StorageClient that keeps objects in memory.
+ * Signed URLs use the `memory://` scheme and are not verifiable.
+ */
+export function createMemoryStorageClient(
+  initial: Record<string, StorageBody> = {}
+): StorageClient {
+  const objects = new Map<string, { info: StorageObjectInfo; bytes: Uint8Array }>()
+
+  const store = async (key: string, body: StorageBody, options?: StoragePutOptions) => {
+    const bytes = await toBytes(body)
+    const info: StorageObjectInfo = {
+      key,
+      size: bytes.byteLength,
+      contentType: contentTypeOf(body, options),
+      metadata: options?.metadata ?? {},
+      uploadedAt: new Date(),
+    }
+    objects.set(key, { info, bytes })
+    return info
+  }
+
+  const seeded = Promise.all(Object.entries(initial).map(([key, body]) => store(key, body)))
+
+  return {
+    put: (key, body, options) =>
+      assertKey(key).pipe(
+        Effect.zipRight(
+          Effect.promise(async () => {
+            await seeded
+            return store(key, body, options)
+          })
+        )
+      ),
+    get: (key) =>
+      Effect.promise(async () => {
+        await seeded
+        const object = objects.get(key)
+        return object ? storageObject(object.info, object.bytes) : null
+      }),
+    delete: (key) =>
+      Effect.promise(async () => {
+        await seeded
+        objects.delete(key)
+      }),
+    list: (options) =>
+      Effect.promise(async () => {
+        await seeded
+        const page = paginate(Array.from(objects.keys()), options)
+        return {
+          objects: page.keys.map((key) => objects.get(key)!.info),
+          truncated: page.truncated,
+          cursor: page.cursor,
+        }
+      }),
+    signedUrl: (key, options) =>
+      Effect.sync(() => {
+        const expires = Math.floor(Date.now() / 1000) + toSeconds(options.expiresIn)
+        return `memory://${encodeKey(key)}?method=${options.method ?? 'GET'}&expires=${expires}`
+      }),
+  }
+}
+
+/**
+ * Create a StorageClient that fails with a helpful error when the R2 binding is missing.
+ */
+function createUnconfiguredStorageClient(binding: string): StorageClient {
+  const error = new StorageError({
+    message: `StorageService requires the R2 binding '${binding}'. Add it to [[r2_buckets]] in wrangler.toml.`,
+  })
+  return {
+    put: () => Effect.fail(error),
+    get: () => Effect.fail(error),
+    delete: () => Effect.fail(error),
+    list: () => Effect.fail(error),
+    signedUrl: () => Effect.fail(error),
+  }
+}
+
+// ============================================================================
+// Layers
+// ============================================================================
+
+/**
+ * StorageService layers for each driver.
+ *
+ * @example
+ * ```typescript
+ * effectRoutes(app)
+ *   .provide(StorageLayer.r2({ binding: 'UPLOADS' }))
+ *   .post('/avatar', uploadAvatar)
+ * ```
+ */
+export const StorageLayer = {
+  /** R2 bucket from `c.env[binding]` */
+  r2: (options: R2StorageLayerOptions) =>
+    Layer.effect(
+      StorageService,
+      Effect.map(BindingsService, (env) => {
+        const bucket = (env as Record<string, unknown>)[options.binding] as R2BucketLike | undefined
+        return bucket
+          ? createR2StorageClient(bucket, options)
+          : createUnconfiguredStorageClient(options.binding)
+      })
+    ),
+  /** Local directory, for development */
+  local: (options: LocalStorageOptions) =>
+    Layer.succeed(StorageService, createLocalStorageClient(options)),
+}
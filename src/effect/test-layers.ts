@@ -4,19 +4,41 @@
  * Reusable Layer helpers for tests.
  */
 
-import { Context, Effect, Layer } from 'effect'
+import { Context, type Duration, Effect, Layer, Option } from 'effect'
 import {
   AuthUserService,
+  CacheService,
   DatabaseService,
   EmailService,
+  EventBusService,
+  LoggerService,
+  QueueService,
+  StorageService,
   type AuthUser,
   type DatabaseType,
+  type EmailMessage,
+  type StorageBody,
 } from './services.js'
+import { createMemoryStorageClient } from './storage.js'
+import { createMemoryCacheClient } from '../cache.js'
+import { createLoggerClient } from './logger.js'
+import { validateEventPayload } from './events.js'
+import { createQueuedJob } from './queue.js'
+import { validateEmailMessage } from './mail.js'
 
 export interface TestCaptures {
+  /** Plain `EmailService.send()` calls */
   emails: Array<{ to: string; subject: string; body: string }>
-  logs: Array<{ level: string; message: string }>
+  /** Structured messages, e.g. from `sendMail()` */
+  emailMessages: EmailMessage[]
+  logs: Array<{
+    level: string
+    message: string
+    requestId?: string
+    context?: Record<string, unknown>
+  }>
   events: Array<{ name: string; payload: unknown }>
+  jobs: Array<{ name: string; payload: unknown; delay?: Duration.DurationInput }>
 }
 
 export class TestCaptureService extends Context.Tag('honertia/TestCapture')<
@@ -32,8 +54,10 @@ export class TestCaptureService extends Context.Tag('honertia/TestCapture')<
 
 const createEmptyCaptures = (): TestCaptures => ({
   emails: [],
+  emailMessages: [],
   logs: [],
   events: [],
+  jobs: [],
 })
 
 const createId = (): string => {
@@ -157,6 +181,11 @@ export const TestLayer = {
   },
 
   Email: {
+    /**
+     * Capture sent mail without delivering it. Plain `send()` calls are
+     * captured as given in `TestCaptures.emails`; structured messages are
+     * validated and captured in `TestCaptures.emailMessages`.
+     */
     captured: () =>
       Layer.effect(
         EmailService,
@@ -165,11 +194,86 @@ export const TestLayer = {
           return {
             send: (to: string, subject: string, body: string) =>
               capture.capture('emails', { to, subject, body }),
+            sendMessage: (message: EmailMessage) =>
+              Effect.flatMap(validateEmailMessage(message), (valid) => capture.capture('emailMessages', valid)),
           }
         })
       ),
   },
 
+  Events: {
+    /** Validate and capture dispatched events into `TestCaptures.events` without running listeners */
+    captured: () =>
+      Layer.effect(
+        EventBusService,
+        Effect.gen(function* () {
+          const capture = yield* TestCaptureService
+          return {
+            dispatch: (event, payload) =>
+              Effect.flatMap(validateEventPayload(event, payload), (validated) =>
+                capture.capture('events', { name: event.name, payload: validated })
+              ),
+          }
+        })
+      ),
+  },
+
+  Queue: {
+    /** Validate and capture dispatched jobs into `TestCaptures.jobs` without running them */
+    captured: () =>
+      Layer.effect(
+        QueueService,
+        Effect.gen(function* () {
+          const capture = yield* TestCaptureService
+          return {
+            dispatch: (job, payload, options) =>
+              Effect.flatMap(createQueuedJob(job, payload), () =>
+                capture.capture('jobs', {
+                  name: job.name,
+                  payload,
+                  ...(options?.delay !== undefined ? { delay: options.delay } : {}),
+                })
+              ),
+          }
+        })
+      ),
+  },
+
+  Logger: {
+    /** Capture log entries into `TestCaptures.logs`, keeping the request ID */
+    captured: () =>
+      Layer.effect(
+        LoggerService,
+        Effect.gen(function* () {
+          const capture = yield* TestCaptureService
+          const current = yield* Effect.serviceOption(LoggerService)
+          const requestId = Option.match(current, {
+            onNone: () => 'test-request',
+            onSome: (logger) => logger.requestId,
+          })
+          return createLoggerClient(
+            {
+              write: ({ level, message, requestId, context }) =>
+                Effect.runSync(capture.capture('logs', { level, message, requestId, context })),
+            },
+            requestId
+          )
+        })
+      ),
+  },
+
+  Cache: {
+    /** Map-backed cache that honours `expirationTtl`, optionally seeded by key */
+    inMemory: (initial?: Record<string, string>) =>
+      Layer.succeed(CacheService, createMemoryCacheClient(initial)),
+  },
+
+  Storage: {
+    /** Map-backed storage, optionally seeded with objects by key */
+    inMemory: (initial?: Record<string, StorageBody>) =>
+      Layer.succeed(StorageService, createMemoryStorageClient(initial)),
+  },
+
   Capture: {
     make: () =>
       Layer.effect(
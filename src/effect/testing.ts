@@ -85,6 +85,11 @@ export interface TestExpectation {
    * Expected response headers (partial match).
    */
   headers?: Record<string, string | RegExp>
+  /**
+   * Expected redirect target. Matches `X-Inertia-Location` on 409
+   * responses (external redirects) and `Location` otherwise.
+   */
+  location?: string | RegExp
   /**
    * Expected JSON body (deep equality).
    */
@@ -93,6 +98,10 @@ export interface TestExpectation {
    * Expected validation errors.
    */
   errors?: Record<string, string | string[]>
+  /**
+   * Error bag the expected `errors` are scoped under.
+   */
+  errorBag?: string
   /**
    * Expected Inertia props (partial match).
    */
@@ -143,10 +152,36 @@ export interface TestCaseOptions extends TestRequestOptions {
   assert?: (ctx: TestContext) => void | Promise<void>
 }
 
+/**
+ * Options for a precognitive test case.
+ */
+export interface PrecognitiveTestCaseOptions extends TestCaseOptions {
+  /**
+   * Fields sent in `Precognition-Validate-Only`.
+   */
+  validateOnly?: string[]
+}
+
 /**
  * Test function signature.
  */
-export type TestFn = (name: string, options: TestCaseOptions) => void
+export interface TestFn {
+  (name: string, options: TestCaseOptions): void
+  /**
+   * Send the request with `Precognition: true` and assert a precognitive
+   * response. Expects 422 when `expect.errors` is given, otherwise 204.
+   *
+   * @example
+   * ```typescript
+   * test.precognitive('validates name as the user types', {
+   *   body: { name: '' },
+   *   validateOnly: ['name'],
+   *   expect: { errors: { name: 'required' } },
+   * })
+   * ```
+   */
+  precognitive(name: string, options: PrecognitiveTestCaseOptions): void
+}
 
 /**
  * Configuration for test app creation.
@@ -187,8 +222,10 @@ function defaultUserFactory(type: TestUserType): TestUser {
 
 const createEmptyCaptures = (): TestCaptures => ({
   emails: [],
+  emailMessages: [],
   logs: [],
   events: [],
+  jobs: [],
 })
 
 /**
@@ -227,7 +264,8 @@ function createTestFn<E extends Env>(
   testLayer?: Layer.Layer<any, never, never>
 ): TestFn {
   const { test, expect: expectBun } = getBunTestSync()
-  return (name: string, options: TestCaseOptions) => {
+
+  const run = (name: string, options: TestCaseOptions) => {
     test(name, async () => {
       // Setup database if configured
       let db: unknown
@@ -322,16 +360,33 @@ function createTestFn<E extends Env>(
             }
           }
 
+          if (exp.location !== undefined) {
+            const actual = response.status === 409
+              ? response.headers.get('X-Inertia-Location')
+              : response.headers.get('Location')
+            if (exp.location instanceof RegExp) {
+              expectBun(actual).toMatch(exp.location)
+            } else {
+              expectBun(actual).toBe(exp.location)
+            }
+          }
+
           if (exp.body !== undefined) {
             expectBun(json).toEqual(exp.body)
           }
 
           if (exp.errors) {
-            // Check for validation errors in response
-            const errorBody = json as { errors?: Record<string, unknown> } | undefined
-            expectBun(errorBody?.errors).toBeDefined()
+            // Check for validation errors in response (or Inertia page props)
+            const errorBody = json as
+              | { errors?: Record<string, unknown>; props?: { errors?: Record<string, unknown> } }
+              | undefined
+            const allErrors = errorBody?.errors ?? errorBody?.props?.errors
+            const errors = exp.errorBag
+              ? (allErrors?.[exp.errorBag] as Record<string, unknown> | undefined)
+              : allErrors
+            expectBun(errors).toBeDefined()
             for (const [field, expectedError] of Object.entries(exp.errors)) {
-              const fieldErrors = errorBody?.errors?.[field]
+              const fieldErrors = errors?.[field]
               if (Array.isArray(expectedError)) {
                 expectBun(fieldErrors).toEqual(expectedError)
               } else {
@@ -371,6 +426,31 @@ function createTestFn<E extends Env>(
       }
     })
   }
+
+  const precognitive = (name: string, options: PrecognitiveTestCaseOptions) => {
+    const { validateOnly, ...rest } = options
+    const expectErrors = rest.expect?.errors !== undefined
+
+    run(name, {
+      ...rest,
+      headers: {
+        ...rest.headers,
+        Precognition: 'true',
+        ...(validateOnly ? { 'Precognition-Validate-Only': validateOnly.join(',') } : {}),
+      },
+      expect: {
+        ...rest.expect,
+        status: rest.expect?.status ?? (expectErrors ? 422 : 204),
+        headers: {
+          Precognition: 'true',
+          ...(expectErrors ? {} : { 'Precognition-Success': 'true' }),
+          ...rest.expect?.headers,
+        },
+      },
+    })
+  }
+
+  return Object.assign(run, { precognitive })
 }
 
 /**
@@ -405,6 +405,20 @@ export interface ValidateOptions {
    */
   errorComponent?: string
 
+  /**
+   * Error bag to scope the errors under when validation fails.
+   * Defaults to the bag named by the `X-Inertia-Error-Bag` request header.
+   *
+   * @example
+   * 'updatePassword'
+   */
+  errorBag?: string
+
+  /**
+   * Report every failing field instead of stopping at the first.
+   */
+  allErrors?: boolean
+
   /**
    * Request extraction behavior for validateRequest.
    * Pass a profile string ('legacy' | 'laravel') or an object
@@ -465,7 +479,7 @@ function runValidation<A, I>(
   data: unknown,
   options: ValidateOptions
 ): Effect.Effect<Validated<A>, ValidationError, never> {
-  return S.decodeUnknown(schema)(data).pipe(
+  return S.decodeUnknown(schema, options.allErrors ? { errors: 'all' } : undefined)(data).pipe(
     Effect.mapError((error) => {
       const { errors, details } = formatSchemaErrorsWithDetails(
         error,
@@ -478,6 +492,7 @@ function runValidation<A, I>(
         errors,
         fieldDetails: details,
         component: options.errorComponent,
+        errorBag: options.errorBag,
         code: determineValidationCode(details),
       })
     }),
@@ -0,0 +1,280 @@
+/**
+ * Honertia Flash Data
+ *
+ * Session-backed data that survives exactly one redirect: validation errors
+ * and arbitrary flash messages written during one request are merged into
+ * the props of the next page that is rendered.
+ */
+
+import type { Context, MiddlewareHandler, Env } from 'hono'
+import { Effect } from 'effect'
+import { getCookie, getSignedCookie, setCookie, setSignedCookie, deleteCookie } from 'hono/cookie'
+import { always } from './props.js'
+import { createLoggerClient, getDefaultLogDriver, getRequestId } from './effect/logger.js'
+
+/**
+ * Data carried across a redirect.
+ */
+export interface FlashData {
+  errors?: Record<string, string>
+  errorBags?: Record<string, Record<string, string>>
+  messages?: Record<string, unknown>
+}
+
+/**
+ * Storage backend for flash data.
+ */
+export interface FlashDriver {
+  read(c: Context): Promise<FlashData | undefined>
+  write(c: Context, data: FlashData): Promise<void>
+  clear(c: Context): Promise<void>
+}
+
+/**
+ * Per-request flash bag, available as `c.var.flash`.
+ */
+export interface FlashInstance {
+  /** Flash a message for the next request. */
+  put(key: string, value: unknown): void
+  /** Flash validation errors for the next request, optionally scoped to an error bag. */
+  putErrors(errors: Record<string, string>, bag?: string): void
+  /** Data flashed by the previous request. */
+  current(): FlashData
+  /** Data flashed during this request, written when the response is sent. */
+  pending(): FlashData
+}
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    flash: FlashInstance
+  }
+}
+
+/**
+ * Secret used to sign flash cookies, or a function reading it per request
+ * (e.g. from `c.env` on Workers).
+ */
+export type FlashSecret = string | ((c: Context) => string)
+
+export interface FlashConfig {
+  /**
+   * Storage driver. Defaults to `cookieFlashDriver({ secret })`.
+   */
+  driver?: FlashDriver
+  /**
+   * Secret for the default cookie driver. Required unless `driver` is set.
+   *
+   * @example
+   * ```typescript
+   * flash: { secret: (c) => c.env.APP_KEY }
+   * ```
+   */
+  secret?: FlashSecret
+  /**
+   * Prop key that flash messages are shared under.
+   * @default 'flash'
+   */
+  key?: string
+}
+
+const DEFAULT_COOKIE = 'honertia_flash'
+const DEFAULT_ID_COOKIE = 'honertia_flash_id'
+const DEFAULT_KV_TTL = 300
+
+const cookieOptions = {
+  path: '/',
+  httpOnly: true,
+  sameSite: 'Lax',
+} as const
+
+function parseFlashData(raw: string | null | undefined): FlashData | undefined {
+  if (!raw) return undefined
+  try {
+    const data = JSON.parse(raw) as FlashData
+    return data && typeof data === 'object' ? data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function isEmpty(data: FlashData): boolean {
+  return (
+    Object.keys(data.errors ?? {}).length === 0 &&
+    Object.keys(data.errorBags ?? {}).length === 0 &&
+    Object.keys(data.messages ?? {}).length === 0
+  )
+}
+
+/**
+ * Store flash data directly in a cookie, signed with an HMAC so clients
+ * cannot forge messages or errors. Cookies with a missing or invalid
+ * signature are ignored.
+ * Keep payloads small - browsers cap cookies at roughly 4KB.
+ *
+ * @example
+ * ```typescript
+ * setupHonertia({
+ *   honertia,
+ *   flash: { driver: cookieFlashDriver({ name: 'app_flash', secret: (c) => c.env.APP_KEY }) },
+ * })
+ * ```
+ */
+export function cookieFlashDriver(options: { name?: string; secret: FlashSecret }): FlashDriver {
+  const name = options.name ?? DEFAULT_COOKIE
+  const secretFor = (c: Context): string => {
+    const secret = typeof options.secret === 'function' ? options.secret(c) : options.secret
+    if (!secret) {
+      throw new Error('cookieFlashDriver requires a non-empty secret to sign flash cookies')
+    }
+    return secret
+  }
+
+  return {
+    read: async (c) => {
+      const raw = await getSignedCookie(c, secretFor(c), name)
+      return raw ? parseFlashData(raw) : undefined
+    },
+    write: async (c, data) => {
+      await setSignedCookie(c, name, JSON.stringify(data), secretFor(c), cookieOptions)
+    },
+    clear: async (c) => {
+      deleteCookie(c, name, { path: cookieOptions.path })
+    },
+  }
+}
+
+/**
+ * Cloudflare KV Namespace interface (subset of the full API).
+ */
+interface KVNamespace {
+  get(key: string): Promise<string | null>
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Store flash data in KV, keyed by an ID kept in a cookie.
+ * Use this when flash payloads may exceed cookie size limits.
+ *
+ * @example
+ * ```typescript
+ * setupHonertia({ honertia, flash: { driver: kvFlashDriver({ binding: 'SESSIONS' }) } })
+ * ```
+ */
+export function kvFlashDriver(options: {
+  /** Env binding name of the KV namespace. Defaults to `KV`. */
+  binding?: string
+  /** Resolve the KV namespace manually instead of reading `c.env[binding]`. */
+  kv?: (c: Context) => KVNamespace
+  /** Cookie holding the flash ID. */
+  cookie?: string
+  /** Seconds before unread flash data expires (KV minimum is 60). */
+  ttl?: number
+  /** Key prefix in KV. */
+  prefix?: string
+} = {}): FlashDriver {
+  const cookie = options.cookie ?? DEFAULT_ID_COOKIE
+  const ttl = Math.max(60, options.ttl ?? DEFAULT_KV_TTL)
+  const prefix = options.prefix ?? 'flash:'
+
+  let warned = false
+
+  // A missing binding disables flash data instead of failing every request
+  const getKV = (c: Context): KVNamespace | undefined => {
+    const kv = options.kv
+      ? options.kv(c)
+      : (c.env as Record<string, unknown> | undefined)?.[options.binding ?? 'KV']
+    if (!kv && !warned) {
+      warned = true
+      Effect.runSync(
+        createLoggerClient(getDefaultLogDriver(), getRequestId(c)).warn(
+          `kvFlashDriver has no KV binding, so flash data is dropped. Add ${options.binding ?? 'KV'} to your wrangler.toml or pass kv: (c) => ...`
+        )
+      )
+    }
+    return kv ? (kv as KVNamespace) : undefined
+  }
+
+  return {
+    read: async (c) => {
+      const id = getCookie(c, cookie)
+      const kv = id ? getKV(c) : undefined
+      if (!id || !kv) return undefined
+      return parseFlashData(await kv.get(`${prefix}${id}`))
+    },
+    write: async (c, data) => {
+      const kv = getKV(c)
+      if (!kv) return
+      const id = getCookie(c, cookie) ?? crypto.randomUUID()
+      await kv.put(`${prefix}${id}`, JSON.stringify(data), { expirationTtl: ttl })
+      setCookie(c, cookie, id, { ...cookieOptions, maxAge: ttl })
+    },
+    clear: async (c) => {
+      const id = getCookie(c, cookie)
+      const kv = id ? getKV(c) : undefined
+      if (!id || !kv) return
+      await kv.delete(`${prefix}${id}`)
+      deleteCookie(c, cookie, { path: cookieOptions.path })
+    },
+  }
+}
+
+/**
+ * Middleware that loads flash data from the previous request and persists
+ * data flashed during this one. Must run after `honertia()`.
+ *
+ * Incoming errors are merged into the `errors` prop and incoming messages are
+ * shared under `config.key` (default `flash`), surviving partial reloads.
+ */
+export function flashMiddleware<E extends Env>(config: FlashConfig): MiddlewareHandler<E> {
+  if (!config.driver && !config.secret) {
+    throw new Error(
+      'flashMiddleware requires a `secret` to sign the default flash cookie, or a custom `driver`'
+    )
+  }
+  const driver = config.driver ?? cookieFlashDriver({ secret: config.secret! })
+  const key = config.key ?? 'flash'
+
+  return async (c, next) => {
+    const incoming = (await driver.read(c)) ?? {}
+    const outgoing: Required<FlashData> = { errors: {}, errorBags: {}, messages: {} }
+
+    const instance: FlashInstance = {
+      put(name, value) {
+        outgoing.messages[name] = value
+      },
+      putErrors(errors, bag) {
+        if (bag) {
+          outgoing.errorBags[bag] = { ...outgoing.errorBags[bag], ...errors }
+        } else {
+          outgoing.errors = { ...outgoing.errors, ...errors }
+        }
+      },
+      current: () => incoming,
+      pending: () => outgoing,
+    }
+    c.set('flash', instance)
+
+    const honertia = (c as any).var?.honertia
+    if (honertia) {
+      if (incoming.errors && Object.keys(incoming.errors).length > 0) {
+        honertia.setErrors(incoming.errors)
+      }
+      for (const [bag, errors] of Object.entries(incoming.errorBags ?? {})) {
+        honertia.setErrors(errors, bag)
+      }
+      honertia.share(key, always({ ...(incoming.messages ?? {}) }))
+    }
+
+    await next()
+
+    if (!isEmpty(outgoing)) {
+      await driver.write(c, outgoing)
+    } else if (!isEmpty(incoming)) {
+      await driver.clear(c)
+    }
+
+    // Return response for proper propagation in forwarding/proxy scenarios
+    return c.res
+  }
+}
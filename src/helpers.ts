@@ -3,16 +3,34 @@
  */
 
 import type { Context } from 'hono'
-import type { PageObject } from './types.js'
+import type { PageHead, PageObject, SsrResult } from './types.js'
 import { HonertiaConfigurationError } from './effect/errors.js'
 
 export interface PageProps {
   errors?: Record<string, string>
 }
 
+/**
+ * A chunk in Vite's build manifest (`.vite/manifest.json`).
+ */
 export interface AssetManifestEntry {
+  /** Output file, relative to the build output directory. */
   file?: string
+  /** Source file, relative to the project root. */
+  src?: string
+  /** Chunk name. */
+  name?: string
+  /** Whether the chunk is a build entry point. */
+  isEntry?: boolean
+  /** Whether the chunk is only loaded through a dynamic `import()`. */
+  isDynamicEntry?: boolean
+  /** Manifest keys of statically imported chunks. */
+  imports?: string[]
+  /** Manifest keys of dynamically imported chunks. */
+  dynamicImports?: string[]
+  /** Stylesheets emitted for the chunk. */
   css?: string[]
+  /** Other assets (fonts, images) emitted for the chunk. */
   assets?: string[]
 }
 
@@ -22,12 +40,26 @@ export interface TemplateOptions {
   title?: string
   scripts?: string[]
   styles?: string[]
+  /** Module URLs emitted as `<link rel="modulepreload">` tags. */
+  preloads?: string[]
   head?: string
   rootId?: string
+  /**
+   * CSP nonce applied to every script and style tag, including those in
+   * `head` and the SSR output. Defaults to `c.var.cspNonce` when the
+   * security headers middleware is enabled.
+   */
+  nonce?: string
 }
 
 /**
  * Creates a template renderer function.
+ *
+ * When server-side rendering is configured, the SSR head is appended to the
+ * document head and the SSR body replaces the empty root element.
+ *
+ * Head entries set by the handler (`head()` / `setHead()`) are rendered into
+ * the document head, and their title replaces `title`.
  * 
  * Can accept either static options or a function that receives context
  * for environment-aware configuration.
@@ -39,25 +71,18 @@ export interface TemplateOptions {
  * 
  * @example Dynamic config based on environment
  * ```ts
- * const entry = manifest['src/main.tsx']
- * const assetPath = (path: string) => `/${path}`
+ * const assets = vite.fromManifest(manifest, 'src/main.tsx')
  *
  * createTemplate((ctx) => ({
  *   title: 'App',
- *   scripts: ctx.env.ENVIRONMENT === 'production'
- *     ? [assetPath(entry.file)]
- *     : [vite.script()],
- *   styles: ctx.env.ENVIRONMENT === 'production'
- *     ? (entry.css ?? []).map(assetPath)
- *     : [],
- *   head: ctx.env.ENVIRONMENT === 'production' ? '' : vite.hmrHead(),
+ *   ...assets(ctx),
  * }))
  * ```
  */
 export function createTemplate(
   options: TemplateOptions | ((ctx: Context) => TemplateOptions)
-): (page: PageObject, ctx?: Context) => string {
-  return (page: PageObject, ctx?: Context) => {
+): (page: PageObject, ctx?: Context, ssr?: SsrResult) => string {
+  return (page: PageObject, ctx?: Context, ssr?: SsrResult) => {
     // If options is a function but no context provided, throw helpful error
     if (typeof options === 'function' && !ctx) {
       throw new HonertiaConfigurationError({
@@ -71,41 +96,99 @@ export function createTemplate(
       title = 'App',
       scripts = [],
       styles = [],
-      head = '',
+      preloads = [],
+      head: rawHead = '',
       rootId = 'app',
+      nonce = (ctx as any)?.var?.cspNonce as string | undefined,
     } = resolvedOptions
 
+    const nonceAttr = nonce ? ` nonce="${escapeHtml(nonce)}"` : ''
+    const head = applyNonce(rawHead, nonce)
+
     const scriptTags = scripts
-      .map(src => `<script type="module" src="${escapeHtml(src)}"></script>`)
+      .map(src => `<script type="module" src="${escapeHtml(src)}"${nonceAttr}></script>`)
       .join('\n    ')
 
     const styleTags = styles
-      .map(href => `<link rel="stylesheet" href="${escapeHtml(href)}">`)
+      .map(href => `<link rel="stylesheet" href="${escapeHtml(href)}"${nonceAttr}>`)
+      .join('\n    ')
+
+    const preloadTags = preloads
+      .map(href => `<link rel="modulepreload" href="${escapeHtml(href)}"${nonceAttr}>`)
       .join('\n    ')
 
+    const pageHead = page.head ? renderHead(page.head, nonce) : ''
+
     const pageJson = JSON.stringify(page)
       .replace(/</g, '\\u003c')
       .replace(/>/g, '\\u003e')
       .replace(/&/g, '\\u0026')
       .replace(/'/g, '\\u0027')
 
+    // Server-rendered body already contains the root element with data-page
+    const ssrHead = ssr ? applyNonce([ssr.head].flat().join('\n    '), nonce) : ''
+    const root = ssr
+      ? applyNonce(ssr.body, nonce)
+      : `<div id="${escapeHtml(rootId)}" data-page='${pageJson}'></div>`
+
     return `<!DOCTYPE html>
 <html lang="en">
   <head>
     <meta charset="utf-8">
     <meta name="viewport" content="width=device-width, initial-scale=1">
-    <title>${escapeHtml(title)}</title>
+    <title>${escapeHtml(page.head?.title ?? title)}</title>
+    ${pageHead}
     ${styleTags}
+    ${preloadTags}
     ${head}
+    ${ssrHead}
   </head>
   <body>
-    <div id="${escapeHtml(rootId)}" data-page='${pageJson}'></div>
+    ${root}
     ${scriptTags}
   </body>
 </html>`
   }
 }
 
+function renderAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const name = key === 'httpEquiv' ? 'http-equiv' : key
+      return `${escapeHtml(name)}="${escapeHtml(value!)}"`
+    })
+    .join(' ')
+}
+
+/**
+ * Render head entries (excluding the title) as tags marked with
+ * `data-honertia-head` so the client can replace them on navigation.
+ */
+function renderHead(head: PageHead, nonce?: string): string {
+  const nonceAttr = nonce ? ` nonce="${escapeHtml(nonce)}"` : ''
+  const tags = [
+    ...(head.meta ?? []).map(meta => `<meta ${renderAttributes(meta)} data-honertia-head>`),
+    ...(head.link ?? []).map(link => `<link ${renderAttributes(link)} data-honertia-head>`),
+    ...(head.jsonLd ?? []).map(data => {
+      const json = JSON.stringify(data).replace(/</g, '\\u003c')
+      return `<script type="application/ld+json"${nonceAttr} data-honertia-head>${json}</script>`
+    }),
+  ]
+  return tags.join('\n    ')
+}
+
+/**
+ * Add a nonce attribute to inline `<script>` and `<style>` tags that lack one.
+ */
+function applyNonce(html: string, nonce?: string): string {
+  if (!nonce) return html
+  return html.replace(
+    /<(script|style)\b(?![^>]*\snonce=)/gi,
+    `<$1 nonce="${escapeHtml(nonce)}"`
+  )
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -147,10 +230,139 @@ export function createVersion(manifest: AssetManifest): string {
   return Math.abs(hash).toString(36)
 }
 
+/**
+ * Options for `vite.fromManifest()`.
+ */
+export interface ViteManifestOptions {
+  /**
+   * Public path that built files are served from.
+   * @default '/'
+   */
+  base?: string
+  /**
+   * Use the Vite dev server instead of the manifest. Defaults to
+   * `ENVIRONMENT` or `NODE_ENV` being `'development'` in `ctx.env`.
+   */
+  dev?: boolean | ((ctx: Context) => boolean)
+  /**
+   * Vite dev server port.
+   * @default 5173
+   */
+  port?: number
+}
+
+/**
+ * Template assets resolved by `vite.fromManifest()`.
+ */
+export type ViteAssets = Required<Pick<TemplateOptions, 'scripts' | 'styles' | 'preloads' | 'head'>>
+
+function isViteDev(ctx: Context | undefined, dev: ViteManifestOptions['dev']): boolean {
+  if (typeof dev === 'boolean') return dev
+  if (!ctx) return false
+  if (dev) return dev(ctx)
+  const env = ctx.env as Record<string, unknown> | undefined
+  return env?.ENVIRONMENT === 'development' || env?.NODE_ENV === 'development'
+}
+
+/**
+ * Walk the static import graph from an entry and collect its built assets.
+ */
+function resolveManifestAssets(
+  manifest: AssetManifest,
+  entry: string,
+  base: string
+): Omit<ViteAssets, 'head'> {
+  const root = manifest[entry]
+  if (!root) {
+    throw new HonertiaConfigurationError({
+      message: `Vite manifest has no entry for "${entry}".`,
+      hint: `Use a source path from .vite/manifest.json, e.g. vite.fromManifest(manifest, '${Object.keys(manifest)[0] ?? 'src/main.tsx'}')`,
+    })
+  }
+
+  const prefix = base.endsWith('/') ? base : `${base}/`
+  const url = (file: string) => `${prefix}${file}`
+  const chunk = (key: string): AssetManifestEntry | undefined => {
+    const value = manifest[key]
+    return typeof value === 'string' ? { file: value } : value
+  }
+
+  const styles = new Set<string>()
+  const preloads: string[] = []
+  const visited = new Set<string>()
+
+  const visit = (key: string, isRoot: boolean) => {
+    if (visited.has(key)) return
+    visited.add(key)
+
+    const entryChunk = chunk(key)
+    if (!entryChunk) return
+
+    if (!isRoot && entryChunk.file) {
+      preloads.push(url(entryChunk.file))
+    }
+    for (const css of entryChunk.css ?? []) {
+      styles.add(url(css))
+    }
+    for (const imported of entryChunk.imports ?? []) {
+      visit(imported, false)
+    }
+  }
+
+  visit(entry, true)
+  const file = chunk(entry)?.file
+
+  return {
+    scripts: file ? [url(file)] : [],
+    styles: [...styles],
+    preloads,
+  }
+}
+
 /**
  * Vite development configuration helpers.
  */
 export const vite = {
+  /**
+   * Resolves template assets for an entry from Vite's build manifest.
+   *
+   * In production the entry's static imports are preloaded and CSS from
+   * every transitively imported chunk is included. In development the
+   * dev server's HMR head and entry script are used instead.
+   *
+   * @param manifest - Contents of `.vite/manifest.json`
+   * @param entry - Source path of the entry, as keyed in the manifest
+   * @example
+   * ```ts
+   * import manifest from './dist/.vite/manifest.json'
+   *
+   * const assets = vite.fromManifest(manifest, 'src/main.tsx')
+   * createTemplate((ctx) => ({ title: 'App', ...assets(ctx) }))
+   * ```
+   */
+  fromManifest(
+    manifest: AssetManifest,
+    entry: string,
+    options: ViteManifestOptions = {}
+  ): (ctx?: Context) => ViteAssets {
+    const { base = '/', port = 5173 } = options
+    let built: Omit<ViteAssets, 'head'> | undefined
+
+    return (ctx) => {
+      if (isViteDev(ctx, options.dev)) {
+        return {
+          scripts: [vite.script(`/${entry.replace(/^\//, '')}`, port)],
+          styles: [],
+          preloads: [],
+          head: vite.hmrHead(port),
+        }
+      }
+
+      built ??= resolveManifestAssets(manifest, entry, base)
+      return { ...built, head: '' }
+    }
+  },
+
   /**
    * Returns the HMR (Hot Module Replacement) head scripts for Vite dev server.
    * 
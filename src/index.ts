@@ -29,14 +29,88 @@ export type {
   HonertiaConfig,
   HonertiaInstance,
   RenderOptions,
+  SsrConfig,
+  SsrResult,
+  SsrRenderer,
+  SsrModule,
+  PageHead,
+  HeadMeta,
+  HeadLink,
 } from './types.js'
 
+// Server-side rendering
+export { renderSsr } from './ssr.js'
+
+// Flash Data
+export {
+  flashMiddleware,
+  cookieFlashDriver,
+  kvFlashDriver,
+  type FlashConfig,
+  type FlashData,
+  type FlashDriver,
+  type FlashInstance,
+  type FlashSecret,
+} from './flash.js'
+
+// Prop Types
+export {
+  defer,
+  merge,
+  deepMerge,
+  optional,
+  always,
+  isDeferProp,
+  isMergeProp,
+  isOptionalProp,
+  isAlwaysProp,
+  DeferProp,
+  MergeProp,
+  OptionalProp,
+  AlwaysProp,
+} from './props.js'
+
+// Prop Serialization
+export {
+  taggedSerializer,
+  encodeProps,
+  decodeProps,
+  type PropSerializer,
+} from './serializer.js'
+
+// Named Route URLs
+export {
+  createRouteHelper,
+  buildRouteUrl,
+  buildQueryString,
+  RouteParamError,
+  type RouteDefinition,
+  type RouteHelper,
+  type RouteHelperOptions,
+  type RouteParamValue,
+  type RouteQuery,
+} from './routes.js'
+
+// Security Headers
+export {
+  securityHeaders,
+  buildContentSecurityPolicy,
+  type SecurityHeadersConfig,
+  type CspDirectives,
+  type HstsOptions,
+} from './security.js'
+
 // Helpers
 export {
   createTemplate,
   createVersion,
   vite,
   type PageProps,
+  type TemplateOptions,
+  type AssetManifest,
+  type AssetManifestEntry,
+  type ViteManifestOptions,
+  type ViteAssets,
 } from './helpers.js'
 
 // =============================================================================
@@ -3,8 +3,10 @@
  */
 
 import type { Context, MiddlewareHandler } from 'hono'
-import type { HonertiaConfig, HonertiaInstance, PageObject, RenderOptions } from './types.js'
+import type { HonertiaConfig, HonertiaInstance, PageHead, PageObject, RenderOptions } from './types.js'
 import { HEADERS } from './types.js'
+import { renderSsr } from './ssr.js'
+import { isAlwaysProp, isDeferProp, isMergeProp, isOptionalProp } from './props.js'
 
 declare module 'hono' {
   interface ContextVariableMap {
@@ -19,6 +21,10 @@ async function resolveValue<T>(value: T | (() => T | Promise<T>)): Promise<T> {
   return value
 }
 
+function parseKeys(header?: string): string[] {
+  return header ? header.split(',').map(k => k.trim()) : []
+}
+
 function filterPartialProps(
   props: Record<string, unknown>,
   include?: string,
@@ -27,19 +33,19 @@ function filterPartialProps(
   let filteredProps = { ...props }
 
   if (include) {
-    const includeKeys = include.split(',').map(k => k.trim())
+    const includeKeys = parseKeys(include)
     filteredProps = Object.fromEntries(
-      Object.entries(props).filter(([key]) => 
-        includeKeys.includes(key) || key === 'errors'
+      Object.entries(props).filter(([key, value]) =>
+        includeKeys.includes(key) || key === 'errors' || isAlwaysProp(value)
       )
     )
   }
 
   if (exclude) {
-    const excludeKeys = exclude.split(',').map(k => k.trim())
+    const excludeKeys = parseKeys(exclude)
     filteredProps = Object.fromEntries(
-      Object.entries(filteredProps).filter(([key]) => 
-        !excludeKeys.includes(key) || key === 'errors'
+      Object.entries(filteredProps).filter(([key, value]) =>
+        !excludeKeys.includes(key) || key === 'errors' || isAlwaysProp(value)
       )
     )
   }
@@ -47,16 +53,211 @@ function filterPartialProps(
   return filteredProps
 }
 
+/**
+ * Pick the props this response needs before any of them are resolved.
+ *
+ * Standard visits drop optional props and move deferred props into the
+ * `deferredProps` metadata. Partial reloads apply the only/except headers,
+ * and keep optional and deferred props only when explicitly requested.
+ */
+function selectProps(
+  props: Record<string, unknown>,
+  partial: { include?: string; exclude?: string } | null
+): { props: Record<string, unknown>; deferred: Record<string, string[]> } {
+  const deferred: Record<string, string[]> = {}
+
+  if (partial) {
+    const includeKeys = parseKeys(partial.include)
+    const filtered = filterPartialProps(props, partial.include, partial.exclude)
+    const selected = Object.fromEntries(
+      Object.entries(filtered).filter(([key, value]) =>
+        !(isDeferProp(value) || isOptionalProp(value)) || includeKeys.includes(key)
+      )
+    )
+    return { props: selected, deferred }
+  }
+
+  const selected: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(props)) {
+    if (isOptionalProp(value)) {
+      continue
+    }
+    if (isDeferProp(value)) {
+      ;(deferred[value.group] ??= []).push(key)
+      continue
+    }
+    selected[key] = value
+  }
+
+  return { props: selected, deferred }
+}
+
+/**
+ * Resolve the selected props. Lazy values run concurrently, and only for
+ * the keys that made it into this response.
+ */
+async function resolveProps(
+  props: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const entries = await Promise.all(
+    Object.entries(props).map(async ([key, value]): Promise<[string, unknown]> => {
+      if (isDeferProp(value) || isOptionalProp(value)) {
+        return [key, await value.callback()]
+      }
+      if (isAlwaysProp(value)) {
+        return [key, await resolveValue(value.value)]
+      }
+      return [key, await resolveValue(value)]
+    })
+  )
+
+  return Object.fromEntries(entries)
+}
+
+/**
+ * Unwrap merge props and collect their keys for the client.
+ * Keys listed in the reset header are sent as plain props.
+ */
+async function resolveMergeProps(
+  props: Record<string, unknown>,
+  reset?: string
+): Promise<{
+  props: Record<string, unknown>
+  mergeProps: string[]
+  deepMergeProps: string[]
+}> {
+  const resetKeys = parseKeys(reset)
+  const resolved: Record<string, unknown> = {}
+  const mergeProps: string[] = []
+  const deepMergeProps: string[] = []
+
+  for (const [key, value] of Object.entries(props)) {
+    if (!isMergeProp(value)) {
+      resolved[key] = value
+      continue
+    }
+
+    resolved[key] = await resolveValue(value.value)
+    if (resetKeys.includes(key)) {
+      continue
+    }
+    if (value.deep) {
+      deepMergeProps.push(key)
+    } else {
+      mergeProps.push(key)
+    }
+  }
+
+  return { props: resolved, mergeProps, deepMergeProps }
+}
+
+/**
+ * Assemble the `errors` prop. Named bags are nested under their name.
+ * Unscoped errors are nested under the request's error bag when the client
+ * sent `X-Inertia-Error-Bag`, and returned flat otherwise.
+ */
+function assembleErrors(
+  errors: Record<string, string>,
+  errorBags: Record<string, Record<string, string>>,
+  requestBag?: string
+): Record<string, unknown> {
+  if (requestBag && Object.keys(errors).length > 0) {
+    return {
+      ...errorBags,
+      [requestBag]: { ...errors, ...errorBags[requestBag] },
+    }
+  }
+  return { ...errors, ...errorBags }
+}
+
+function metaKey(meta: Record<string, string | undefined>): string | undefined {
+  if (meta.name) return `name:${meta.name}`
+  if (meta.property) return `property:${meta.property}`
+  if (meta.httpEquiv) return `http-equiv:${meta.httpEquiv}`
+  if (meta.charset !== undefined) return 'charset'
+  return undefined
+}
+
+function linkKey(link: Record<string, string | undefined>): string {
+  return link.rel === 'canonical' ? 'canonical' : `${link.rel}:${link.href}`
+}
+
+/**
+ * Append entries, replacing earlier ones that share a key.
+ */
+function upsert<T extends Record<string, string | undefined>>(
+  existing: T[] = [],
+  entries: T[],
+  key: (entry: T) => string | undefined
+): T[] {
+  const merged = [...existing]
+  for (const entry of entries) {
+    const k = key(entry)
+    const index = k === undefined ? -1 : merged.findIndex((e) => key(e) === k)
+    if (index === -1) {
+      merged.push(entry)
+    } else {
+      merged[index] = entry
+    }
+  }
+  return merged
+}
+
+/**
+ * Merge head entries. Later titles win; meta tags are replaced by
+ * name/property, links by rel and href (canonical by rel alone).
+ */
+function mergeHead(head: PageHead, entries: PageHead): PageHead {
+  const merged: PageHead = { ...head }
+  if (entries.title !== undefined) merged.title = entries.title
+  if (entries.meta) merged.meta = upsert(head.meta, entries.meta, metaKey)
+  if (entries.link) merged.link = upsert(head.link, entries.link, linkKey)
+  if (entries.jsonLd) merged.jsonLd = [...(head.jsonLd ?? []), ...entries.jsonLd]
+  return merged
+}
+
+/**
+ * Request headers that change the Inertia JSON response.
+ */
+const INERTIA_VARY = [
+  HEADERS.HONERTIA,
+  HEADERS.PARTIAL_COMPONENT,
+  HEADERS.PARTIAL_DATA,
+  HEADERS.PARTIAL_EXCEPT,
+  HEADERS.RESET,
+  HEADERS.ERROR_BAG,
+].join(', ')
+
+/**
+ * Weak ETag over the serialized page, so it survives compression.
+ */
+async function computeEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body))
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+  return `W/"${hex}"`
+}
+
+function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '')
+  return ifNoneMatch
+    .split(',')
+    .some((tag) => tag.trim() === '*' || opaque(tag) === opaque(etag))
+}
+
 export function honertia(config: HonertiaConfig): MiddlewareHandler {
   return async (c: Context, next) => {
     const sharedProps: Record<string, unknown | (() => unknown | Promise<unknown>)> = {}
     let errors: Record<string, string> = {}
+    const errorBags: Record<string, Record<string, string>> = {}
+    let head: PageHead = {}
 
     const getVersion = () => 
       typeof config.version === 'function' ? config.version() : config.version
 
     const isHonertia = c.req.header(HEADERS.HONERTIA) === 'true'
     const clientVersion = c.req.header(HEADERS.VERSION)
+    const errorBag = c.req.header(HEADERS.ERROR_BAG) || undefined
     const version = getVersion()
 
     // Version mismatch - force full reload
@@ -76,8 +277,20 @@ export function honertia(config: HonertiaConfig): MiddlewareHandler {
         return { ...sharedProps }
       },
 
-      setErrors(newErrors: Record<string, string>) {
-        errors = { ...errors, ...newErrors }
+      setErrors(newErrors: Record<string, string>, bag?: string) {
+        if (bag) {
+          errorBags[bag] = { ...errorBags[bag], ...newErrors }
+        } else {
+          errors = { ...errors, ...newErrors }
+        }
+      },
+
+      setHead(entries: PageHead) {
+        head = mergeHead(head, entries)
+      },
+
+      getHead() {
+        return { ...head }
       },
 
       async render<T extends Record<string, unknown>>(
@@ -85,37 +298,40 @@ export function honertia(config: HonertiaConfig): MiddlewareHandler {
         props: T = {} as T,
         options: RenderOptions = {}
       ): Promise<Response> {
-        // Resolve lazy shared props
-        const resolvedShared: Record<string, unknown> = {}
-        for (const [key, value] of Object.entries(sharedProps)) {
-          resolvedShared[key] = await resolveValue(value)
-        }
-
         let mergedProps: Record<string, unknown> = {
-          ...resolvedShared,
+          ...sharedProps,
           ...props,
         }
 
-        // Add errors
-        if (Object.keys(errors).length > 0) {
-          mergedProps.errors = { 
-            ...(mergedProps.errors as Record<string, string> || {}),
-            ...errors 
+        // Add errors, scoped by error bag
+        if (Object.keys(errors).length > 0 || Object.keys(errorBags).length > 0) {
+          mergedProps.errors = {
+            ...(mergedProps.errors as Record<string, unknown> || {}),
+            ...assembleErrors(errors, errorBags, errorBag),
           }
         }
         if (!mergedProps.errors) {
           mergedProps.errors = {}
         }
 
-        // Handle partial reloads
-        if (isHonertia) {
-          const partialComponent = c.req.header(HEADERS.PARTIAL_COMPONENT)
-          const partialData = c.req.header(HEADERS.PARTIAL_DATA)
-          const partialExcept = c.req.header(HEADERS.PARTIAL_EXCEPT)
+        // Handle partial reloads: select keys first, then resolve only those
+        const partialComponent = c.req.header(HEADERS.PARTIAL_COMPONENT)
+        const partialData = c.req.header(HEADERS.PARTIAL_DATA)
+        const partialExcept = c.req.header(HEADERS.PARTIAL_EXCEPT)
+        const isPartial =
+          isHonertia && partialComponent === component && Boolean(partialData || partialExcept)
 
-          if (partialComponent === component && (partialData || partialExcept)) {
-            mergedProps = filterPartialProps(mergedProps, partialData, partialExcept)
-          }
+        const selected = selectProps(
+          mergedProps,
+          isPartial ? { include: partialData, exclude: partialExcept } : null
+        )
+        const deferredProps = selected.deferred
+        mergedProps = await resolveProps(selected.props)
+
+        const merged = await resolveMergeProps(mergedProps, c.req.header(HEADERS.RESET))
+        mergedProps = merged.props
+        if (config.serializer) {
+          mergedProps = config.serializer.serialize(mergedProps)
         }
 
         const page: PageObject = {
@@ -123,18 +339,36 @@ export function honertia(config: HonertiaConfig): MiddlewareHandler {
           props: mergedProps as Record<string, unknown> & { errors?: Record<string, string> },
           url: new URL(c.req.url).pathname + new URL(c.req.url).search,
           version,
+          ...(Object.keys(deferredProps).length > 0 && { deferredProps }),
+          ...(merged.mergeProps.length > 0 && { mergeProps: merged.mergeProps }),
+          ...(merged.deepMergeProps.length > 0 && { deepMergeProps: merged.deepMergeProps }),
+          ...(Object.keys(head).length > 0 && { head }),
           ...(options.clearHistory !== undefined && { clearHistory: options.clearHistory }),
           ...(options.encryptHistory !== undefined && { encryptHistory: options.encryptHistory }),
         }
 
         if (isHonertia) {
-          return c.json(page, 200, {
+          const headers: Record<string, string> = {
             [HEADERS.HONERTIA]: 'true',
-            'Vary': HEADERS.HONERTIA,
-          })
+            'Vary': INERTIA_VARY,
+          }
+          if (options.cacheControl) {
+            headers['Cache-Control'] = options.cacheControl
+          }
+
+          const body = JSON.stringify(page)
+          if (config.etag !== false && ['GET', 'HEAD'].includes(c.req.method)) {
+            headers['ETag'] = await computeEtag(body)
+            if (matchesEtag(c.req.header('If-None-Match'), headers['ETag'])) {
+              return c.body(null, 304, headers)
+            }
+          }
+
+          return c.body(body, 200, { ...headers, 'Content-Type': 'application/json' })
         }
 
-        const html = await config.render(page, c)
+        const ssr = await renderSsr(config.ssr, page, c)
+        const html = await config.render(page, c, ssr)
         return c.html(html, 200, {
           'Vary': HEADERS.HONERTIA,
         })
@@ -0,0 +1,164 @@
+/**
+ * Honertia Prop Types
+ *
+ * Wrappers that change how a single prop is resolved and sent to the client.
+ * Pass them as prop values to `render()` or `share()`.
+ */
+
+/**
+ * A prop that is left out of the initial page load and fetched by the
+ * client in a follow-up partial reload.
+ */
+export class DeferProp<T = unknown> {
+  readonly _tag = 'DeferProp'
+  constructor(
+    readonly callback: () => T | Promise<T>,
+    readonly group: string = 'default'
+  ) {}
+}
+
+/**
+ * Defer a prop until after the page has rendered.
+ *
+ * The key is omitted from the first page object and listed under
+ * `deferredProps[group]`. The client then requests it with a partial
+ * reload (`X-Inertia-Partial-Data`), which is the only time the callback runs.
+ * Props in the same group are fetched together in one request.
+ *
+ * @example
+ * ```typescript
+ * return yield* render('Dashboard', {
+ *   user,
+ *   stats: defer(() => loadStats(db)),
+ *   activity: defer(() => loadActivity(db), 'sidebar'),
+ * })
+ * ```
+ */
+export function defer<T>(
+  callback: () => T | Promise<T>,
+  group = 'default'
+): DeferProp<T> {
+  return new DeferProp(callback, group)
+}
+
+/**
+ * Check if a value is a deferred prop.
+ */
+export function isDeferProp(value: unknown): value is DeferProp {
+  return value instanceof DeferProp
+}
+
+/**
+ * A prop the client merges into its existing value instead of replacing it.
+ */
+export class MergeProp<T = unknown> {
+  readonly _tag = 'MergeProp'
+  constructor(
+    readonly value: T | (() => T | Promise<T>),
+    readonly deep: boolean = false
+  ) {}
+}
+
+/**
+ * Mark a prop to be merged with the client's current value.
+ *
+ * Arrays are appended and objects are shallow-merged on the client, which
+ * makes it suited to infinite scrolling. The key is listed under `mergeProps`
+ * unless the client asks to reset it via `X-Inertia-Reset`.
+ *
+ * @example
+ * ```typescript
+ * return yield* render('Posts/Index', {
+ *   posts: merge(page.items),
+ *   nextPage: page.next,
+ * })
+ * ```
+ */
+export function merge<T>(value: T | (() => T | Promise<T>)): MergeProp<T> {
+  return new MergeProp(value)
+}
+
+/**
+ * Mark a prop to be deep-merged with the client's current value.
+ * The key is listed under `deepMergeProps`.
+ *
+ * @example
+ * ```typescript
+ * return yield* render('Chat', {
+ *   conversations: deepMerge({ [thread.id]: { messages } }),
+ * })
+ * ```
+ */
+export function deepMerge<T>(value: T | (() => T | Promise<T>)): MergeProp<T> {
+  return new MergeProp(value, true)
+}
+
+/**
+ * Check if a value is a merge prop.
+ */
+export function isMergeProp(value: unknown): value is MergeProp {
+  return value instanceof MergeProp
+}
+
+/**
+ * A prop that is never part of a standard visit and only evaluated when a
+ * partial reload asks for it by name.
+ */
+export class OptionalProp<T = unknown> {
+  readonly _tag = 'OptionalProp'
+  constructor(readonly callback: () => T | Promise<T>) {}
+}
+
+/**
+ * Mark a prop as optional.
+ *
+ * The callback never runs on a standard visit and, unlike `defer()`, the
+ * client is not told about the key. It only runs when the key is listed in
+ * `X-Inertia-Partial-Data`.
+ *
+ * @example
+ * ```typescript
+ * return yield* render('Users/Index', {
+ *   users,
+ *   exportPreview: optional(() => buildExport(db)),
+ * })
+ * ```
+ */
+export function optional<T>(callback: () => T | Promise<T>): OptionalProp<T> {
+  return new OptionalProp(callback)
+}
+
+/**
+ * Check if a value is an optional prop.
+ */
+export function isOptionalProp(value: unknown): value is OptionalProp {
+  return value instanceof OptionalProp
+}
+
+/**
+ * A prop that is included in every response, including partial reloads.
+ */
+export class AlwaysProp<T = unknown> {
+  readonly _tag = 'AlwaysProp'
+  constructor(readonly value: T | (() => T | Promise<T>)) {}
+}
+
+/**
+ * Mark a prop to always be sent, even when a partial reload does not list it
+ * in `X-Inertia-Partial-Data` or excludes it via `X-Inertia-Partial-Except`.
+ *
+ * @example
+ * ```typescript
+ * yield* share('flash', always(() => session.flash()))
+ * ```
+ */
+export function always<T>(value: T | (() => T | Promise<T>)): AlwaysProp<T> {
+  return new AlwaysProp(value)
+}
+
+/**
+ * Check if a value is an always prop.
+ */
+export function isAlwaysProp(value: unknown): value is AlwaysProp {
+  return value instanceof AlwaysProp
+}
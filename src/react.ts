@@ -3,6 +3,9 @@
  */
 
 import type { PageProps } from './helpers.js'
+import type { PageObject } from './types.js'
+import type { SharedPropsType } from './effect/services.js'
+import { decodeProps } from './serializer.js'
 
 type ComponentType<P = unknown> = (props: P) => unknown
 
@@ -12,10 +15,35 @@ export type PageResolver = (name: string) =>
   | Promise<{ default: ComponentType<unknown> }>
   | { default: ComponentType<unknown> }
 
-export interface SharedProps {
+/**
+ * Props available on every page: everything shared via `share()` (see
+ * `HonertiaSharedProps`) plus validation errors.
+ */
+export interface SharedProps extends SharedPropsType {
   errors?: Record<string, string>
 }
 
-export type WithSharedProps<TProps = Record<string, never>> = TProps & SharedProps
+export type WithSharedProps<TProps = unknown> = TProps & SharedProps
 
 export type { PageProps } from './helpers.js'
+
+/**
+ * Decode a page serialized with `taggedSerializer`, e.g. the initial
+ * `data-page` payload. Page components can decode their own props with
+ * `decodeProps`.
+ *
+ * @example
+ * ```tsx
+ * const page = decodePage(JSON.parse(el.dataset.page!))
+ *
+ * export default function Show(props: EncodedProps) {
+ *   const { project } = decodeProps<ShowProps>(props)
+ *   return <time>{project.createdAt.toLocaleDateString()}</time>
+ * }
+ * ```
+ */
+export function decodePage<TProps = Record<string, unknown>>(page: PageObject): PageObject<TProps> {
+  return { ...page, props: decodeProps(page.props) } as PageObject<TProps>
+}
+
+export { decodeProps }
@@ -0,0 +1,169 @@
+/**
+ * Honertia Named Route URLs
+ *
+ * Builds URLs for named routes from their path and bindings. The module
+ * emitted by `honertia generate:routes-client` wraps `createRouteHelper`
+ * with typed route names and params.
+ *
+ * This module has no server dependencies and is safe to bundle for the client.
+ */
+
+/**
+ * A route param value. Objects are read by the binding column, so a model
+ * can be passed directly: `{project:slug}` reads `project.slug`.
+ */
+export type RouteParamValue<TColumn extends string = string> =
+  | string
+  | number
+  | { readonly [K in TColumn]: string | number }
+
+/**
+ * Query string values. Arrays repeat the key; `null` and `undefined` are skipped.
+ */
+export type RouteQuery = Record<
+  string,
+  string | number | boolean | null | undefined | readonly (string | number | boolean)[]
+>
+
+/**
+ * A named route as emitted by `honertia generate:routes-client`.
+ */
+export interface RouteDefinition {
+  /** HTTP method */
+  readonly method: string
+  /** Hono-style path including prefix (e.g. '/projects/:project') */
+  readonly path: string
+  /** Binding column per param, when not `id` */
+  readonly bindings?: Readonly<Record<string, string>>
+}
+
+export interface RouteHelperOptions {
+  /**
+   * Prepended to every URL, e.g. `https://app.example.com`.
+   */
+  base?: string
+}
+
+/**
+ * Thrown when a required route param is missing.
+ */
+export class RouteParamError extends Error {
+  constructor(
+    readonly route: string,
+    readonly param: string
+  ) {
+    super(`Missing route param '${param}' for '${route}'`)
+    this.name = 'RouteParamError'
+  }
+}
+
+/**
+ * Route arguments: params are required when the route has required params.
+ */
+type RouteArgs<TParams> = object extends TParams
+  ? [params?: TParams, query?: RouteQuery]
+  : [params: TParams, query?: RouteQuery]
+
+/**
+ * Typed URL generator for a map of route names to params.
+ */
+export interface RouteHelper<TParams> {
+  <N extends keyof TParams & string>(name: N, ...args: RouteArgs<TParams[N]>): string
+  /** Whether a route with this name exists. */
+  has(name: string): name is keyof TParams & string
+  /** The route definition for a name. */
+  definition(name: keyof TParams & string): RouteDefinition
+}
+
+const PARAM_PATTERN = /\/:(\w+)(\{[^}]*\})?(\?)?/g
+
+function resolveParam(
+  value: RouteParamValue | null | undefined,
+  column: string
+): string | number | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'object') return (value as Record<string, string | number>)[column]
+  return value
+}
+
+/**
+ * Build a query string (including `?`), or an empty string.
+ */
+export function buildQueryString(query: RouteQuery = {}): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value === null || value === undefined) continue
+    for (const item of [value].flat()) {
+      search.append(key, String(item))
+    }
+  }
+  const result = search.toString()
+  return result ? `?${result}` : ''
+}
+
+/**
+ * Build the URL for a route definition.
+ *
+ * @example
+ * ```typescript
+ * buildRouteUrl('projects.show', { method: 'get', path: '/projects/:project', bindings: { project: 'slug' } }, { project })
+ * // => '/projects/my-project'
+ * ```
+ */
+export function buildRouteUrl(
+  name: string,
+  definition: RouteDefinition,
+  params: Record<string, RouteParamValue | null | undefined> = {},
+  query?: RouteQuery,
+  options: RouteHelperOptions = {}
+): string {
+  const path = definition.path.replace(
+    PARAM_PATTERN,
+    (_segment, param: string, _pattern: string | undefined, optional: string | undefined) => {
+      const value = resolveParam(params[param], definition.bindings?.[param] ?? 'id')
+      if (value === undefined || value === '') {
+        if (optional) return ''
+        throw new RouteParamError(name, param)
+      }
+      return `/${encodeURIComponent(String(value))}`
+    }
+  )
+
+  return `${options.base?.replace(/\/$/, '') ?? ''}${path || '/'}${buildQueryString(query)}`
+}
+
+/**
+ * Create a typed `route()` helper from route definitions.
+ *
+ * @example
+ * ```typescript
+ * const route = createRouteHelper<{ 'projects.show': { project: RouteParamValue } }>({
+ *   'projects.show': { method: 'get', path: '/projects/:project' },
+ * })
+ *
+ * route('projects.show', { project: 1 }, { tab: 'settings' })
+ * // => '/projects/1?tab=settings'
+ * ```
+ */
+export function createRouteHelper<TParams>(
+  routes: { readonly [N in keyof TParams]: RouteDefinition },
+  options: RouteHelperOptions = {}
+): RouteHelper<TParams> {
+  const definitions = routes as Readonly<Record<string, RouteDefinition>>
+
+  const definition = (name: string): RouteDefinition => {
+    const found = Object.hasOwn(definitions, name) ? definitions[name] : undefined
+    if (!found) {
+      throw new Error(`Unknown route '${name}'`)
+    }
+    return found
+  }
+
+  const route = (name: string, params?: Record<string, RouteParamValue>, query?: RouteQuery) =>
+    buildRouteUrl(name, definition(name), params, query, options)
+
+  return Object.assign(route, {
+    has: (name: string): name is keyof TParams & string => Object.hasOwn(definitions, name),
+    definition,
+  }) as RouteHelper<TParams>
+}
@@ -0,0 +1,210 @@
+/**
+ * Honertia Security Headers
+ *
+ * Sets Content-Security-Policy, Strict-Transport-Security, X-Frame-Options
+ * and Referrer-Policy headers, and generates a per-request CSP nonce that
+ * `createTemplate` applies to every script and style tag.
+ */
+
+import type { Context, MiddlewareHandler, Env } from 'hono'
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    cspNonce: string
+  }
+}
+
+/**
+ * CSP directives keyed by name. `true` emits a valueless directive
+ * (e.g. `upgrade-insecure-requests`), `false` removes a default.
+ */
+export type CspDirectives = Record<string, string | string[] | boolean>
+
+export interface HstsOptions {
+  /** @default 31536000 (one year) */
+  maxAge?: number
+  /** @default true */
+  includeSubDomains?: boolean
+  /** @default false */
+  preload?: boolean
+}
+
+export interface SecurityHeadersConfig {
+  /**
+   * CSP directives, merged over the defaults for the current environment.
+   * `'nonce-…'` is appended to `script-src` and `style-src` unless the
+   * directive allows `'unsafe-inline'`. Pass `false` to omit the header.
+   */
+  contentSecurityPolicy?: CspDirectives | false
+  /**
+   * Send `Content-Security-Policy-Report-Only` instead of enforcing.
+   * @default false
+   */
+  reportOnly?: boolean
+  /**
+   * HSTS options. Disabled in development. Pass `false` to omit the header.
+   */
+  hsts?: HstsOptions | false
+  /**
+   * @default 'SAMEORIGIN'
+   */
+  frameOptions?: 'DENY' | 'SAMEORIGIN' | false
+  /**
+   * @default 'strict-origin-when-cross-origin'
+   */
+  referrerPolicy?: string | false
+  /**
+   * Use development defaults. Defaults to `ENVIRONMENT` or `NODE_ENV`
+   * being `'development'` in `ctx.env`.
+   */
+  dev?: boolean | ((c: Context) => boolean)
+  /**
+   * Vite dev server origin allowed by the development CSP.
+   * @default 'http://localhost:5173'
+   */
+  devServer?: string
+}
+
+const DEFAULT_DEV_SERVER = 'http://localhost:5173'
+const DEFAULT_HSTS_MAX_AGE = 31536000
+
+function productionDirectives(): CspDirectives {
+  return {
+    'default-src': ["'self'"],
+    'script-src': ["'self'"],
+    'style-src': ["'self'"],
+    'img-src': ["'self'", 'data:'],
+    'font-src': ["'self'", 'data:'],
+    'connect-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'self'"],
+  }
+}
+
+/**
+ * Development adds the Vite dev server and allows inline styles,
+ * which Vite injects during HMR without a nonce.
+ */
+function developmentDirectives(devServer: string): CspDirectives {
+  const ws = devServer.replace(/^http/, 'ws')
+  return {
+    ...productionDirectives(),
+    'script-src': ["'self'", devServer],
+    'style-src': ["'self'", "'unsafe-inline'", devServer],
+    'img-src': ["'self'", 'data:', devServer],
+    'font-src': ["'self'", 'data:', devServer],
+    'connect-src': ["'self'", devServer, ws],
+  }
+}
+
+function isDev(c: Context, dev: SecurityHeadersConfig['dev']): boolean {
+  if (typeof dev === 'boolean') return dev
+  if (dev) return dev(c)
+  const env = c.env as Record<string, unknown> | undefined
+  return env?.ENVIRONMENT === 'development' || env?.NODE_ENV === 'development'
+}
+
+function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return btoa(String.fromCharCode(...bytes))
+}
+
+/**
+ * Serialize CSP directives, adding the nonce to script and style sources.
+ */
+export function buildContentSecurityPolicy(directives: CspDirectives, nonce?: string): string {
+  const parts: string[] = []
+
+  for (const [name, value] of Object.entries(directives)) {
+    if (value === false) continue
+    if (value === true) {
+      parts.push(name)
+      continue
+    }
+
+    const sources = [value].flat()
+    if (
+      nonce &&
+      (name === 'script-src' || name === 'style-src') &&
+      !sources.includes("'unsafe-inline'")
+    ) {
+      sources.push(`'nonce-${nonce}'`)
+    }
+    parts.push(`${name} ${sources.join(' ')}`)
+  }
+
+  return parts.join('; ')
+}
+
+function buildHsts(options: HstsOptions): string {
+  const {
+    maxAge = DEFAULT_HSTS_MAX_AGE,
+    includeSubDomains = true,
+    preload = false,
+  } = options
+  return [
+    `max-age=${maxAge}`,
+    includeSubDomains && 'includeSubDomains',
+    preload && 'preload',
+  ].filter(Boolean).join('; ')
+}
+
+/**
+ * Middleware that generates a CSP nonce (available as `c.var.cspNonce`)
+ * and sets security headers on every response. Headers already set by a
+ * handler are left untouched.
+ *
+ * @example
+ * ```typescript
+ * app.use('*', securityHeaders({
+ *   contentSecurityPolicy: { 'img-src': ["'self'", 'https://images.example.com'] },
+ * }))
+ * ```
+ */
+export function securityHeaders<E extends Env>(config: SecurityHeadersConfig = {}): MiddlewareHandler<E> {
+  const devServer = config.devServer ?? DEFAULT_DEV_SERVER
+
+  return async (c, next) => {
+    const nonce = createNonce()
+    c.set('cspNonce', nonce)
+
+    await next()
+
+    const dev = isDev(c, config.dev)
+    const headers: Record<string, string> = {}
+
+    if (config.contentSecurityPolicy !== false) {
+      const directives = {
+        ...(dev ? developmentDirectives(devServer) : productionDirectives()),
+        ...config.contentSecurityPolicy,
+      }
+      const name = config.reportOnly
+        ? 'Content-Security-Policy-Report-Only'
+        : 'Content-Security-Policy'
+      headers[name] = buildContentSecurityPolicy(directives, nonce)
+    }
+
+    if (config.hsts !== false && !dev) {
+      headers['Strict-Transport-Security'] = buildHsts(config.hsts ?? {})
+    }
+
+    if (config.frameOptions !== false) {
+      headers['X-Frame-Options'] = config.frameOptions ?? 'SAMEORIGIN'
+    }
+
+    if (config.referrerPolicy !== false) {
+      headers['Referrer-Policy'] = config.referrerPolicy ?? 'strict-origin-when-cross-origin'
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (!c.res.headers.has(name)) {
+        c.header(name, value)
+      }
+    }
+
+    // Return response for proper propagation in forwarding/proxy scenarios
+    return c.res
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Honertia Prop Serialization
+ *
+ * A tagged JSON encoding for values plain JSON loses or rejects: Date,
+ * BigInt, Map, Set and undefined. Encoded values are wrapped as
+ * `{ "$t": tag, "v": value }`; objects that already have a `$t` key are
+ * escaped, so any props round-trip.
+ *
+ * This module has no server dependencies and is shared with `honertia/react`.
+ */
+
+/**
+ * Converts resolved props into a JSON-safe value before they are sent,
+ * both in Inertia JSON responses and the HTML `data-page` payload.
+ */
+export interface PropSerializer {
+  serialize(props: Record<string, unknown>): Record<string, unknown>
+}
+
+const TAG = '$t'
+
+type Tagged =
+  | { $t: 'Date'; v: string | null }
+  | { $t: 'BigInt'; v: string }
+  | { $t: 'Map'; v: [unknown, unknown][] }
+  | { $t: 'Set'; v: unknown[] }
+  | { $t: 'undefined' }
+  | { $t: 'Object'; v: Record<string, unknown> }
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Encode a value with tagged Date, BigInt, Map, Set and undefined support.
+ * Other values follow `JSON.stringify` semantics (including `toJSON`).
+ */
+export function encodeProps(value: unknown): unknown {
+  if (value === undefined) return { [TAG]: 'undefined' } satisfies Tagged
+  if (typeof value === 'bigint') return { [TAG]: 'BigInt', v: value.toString() } satisfies Tagged
+  if (value === null || typeof value !== 'object') return value
+
+  if (value instanceof Date) {
+    const time = value.getTime()
+    return { [TAG]: 'Date', v: Number.isNaN(time) ? null : value.toISOString() } satisfies Tagged
+  }
+  if (value instanceof Map) {
+    return {
+      [TAG]: 'Map',
+      v: Array.from(value, ([k, v]) => [encodeProps(k), encodeProps(v)] as [unknown, unknown]),
+    } satisfies Tagged
+  }
+  if (value instanceof Set) {
+    return { [TAG]: 'Set', v: Array.from(value, encodeProps) } satisfies Tagged
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeProps)
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return encodeProps((value as { toJSON: () => unknown }).toJSON())
+  }
+
+  const encoded: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === 'function' || typeof entry === 'symbol') continue
+    encoded[key] = encodeProps(entry)
+  }
+  return TAG in encoded ? ({ [TAG]: 'Object', v: encoded } satisfies Tagged) : encoded
+}
+
+/**
+ * Decode a value produced by `encodeProps`.
+ */
+export function decodeProps<T = unknown>(value: unknown): T {
+  return decode(value) as T
+}
+
+function decode(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decode)
+  if (!isPlainRecord(value)) return value
+
+  if (typeof value[TAG] === 'string') {
+    const tagged = value as Tagged
+    switch (tagged.$t) {
+      case 'Date':
+        return new Date(tagged.v ?? Number.NaN)
+      case 'BigInt':
+        return BigInt(tagged.v)
+      case 'Map':
+        return new Map(tagged.v.map(([k, v]) => [decode(k), decode(v)]))
+      case 'Set':
+        return new Set(tagged.v.map(decode))
+      case 'undefined':
+        return undefined
+      case 'Object':
+        return decodeRecord(tagged.v)
+    }
+  }
+
+  return decodeRecord(value)
+}
+
+function decodeRecord(value: Record<string, unknown>): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    decoded[key] = decode(entry)
+  }
+  return decoded
+}
+
+/**
+ * Built-in serializer using the tagged encoding.
+ * Pair with `decodeProps` / `decodePage` from `honertia/react` on the client.
+ *
+ * @example
+ * ```typescript
+ * setupHonertia({ honertia: { version, render, serializer: taggedSerializer } })
+ * ```
+ */
+export const taggedSerializer: PropSerializer = {
+  serialize: (props) => encodeProps(props) as Record<string, unknown>,
+}
@@ -8,6 +8,8 @@
 import { createMiddleware } from 'hono/factory'
 import type { MiddlewareHandler, Env, Context } from 'hono'
 import { honertia } from './middleware.js'
+import { flashMiddleware, type FlashConfig } from './flash.js'
+import { securityHeaders, type SecurityHeadersConfig } from './security.js'
 import type { HonertiaConfig } from './types.js'
 import { loadUser, shareAuthMiddleware } from './effect/auth.js'
 import { effectBridge, type EffectBridgeConfig } from './effect/bridge.js'
@@ -108,6 +110,36 @@ export interface HonertiaSetupConfig<
     sessionCookie?: string
   }
 
+  /**
+   * Flash data configuration (optional).
+   * When set, flashed messages and redirect validation errors are stored in
+   * a signed cookie, or with a custom driver. Flash support is off by default.
+   *
+   * @example
+   * ```typescript
+   * flash: { secret: (c) => c.env.APP_KEY }
+   * flash: { driver: kvFlashDriver({ binding: 'SESSIONS' }) }
+   * ```
+   */
+  flash?: FlashConfig
+
+  /**
+   * Security headers configuration (optional).
+   * Pass `true` for the defaults or an object to customize them. When
+   * enabled, `createTemplate` applies the per-request CSP nonce to every
+   * script and style tag.
+   *
+   * Production defaults send a nonce-based CSP, HSTS, `X-Frame-Options:
+   * SAMEORIGIN` and `Referrer-Policy: strict-origin-when-cross-origin`.
+   * Development drops HSTS and allows the Vite dev server.
+   *
+   * @example
+   * ```typescript
+   * security: { contentSecurityPolicy: { 'img-src': ["'self'", 'https://cdn.example.com'] } }
+   * ```
+   */
+  security?: SecurityHeadersConfig | boolean
+
   /**
    * Additional middleware to run after core Honertia setup.
    * These run in order after effectBridge.
@@ -119,8 +151,10 @@ export interface HonertiaSetupConfig<
  * Sets up all Honertia middleware in the correct order.
  *
  * This bundles:
+ * - `securityHeaders()` - CSP nonce and security headers (when `security` is set)
  * - Database and auth setup (sets `c.var.db` and `c.var.auth`)
  * - `honertia()` - Core Honertia middleware
+ * - `flashMiddleware()` - Carries flash data and errors across redirects (when `flash` is set)
  * - `loadUser()` - Loads authenticated user into context
  * - `shareAuthMiddleware()` - Shares auth state with pages
  * - `effectBridge()` - Sets up Effect runtime for each request
@@ -144,6 +178,20 @@ export interface HonertiaSetupConfig<
  *   },
  * }))
  * ```
+ *
+ * @example Server-side rendering with client-only fallback
+ * ```ts
+ * app.use('*', setupHonertia({
+ *   honertia: {
+ *     version: '1.0.0',
+ *     render: createTemplate({ title: 'My App', scripts: [...] }),
+ *     ssr: {
+ *       module: () => import('./ssr'),
+ *       enabled: (c) => !c.req.path.startsWith('/dashboard'),
+ *     },
+ *   },
+ * }))
+ * ```
  */
 export function setupHonertia<
   E extends Env,
@@ -176,9 +224,13 @@ export function setupHonertia<
     schema: schema ?? config.effect?.schema,
   }
 
+  const security = config.security === true ? {} : config.security
+
   const middlewares: MiddlewareHandler<E>[] = [
+    ...(security ? [securityHeaders<E>(security)] : []),
     setupServices,
     honertia(honertiaConfig),
+    ...(config.flash ? [flashMiddleware<E>(config.flash)] : []),
     loadUser<E>(config.auth),
     shareAuthMiddleware<E>(config.auth),
     effectBridge<E, CustomServices>(effectConfig),
@@ -0,0 +1,135 @@
+/**
+ * Honertia Server-Side Rendering
+ *
+ * Gateway that renders a page object to `{ head, body }` HTML for full page
+ * loads. Failures never break the response: the page falls back to
+ * client-only rendering and the error is reported in structured form.
+ */
+
+import type { Context } from 'hono'
+import type { PageObject, SsrConfig, SsrModule, SsrRenderer, SsrResult } from './types.js'
+import { createStructuredError, ErrorCodes } from './effect/error-catalog.js'
+import { captureErrorContext } from './effect/error-context.js'
+import { TerminalErrorFormatter } from './effect/error-formatter.js'
+
+const DEFAULT_TIMEOUT = 1500
+
+const terminalFormatter = new TerminalErrorFormatter({
+  useColors: true,
+  showSnippet: false,
+  showFixes: true,
+})
+
+/**
+ * Memoized module loads, keyed by loader function.
+ */
+const moduleCache = new WeakMap<NonNullable<SsrConfig['module']>, Promise<SsrRenderer>>()
+
+function loadModuleRenderer(loader: NonNullable<SsrConfig['module']>): Promise<SsrRenderer> {
+  let cached = moduleCache.get(loader)
+  if (!cached) {
+    cached = Promise.resolve(loader()).then((mod: SsrModule) => {
+      const render = 'render' in mod ? mod.render : mod.default
+      if (typeof render !== 'function') {
+        throw new Error('SSR module must export a `render` function or a default renderer.')
+      }
+      return render
+    })
+    // Allow retrying after a failed import
+    cached.catch(() => moduleCache.delete(loader))
+    moduleCache.set(loader, cached)
+  }
+  return cached
+}
+
+async function renderOverHttp(url: string, page: PageObject, timeout: number): Promise<SsrResult> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(page),
+      signal: controller.signal,
+    })
+    if (!res.ok) {
+      throw new Error(`SSR server responded with ${res.status}`)
+    }
+    return (await res.json()) as SsrResult
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function isEnabled(config: SsrConfig, c: Context): boolean {
+  if (typeof config.enabled === 'function') {
+    return config.enabled(c)
+  }
+  return config.enabled ?? true
+}
+
+function assertResult(result: unknown): SsrResult {
+  const candidate = result as Partial<SsrResult> | null | undefined
+  if (!candidate || typeof candidate.body !== 'string') {
+    throw new Error('SSR renderer must return an object with a string `body`.')
+  }
+  return { head: candidate.head ?? [], body: candidate.body }
+}
+
+/**
+ * Report an SSR failure. Uses `onError` when configured, otherwise logs to
+ * the console (suppressed during tests).
+ */
+function reportFailure(config: SsrConfig, page: PageObject, error: unknown, c: Context): void {
+  const structured = createStructuredError(
+    ErrorCodes.SVC_702_SSR_FAILED,
+    {
+      component: page.component,
+      reason: error instanceof Error ? error.message : String(error),
+    },
+    captureErrorContext(c)
+  )
+
+  if (config.onError) {
+    config.onError(structured, c)
+    return
+  }
+
+  if (typeof Bun !== 'undefined' && Bun.env?.NODE_ENV === 'test') return
+  console.error(terminalFormatter.format(structured))
+}
+
+/**
+ * Render a page on the server.
+ *
+ * Tries the configured `render` function, then `module`, then `url`.
+ * Returns undefined when SSR is disabled or fails, signalling the template
+ * to fall back to client-only rendering.
+ */
+export async function renderSsr(
+  config: SsrConfig | undefined,
+  page: PageObject,
+  c: Context
+): Promise<SsrResult | undefined> {
+  if (!config || !isEnabled(config, c)) {
+    return undefined
+  }
+
+  try {
+    if (config.render) {
+      return assertResult(await config.render(page, c))
+    }
+    if (config.module) {
+      const render = await loadModuleRenderer(config.module)
+      return assertResult(await render(page, c))
+    }
+    if (config.url) {
+      return assertResult(await renderOverHttp(config.url, page, config.timeout ?? DEFAULT_TIMEOUT))
+    }
+    return undefined
+  } catch (error) {
+    reportFailure(config, page, error, c)
+    return undefined
+  }
+}
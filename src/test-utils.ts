@@ -29,6 +29,8 @@ export interface InertiaRequestOptions extends TestRequestOptions {
   partialComponent?: string
   partialData?: string
   partialExcept?: string
+  reset?: string
+  errorBag?: string
 }
 
 // =============================================================================
@@ -95,6 +97,8 @@ export function makeInertiaRequest(
     partialComponent,
     partialData,
     partialExcept,
+    reset,
+    errorBag,
   } = options
 
   const inertiaHeaders: Record<string, string> = {
@@ -118,6 +122,14 @@ export function makeInertiaRequest(
     inertiaHeaders[HEADERS.PARTIAL_EXCEPT] = partialExcept
   }
 
+  if (reset) {
+    inertiaHeaders[HEADERS.RESET] = reset
+  }
+
+  if (errorBag) {
+    inertiaHeaders[HEADERS.ERROR_BAG] = errorBag
+  }
+
   return app.request(path, {
     method,
     headers: inertiaHeaders,
@@ -205,6 +217,27 @@ export function assertVersionMismatch(res: Response, expectedLocation?: string)
   }
 }
 
+/**
+ * Asserts that a response is an external redirect: a 409 with
+ * X-Inertia-Location for Inertia requests, or a 3xx with Location otherwise
+ */
+export function assertExternalRedirect(res: Response, expectedLocation?: string) {
+  const isInertia = res.status === 409
+  if (!isInertia && (res.status < 300 || res.status >= 400)) {
+    throw new Error(`Expected status 409 or 3xx, got ${res.status}`)
+  }
+
+  const header = isInertia ? HEADERS.LOCATION : 'Location'
+  const location = res.headers.get(header)
+  if (!location) {
+    throw new Error(`Missing ${header} header`)
+  }
+
+  if (expectedLocation !== undefined && location !== expectedLocation) {
+    throw new Error(`Expected location ${expectedLocation}, got ${location}`)
+  }
+}
+
 /**
  * Asserts that a page object has the expected structure
  */
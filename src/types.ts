@@ -3,24 +3,114 @@
  */
 
 import type { Context } from 'hono'
+import type { HonertiaStructuredError } from './effect/error-types.js'
+import type { PropSerializer } from './serializer.js'
+import type { SharedPropKey, SharedPropValue } from './effect/services.js'
 
 export interface PageObject<TProps = Record<string, unknown>> {
   component: string
   props: TProps & { errors?: Record<string, string> }
   url: string
   version: string
+  /** Deferred prop keys, grouped by the name they are fetched under */
+  deferredProps?: Record<string, string[]>
+  /** Prop keys the client should append to instead of replace */
+  mergeProps?: string[]
+  /** Prop keys the client should deep-merge instead of replace */
+  deepMergeProps?: string[]
   clearHistory?: boolean
   encryptHistory?: boolean
+  /** Document head entries set by the handler */
+  head?: PageHead
+}
+
+/**
+ * A `<meta>` tag. `httpEquiv` is rendered as `http-equiv`.
+ */
+export interface HeadMeta {
+  name?: string
+  property?: string
+  httpEquiv?: string
+  charset?: string
+  content?: string
+  [attribute: string]: string | undefined
+}
+
+/**
+ * A `<link>` tag.
+ */
+export interface HeadLink {
+  rel: string
+  href: string
+  [attribute: string]: string | undefined
+}
+
+/**
+ * Document head entries collected during a request.
+ */
+export interface PageHead {
+  title?: string
+  meta?: HeadMeta[]
+  link?: HeadLink[]
+  /** JSON-LD documents, rendered as `<script type="application/ld+json">` */
+  jsonLd?: Record<string, unknown>[]
 }
 
 export interface HonertiaConfig {
   version: string | (() => string)
-  render: (page: PageObject, ctx?: Context) => string | Promise<string>
+  render: (page: PageObject, ctx?: Context, ssr?: SsrResult) => string | Promise<string>
+  /**
+   * Server-side rendering for full page loads.
+   * When omitted, pages are rendered on the client only.
+   */
+  ssr?: SsrConfig
+  /**
+   * Converts resolved props into a JSON-safe value before they are sent.
+   * Use `taggedSerializer` to preserve Date, BigInt, Map, Set and undefined.
+   * Defaults to plain JSON.
+   */
+  serializer?: PropSerializer
+  /**
+   * Send an ETag with Inertia JSON responses and answer matching
+   * `If-None-Match` requests with 304 Not Modified.
+   * @default true
+   */
+  etag?: boolean
+}
+
+/**
+ * Output of a server-side render.
+ * `body` replaces the root element and must include its `data-page` attribute.
+ */
+export interface SsrResult {
+  head: string | string[]
+  body: string
+}
+
+export type SsrRenderer = (page: PageObject, ctx?: Context) => SsrResult | Promise<SsrResult>
+
+export type SsrModule = { render: SsrRenderer } | { default: SsrRenderer }
+
+export interface SsrConfig {
+  /** Render in-process with a user-supplied function. */
+  render?: SsrRenderer
+  /** Lazily import a local SSR bundle exporting `render` (or a default renderer). */
+  module?: () => SsrModule | Promise<SsrModule>
+  /** POST the page object to an SSR server (e.g. `http://127.0.0.1:13714/render`). */
+  url?: string
+  /** Abort HTTP SSR requests after this many milliseconds. Defaults to 1500. */
+  timeout?: number
+  /** Toggle SSR globally or per request. Defaults to true. */
+  enabled?: boolean | ((ctx: Context) => boolean)
+  /** Called with the structured error when SSR fails and the page falls back to client rendering. */
+  onError?: (error: HonertiaStructuredError, ctx: Context) => void
 }
 
 export interface RenderOptions {
   clearHistory?: boolean
   encryptHistory?: boolean
+  /** Cache-Control header for the Inertia JSON response (and its 304s) */
+  cacheControl?: string
 }
 
 export interface HonertiaInstance {
@@ -30,9 +120,11 @@ export interface HonertiaInstance {
     options?: RenderOptions
   ): Response | Promise<Response>
   
-  share(key: string, value: unknown | (() => unknown | Promise<unknown>)): void
+  share<K extends SharedPropKey>(key: K, value: SharedPropValue<K>): void
   getShared(): Record<string, unknown>
-  setErrors(errors: Record<string, string>): void
+  setErrors(errors: Record<string, string>, bag?: string): void
+  setHead(head: PageHead): void
+  getHead(): PageHead
 }
 
 export const HEADERS = {
@@ -41,5 +133,7 @@ export const HEADERS = {
   PARTIAL_COMPONENT: 'X-Inertia-Partial-Component',
   PARTIAL_DATA: 'X-Inertia-Partial-Data',
   PARTIAL_EXCEPT: 'X-Inertia-Partial-Except',
+  RESET: 'X-Inertia-Reset',
+  ERROR_BAG: 'X-Inertia-Error-Bag',
   LOCATION: 'X-Inertia-Location',
 } as const
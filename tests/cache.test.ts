@@ -10,6 +10,7 @@ import {
   cacheInvalidate,
   cacheInvalidatePrefix,
   CacheError,
+  createMemoryCacheClient,
   type CacheClient,
   type CacheOptions,
   type ExecutionContextClient,
@@ -1067,4 +1068,26 @@ describe('cache', () => {
       }).pipe(Effect.provide(layer), Effect.runPromise)
     })
   })
+
+  describe('createMemoryCacheClient()', () => {
+    it('expires entries after their TTL and lists by prefix', async () => {
+      let now = 1_000_000
+      const client = createMemoryCacheClient({ 'user:1': 'seeded' }, () => now)
+
+      await Effect.gen(function* () {
+        yield* client.put('user:2', 'short', { expirationTtl: 60 })
+        yield* client.put('post:1', 'kept')
+
+        expect((yield* client.list({ prefix: 'user:' })).keys).toEqual([
+          { name: 'user:1' },
+          { name: 'user:2' },
+        ])
+
+        now += 60_000
+        expect(yield* client.get('user:2')).toBeNull()
+        expect(yield* client.get('user:1')).toBe('seeded')
+        expect((yield* client.list()).keys).toEqual([{ name: 'post:1' }, { name: 'user:1' }])
+      }).pipe(Effect.runPromise)
+    })
+  })
 })
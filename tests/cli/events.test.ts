@@ -0,0 +1,83 @@
+/**
+ * CLI Events Command Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Effect, Schema as S } from 'effect'
+import {
+  eventsCommand,
+  parseEventsArgs,
+  eventsHelp,
+  EventRegistry,
+} from '../../src/cli/index.js'
+import { defineEvent, listen } from '../../src/effect/events.js'
+
+const createTestRegistry = (): EventRegistry => {
+  const registry = new EventRegistry()
+  const orderPlaced = defineEvent('order.placed', S.Struct({ orderId: S.String }), registry)
+  const orderShipped = defineEvent('order.shipped', S.Struct({ orderId: S.String }), registry)
+  defineEvent('user.registered', S.Struct({ userId: S.String }), registry)
+
+  listen(orderPlaced, () => Effect.void, { name: 'UpdateSalesTotals', registry })
+  listen(orderPlaced, () => Effect.void, { name: 'SendReceipt', deferred: true, registry })
+  listen(orderShipped, () => Effect.void, { name: 'NotifyCustomer', deferred: true, registry })
+
+  return registry
+}
+
+describe('eventsCommand', () => {
+  test('formats events and listeners as a table', () => {
+    const result = eventsCommand(createTestRegistry())
+
+    expect(result.count).toBe(3)
+    expect(result.output.split('\n')).toEqual([
+      'EVENT            LISTENERS',
+      '---------------  ---------',
+      'order.placed     UpdateSalesTotals',
+      '                 SendReceipt (deferred)',
+      'order.shipped    NotifyCustomer (deferred)',
+      'user.registered  -',
+      '',
+      'Total: 3 events, 3 listeners',
+    ])
+  })
+
+  test('outputs JSON and filters by prefix', () => {
+    const result = eventsCommand(createTestRegistry(), { format: 'json', prefix: 'order.' })
+
+    expect(JSON.parse(result.output)).toEqual([
+      {
+        name: 'order.placed',
+        listeners: [
+          { name: 'UpdateSalesTotals', deferred: false },
+          { name: 'SendReceipt', deferred: true },
+        ],
+      },
+      { name: 'order.shipped', listeners: [{ name: 'NotifyCustomer', deferred: true }] },
+    ])
+  })
+
+  test('formats a minimal list', () => {
+    const result = eventsCommand(createTestRegistry(), { format: 'minimal', prefix: 'user.' })
+
+    expect(result.output).toBe('user.registered: -')
+  })
+
+  test('reports an empty registry', () => {
+    expect(eventsCommand(new EventRegistry()).output).toBe('No events found.')
+  })
+})
+
+describe('parseEventsArgs', () => {
+  test('parses format and prefix flags', () => {
+    expect(parseEventsArgs(['--json', '-p', 'order.'])).toEqual({ format: 'json', prefix: 'order.' })
+    expect(parseEventsArgs(['--minimal'])).toEqual({ format: 'minimal' })
+  })
+})
+
+describe('eventsHelp', () => {
+  test('documents the command', () => {
+    expect(eventsHelp()).toContain('honertia events')
+    expect(eventsHelp()).toContain('--prefix')
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * CLI Page Types Generation Tests
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  generatePages,
+  exportsPropsType,
+  parseGeneratePagesArgs,
+} from '../../src/cli/index.js'
+
+const tmpRoot = join(process.cwd(), 'tmp', 'generate-pages')
+
+function writePage(path: string, source: string): void {
+  const file = join(tmpRoot, 'src/pages', path)
+  mkdirSync(join(file, '..'), { recursive: true })
+  writeFileSync(file, source.trim())
+}
+
+describe('generatePages', () => {
+  beforeAll(() => {
+    writePage('Projects/Show.tsx', `
+export type Props = { project: { id: string } }
+export default function Show(props: Props) { return null }
+`)
+    writePage('Projects/Index.tsx', `
+export interface Props { projects: string[] }
+export default function Index(props: Props) { return null }
+`)
+    writePage('Dashboard.tsx', `
+export default function Dashboard() { return null }
+`)
+    writePage('Projects/Show.test.tsx', 'export {}')
+    writePage('env.d.ts', 'export {}')
+  })
+
+  afterAll(() => {
+    rmSync(tmpRoot, { recursive: true, force: true })
+  })
+
+  test('maps each page to its exported props type', () => {
+    const result = generatePages({ cwd: tmpRoot })
+
+    expect(result.path).toBe('src/types/pages.d.ts')
+    expect(result.pages).toEqual([
+      { component: 'Dashboard', file: 'src/pages/Dashboard.tsx', typed: false },
+      { component: 'Projects/Index', file: 'src/pages/Projects/Index.tsx', typed: true },
+      { component: 'Projects/Show', file: 'src/pages/Projects/Show.tsx', typed: true },
+    ])
+    expect(result.content).toContain("declare module 'honertia/effect'")
+    expect(result.content).toContain('interface HonertiaPages')
+    expect(result.content).toContain(`"Projects/Show": import('../pages/Projects/Show').Props`)
+    expect(result.content).toContain('"Dashboard": Record<string, unknown>')
+    expect(result.content).toContain('export {}')
+  })
+
+  test('resolves import paths relative to a custom output', () => {
+    const result = generatePages({ cwd: tmpRoot, output: 'src/pages.d.ts' })
+
+    expect(result.content).toContain(`import('./pages/Projects/Index').Props`)
+  })
+
+  test('supports a custom props type name', () => {
+    writePage('Settings.tsx', 'export type PageProps = { theme: string }')
+
+    try {
+      const result = generatePages({ cwd: tmpRoot, propsType: 'PageProps' })
+
+      expect(result.content).toContain(`"Settings": import('../pages/Settings').PageProps`)
+      expect(result.content).toContain('"Projects/Show": Record<string, unknown>')
+    } finally {
+      rmSync(join(tmpRoot, 'src/pages/Settings.tsx'))
+    }
+  })
+
+  test('generates an empty registry when the pages directory is missing', () => {
+    const result = generatePages({ cwd: tmpRoot, pagesDir: 'missing' })
+
+    expect(result.pages).toEqual([])
+    expect(result.content).toContain('interface HonertiaPages {\n\n  }')
+  })
+})
+
+describe('exportsPropsType', () => {
+  test('detects declarations and export lists', () => {
+    expect(exportsPropsType('export type Props = {}', 'Props')).toBe(true)
+    expect(exportsPropsType('export interface Props {}', 'Props')).toBe(true)
+    expect(exportsPropsType('type P = {}\nexport type { P as Props }', 'Props')).toBe(true)
+    expect(exportsPropsType("export { type Props } from './shared'", 'Props')).toBe(true)
+  })
+
+  test('ignores private and similarly named types', () => {
+    expect(exportsPropsType('type Props = {}', 'Props')).toBe(false)
+    expect(exportsPropsType('export type PropsBase = {}', 'Props')).toBe(false)
+  })
+})
+
+describe('parseGeneratePagesArgs', () => {
+  test('parses options', () => {
+    const options = parseGeneratePagesArgs([
+      '--pages', 'app/pages',
+      '-o', 'app/pages.d.ts',
+      '--props-type', 'PageProps',
+      '--preview',
+    ])
+
+    expect(options).toEqual({
+      pagesDir: 'app/pages',
+      output: 'app/pages.d.ts',
+      propsType: 'PageProps',
+      preview: true,
+    })
+  })
+})
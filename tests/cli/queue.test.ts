@@ -0,0 +1,123 @@
+/**
+ * CLI Queue Command Tests
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test'
+import { Duration, Effect, Schema as S } from 'effect'
+import { join } from 'node:path'
+import { rmSync } from 'node:fs'
+import {
+  queueFailedCommand,
+  parseQueueWorkArgs,
+  parseQueueFailedArgs,
+  queueWorkHelp,
+  queueFailedHelp,
+  formatJobAttempt,
+} from '../../src/cli/index.js'
+import { JobRegistry, createLocalQueue, defineJob } from '../../src/effect/queue.js'
+
+const tmpDir = join(process.cwd(), 'tmp', 'cli-queue-test')
+
+afterAll(() => rmSync(tmpDir, { recursive: true, force: true }))
+
+const createFailedQueue = async (name: string) => {
+  const registry = new JobRegistry()
+  const job = defineJob('send-invoice', S.Struct({ id: S.Number }), () => Effect.fail('smtp down'), {
+    tries: 1,
+    registry,
+  })
+  const queue = createLocalQueue({ path: join(tmpDir, `${name}.json`), registry })
+
+  await Effect.runPromise(queue.client.dispatch(job, { id: 1 }))
+  await Effect.runPromise(queue.client.dispatch(job, { id: 2 }))
+  await queue.work()
+
+  return queue
+}
+
+describe('queueFailedCommand', () => {
+  test('lists failed jobs as a table and JSON', async () => {
+    const queue = await createFailedQueue('list')
+
+    const table = await queueFailedCommand(queue)
+    const lines = table.output.split('\n')
+    expect(table.count).toBe(2)
+    expect(lines[0]).toMatch(/^ID\s+JOB\s+ATTEMPTS\s+FAILED AT\s+ERROR$/)
+    expect(lines[2]).toContain('send-invoice')
+    expect(lines[2]).toContain('smtp down')
+    expect(lines.at(-1)).toBe('Total: 2 failed jobs')
+
+    const json = await queueFailedCommand(queue, { json: true })
+    expect(JSON.parse(json.output).map((job: { payload: unknown }) => job.payload)).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ])
+  })
+
+  test('retries, forgets and flushes failed jobs', async () => {
+    const queue = await createFailedQueue('manage')
+    const [first] = await Effect.runPromise(queue.failed.list())
+
+    const retried = await queueFailedCommand(queue, { action: 'retry', id: first.id })
+    expect(retried.output).toBe('Queued 1 failed job for retry.')
+    expect(retried.jobs).toHaveLength(1)
+    expect((await queue.pending()).map((job) => job.id)).toEqual([first.id])
+
+    const forgotten = await queueFailedCommand(queue, { action: 'forget', id: retried.jobs[0].id })
+    expect(forgotten.output).toBe(`Forgot failed job ${retried.jobs[0].id}.`)
+
+    await queue.work()
+    const flushed = await queueFailedCommand(queue, { action: 'flush' })
+    expect(flushed.output).toBe('Flushed 1 failed job.')
+    expect((await queueFailedCommand(queue)).output).toBe('No failed jobs.')
+  })
+
+  test('reports unknown and missing IDs', async () => {
+    const queue = await createFailedQueue('errors')
+
+    expect((await queueFailedCommand(queue, { action: 'forget' })).error).toBe(
+      'queue:failed forget requires a job ID'
+    )
+    expect((await queueFailedCommand(queue, { action: 'retry', id: 'nope' })).error).toBe(
+      'No failed job with ID nope'
+    )
+  })
+})
+
+describe('formatJobAttempt', () => {
+  test('formats each outcome on one line', () => {
+    const job = { id: 'j1', job: 'sync', payload: {}, attempts: 0, dispatchedAt: '', availableAt: 0 }
+
+    expect(formatJobAttempt(job, { status: 'completed' })).toBe('DONE   sync j1')
+    expect(
+      formatJobAttempt(job, { status: 'retry', delay: Duration.seconds(10), error: 'Error: offline\n  at x' })
+    ).toBe('RETRY  sync j1 in 10s: Error: offline')
+    expect(formatJobAttempt(job, { status: 'failed', error: 'boom' })).toBe('FAIL   sync j1: boom')
+  })
+})
+
+describe('parseQueueWorkArgs', () => {
+  test('parses entry, path, once and sleep', () => {
+    expect(parseQueueWorkArgs(['-e', './src/jobs.ts', '--path', 'q.json', '--once', '--sleep', '250'])).toEqual({
+      entry: './src/jobs.ts',
+      path: 'q.json',
+      once: true,
+      sleep: 250,
+    })
+  })
+})
+
+describe('parseQueueFailedArgs', () => {
+  test('parses the action, ID and flags', () => {
+    expect(parseQueueFailedArgs(['retry', 'all', '--json'])).toEqual({ action: 'retry', id: 'all', json: true })
+    expect(parseQueueFailedArgs(['--path', 'q.json'])).toEqual({ path: 'q.json' })
+  })
+})
+
+describe('queue help', () => {
+  test('documents the commands', () => {
+    expect(queueWorkHelp()).toContain('honertia queue:work')
+    expect(queueWorkHelp()).toContain('--entry')
+    expect(queueFailedHelp()).toContain('honertia queue:failed retry <id|all>')
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * CLI Routes Client Generation Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  generateRoutesClient,
+  parseGenerateRoutesClientArgs,
+  RouteRegistry,
+} from '../../src/cli/index.js'
+
+const createTestRegistry = () => {
+  const registry = new RouteRegistry()
+
+  registry.register({
+    method: 'get',
+    path: '/projects',
+    honoPath: '/projects',
+    fullPath: '/projects',
+    bindings: [],
+    prefix: '',
+    name: 'projects.index',
+  })
+
+  registry.register({
+    method: 'get',
+    path: '/projects/{project:slug}',
+    honoPath: '/projects/:project',
+    fullPath: '/projects/:project',
+    bindings: [{ param: 'project', column: 'slug' }],
+    prefix: '',
+    name: 'projects.show',
+  })
+
+  registry.register({
+    method: 'get',
+    path: '/tasks/{task}',
+    honoPath: '/tasks/:task',
+    fullPath: '/orgs/:org/tasks/:task',
+    bindings: [{ param: 'task', column: 'id' }],
+    prefix: '/orgs/:org',
+    name: 'tasks.show',
+  })
+
+  registry.register({
+    method: 'get',
+    path: '/health',
+    honoPath: '/health',
+    fullPath: '/health',
+    bindings: [],
+    prefix: '',
+  })
+
+  return registry
+}
+
+describe('generateRoutesClient', () => {
+  test('includes named routes only, sorted by name', () => {
+    const result = generateRoutesClient(createTestRegistry())
+
+    expect(result.path).toBe('src/generated/routes.ts')
+    expect(result.routes.map((route) => route.name)).toEqual([
+      'projects.index',
+      'projects.show',
+      'tasks.show',
+    ])
+    expect(result.content).not.toContain('/health')
+  })
+
+  test('extracts params from the full path with binding columns', () => {
+    const result = generateRoutesClient(createTestRegistry())
+    const tasks = result.routes.find((route) => route.name === 'tasks.show')
+
+    expect(tasks?.params).toEqual([
+      { name: 'org', column: 'id', optional: false },
+      { name: 'task', column: 'id', optional: false },
+    ])
+  })
+
+  test('emits typed params and route definitions', () => {
+    const { content } = generateRoutesClient(createTestRegistry())
+
+    expect(content).toContain("import { createRouteHelper, type RouteParamValue } from 'honertia/routes'")
+    expect(content).toContain('"projects.index": Record<never, never>')
+    expect(content).toContain('"projects.show": { project: RouteParamValue<"slug"> }')
+    expect(content).toContain('"tasks.show": { org: RouteParamValue<"id">; task: RouteParamValue<"id"> }')
+    expect(content).toContain(
+      '"projects.show": { method: "get", path: "/projects/:project", bindings: { project: "slug" } },'
+    )
+    expect(content).toContain('"tasks.show": { method: "get", path: "/orgs/:org/tasks/:task" },')
+    expect(content).toContain('export const route = createRouteHelper<RouteParams>(routes)')
+  })
+
+  test('marks optional params', () => {
+    const registry = new RouteRegistry()
+    registry.register({
+      method: 'get',
+      path: '/posts/:page?',
+      honoPath: '/posts/:page?',
+      fullPath: '/posts/:page?',
+      bindings: [],
+      prefix: '',
+      name: 'posts.index',
+    })
+
+    const { content } = generateRoutesClient(registry)
+
+    expect(content).toContain('"posts.index": { page?: RouteParamValue<"id"> }')
+  })
+
+  test('supports custom output and import source', () => {
+    const result = generateRoutesClient(createTestRegistry(), {
+      output: 'app/routes.ts',
+      importFrom: '../lib/routes',
+    })
+
+    expect(result.path).toBe('app/routes.ts')
+    expect(result.content).toContain("from '../lib/routes'")
+  })
+})
+
+describe('parseGenerateRoutesClientArgs', () => {
+  test('parses options', () => {
+    expect(parseGenerateRoutesClientArgs(['-o', 'app/routes.ts', '--import-from', 'x', '--json'])).toEqual({
+      output: 'app/routes.ts',
+      importFrom: 'x',
+      json: true,
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * CLI Schedule Command Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Effect } from 'effect'
+import {
+  scheduleListCommand,
+  scheduleRunCommand,
+  parseScheduleListArgs,
+  parseScheduleRunArgs,
+  scheduleRunHelp,
+  ScheduleRegistry,
+} from '../../src/cli/index.js'
+import { defineSchedule } from '../../src/effect/schedule.js'
+
+const createTestRegistry = (ran: string[] = []): ScheduleRegistry => {
+  const registry = new ScheduleRegistry()
+  defineSchedule('0 * * * *', Effect.sync(() => ran.push('prune')), {
+    name: 'prune-sessions',
+    registry,
+  })
+  defineSchedule('*/15 * * * *', Effect.fail('offline'), { name: 'sync-stripe', registry })
+  return registry
+}
+
+describe('scheduleListCommand', () => {
+  test('formats schedules as a table', () => {
+    const result = scheduleListCommand(createTestRegistry())
+
+    expect(result.count).toBe(2)
+    expect(result.output.split('\n')).toEqual([
+      'NAME            CRON          OVERLAP',
+      '--------------  ------------  -------',
+      'prune-sessions  0 * * * *     allowed',
+      'sync-stripe     */15 * * * *  allowed',
+      '',
+      'Total: 2 schedules',
+    ])
+  })
+
+  test('outputs JSON and minimal formats', () => {
+    const registry = createTestRegistry()
+
+    expect(JSON.parse(scheduleListCommand(registry, { format: 'json' }).output)[0]).toEqual({
+      name: 'prune-sessions',
+      cron: '0 * * * *',
+      withoutOverlapping: false,
+    })
+    expect(scheduleListCommand(registry, { format: 'minimal' }).output).toBe(
+      'prune-sessions: 0 * * * *\nsync-stripe: */15 * * * *'
+    )
+    expect(scheduleListCommand(new ScheduleRegistry()).output).toBe('No schedules found.')
+  })
+})
+
+describe('scheduleRunCommand', () => {
+  test('runs a task by name', async () => {
+    const ran: string[] = []
+
+    const result = await scheduleRunCommand(createTestRegistry(ran), 'prune-sessions')
+
+    expect(result.output).toBe('Ran prune-sessions (0 * * * *)')
+    expect(ran).toEqual(['prune'])
+  })
+
+  test('reports failures and unknown names', async () => {
+    const registry = createTestRegistry()
+
+    expect((await scheduleRunCommand(registry, 'sync-stripe')).error).toContain('sync-stripe failed:')
+    expect((await scheduleRunCommand(registry, 'nope')).error).toBe(
+      "No schedule named 'nope'. Available: prune-sessions, sync-stripe"
+    )
+    expect((await scheduleRunCommand(registry, undefined)).error).toBe('schedule:run requires a schedule name')
+  })
+})
+
+describe('schedule args', () => {
+  test('parses list and run arguments', () => {
+    expect(parseScheduleListArgs(['--json', '-e', './src/schedules.ts'])).toEqual({
+      format: 'json',
+      entry: './src/schedules.ts',
+    })
+    expect(parseScheduleRunArgs(['prune-sessions', '--entry', './src/schedules.ts'])).toEqual({
+      name: 'prune-sessions',
+      entry: './src/schedules.ts',
+    })
+  })
+
+  test('documents schedule:run', () => {
+    expect(scheduleRunHelp()).toContain('honertia schedule:run <name> --entry <module>')
+  })
+})
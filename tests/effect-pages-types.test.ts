@@ -0,0 +1,86 @@
+/**
+ * Compile-time type tests for augmented HonertiaPages and HonertiaSharedProps.
+ * If this file compiles, the types are correct. It lives apart from
+ * effect-types.test.ts, which checks the unaugmented fallbacks. Check it with:
+ *
+ *   npx tsc --noEmit --target ES2022 --module ESNext --moduleResolution bundler \
+ *     --strict --skipLibCheck --lib ES2022,DOM tests/effect-pages-types.test.ts
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Hono } from 'hono'
+import {
+  effectAuthRoutes,
+  render,
+  renderWithErrors,
+  share,
+  defer,
+  type PageName,
+} from '../src/effect/index.js'
+
+declare module '../src/effect/index.js' {
+  interface HonertiaPages {
+    'Projects/Show': { project: { id: string }; stats?: number }
+    'Auth/SignIn': { canResetPassword: boolean }
+    Dashboard: {}
+  }
+  interface HonertiaSharedProps {
+    appName: string
+  }
+}
+
+/** Assert two types are exactly equal */
+type AssertEqual<T, U> = [T] extends [U] ? ([U] extends [T] ? true : false) : false
+
+const _pageNames: AssertEqual<PageName, 'Projects/Show' | 'Auth/SignIn' | 'Dashboard'> = true
+
+const _renderWithProps = render('Projects/Show', { project: { id: '1' }, stats: defer(() => 1) })
+const _renderWithoutProps = render('Dashboard')
+const _renderWithErrors = renderWithErrors('Auth/SignIn', { email: 'Invalid' }, { canResetPassword: true })
+
+// @ts-expect-error unknown page
+const _unknownPage = render('Projects/Missing')
+// @ts-expect-error required props are missing
+const _missingProps = render('Projects/Show')
+// @ts-expect-error prop has the wrong type
+const _wrongProps = render('Projects/Show', { project: { id: 1 } })
+
+const _shareDeclared = share('appName', 'Acme')
+const _shareLazy = share('appName', () => Promise.resolve('Acme'))
+const _shareBuiltin = share('flash', { success: 'Saved' })
+// @ts-expect-error undeclared shared prop
+const _shareUnknown = share('theme', 'dark')
+// @ts-expect-error shared prop has the wrong type
+const _shareWrongValue = share('appName', 1)
+
+// The default auth pages render without being declared in HonertiaPages
+const registerAuthRoutes = () => {
+  effectAuthRoutes(new Hono())
+  effectAuthRoutes(new Hono(), { loginComponent: 'Auth/SignIn' })
+  // @ts-expect-error custom auth components must be declared pages
+  effectAuthRoutes(new Hono(), { loginComponent: 'Auth/Missing' })
+}
+
+describe('Augmented page types', () => {
+  test('render and share accept declared pages and props', () => {
+    expect(_pageNames).toBe(true)
+    expect(_renderWithProps).toBeDefined()
+    expect(_renderWithoutProps).toBeDefined()
+    expect(_renderWithErrors).toBeDefined()
+    expect(_shareDeclared).toBeDefined()
+    expect(_shareLazy).toBeDefined()
+    expect(_shareBuiltin).toBeDefined()
+  })
+
+  test('rejected calls still build effects at runtime', () => {
+    expect(_unknownPage).toBeDefined()
+    expect(_missingProps).toBeDefined()
+    expect(_wrongProps).toBeDefined()
+    expect(_shareUnknown).toBeDefined()
+    expect(_shareWrongValue).toBeDefined()
+  })
+
+  test('effectAuthRoutes registers the default auth pages', () => {
+    expect(registerAuthRoutes).not.toThrow()
+  })
+})
@@ -31,6 +31,16 @@ import {
   type Validated,
   type Trusted,
   type SafeTx,
+  type PageName,
+  type PageRenderProps,
+  render,
+  defer,
+  CacheService,
+  EventRegistry,
+  ScheduleRegistry,
+  defineEvent,
+  defineSchedule,
+  listen,
 } from '../src/effect/index.js'
 
 // ============================================================================
@@ -133,6 +143,12 @@ const _authUserHasCustomFields: AssertExtends<AuthUser, { user: { isAnonymous: b
 type DefaultHasCustomFields = DefaultAuthUser extends { user: { isAnonymous: boolean } } ? true : false
 const _defaultNoCustomFields: DefaultHasCustomFields = false
 
+// HonertiaPages is not augmented here, so any component and props are accepted
+const _pageNameFallback: AssertEqual<PageName, string> = true
+const _pagePropsFallback: AssertEqual<PageRenderProps<'Anything'>, object> = true
+const _renderWithoutProps = render('Dashboard')
+const _renderWithProps = render('Projects/Show', { project: { id: '1' }, stats: defer(() => 1) })
+
 // ============================================================================
 // Service Type Tests
 // ============================================================================
@@ -377,6 +393,33 @@ const _testDbTransaction = Effect.gen(function* () {
   })
 })
 
+// ============================================================================
+// Listener and Schedule Requirement Tests
+// ============================================================================
+
+class ReportService extends Context.Tag('test/ReportService')<ReportService, { send: () => void }>() {}
+
+const SignedUp = defineEvent('user.signed-up', S.Struct({ userId: S.String }), new EventRegistry())
+const listenerRegistry = new EventRegistry()
+const scheduleRegistry = new ScheduleRegistry()
+const useReports = Effect.map(ReportService, (reports) => reports.send())
+
+// Listeners and schedules may use the services effectBridge provides
+listen(SignedUp, ({ userId }) => Effect.flatMap(CacheService, (cache) => cache.get(userId)), {
+  registry: listenerRegistry,
+})
+defineSchedule('0 * * * *', Effect.flatMap(CacheService, (cache) => cache.delete('stale')), {
+  registry: scheduleRegistry,
+})
+
+// Custom services must be passed as a type argument
+// @ts-expect-error ReportService is not provided by effectBridge
+listen(SignedUp, () => useReports, { registry: listenerRegistry })
+listen<typeof SignedUp, ReportService>(SignedUp, () => useReports, { registry: listenerRegistry })
+// @ts-expect-error ReportService is not provided by effectBridge
+defineSchedule('0 8 * * *', useReports, { registry: scheduleRegistry })
+defineSchedule<ReportService>('0 9 * * *', useReports, { registry: scheduleRegistry })
+
 // ============================================================================
 // Runtime Tests
 // ============================================================================
@@ -410,6 +453,11 @@ describe('Effect type tests', () => {
     expect(_authUserType).toBe(true)
     expect(_authUserHasCustomFields).toBe(true)
     expect(_defaultNoCustomFields).toBe(false)
+    // HonertiaPages fallback assertions
+    expect(_pageNameFallback).toBe(true)
+    expect(_pagePropsFallback).toBe(true)
+    expect(_renderWithoutProps).toBeDefined()
+    expect(_renderWithProps).toBeDefined()
   })
 
   test('effect generators are properly typed', () => {
@@ -442,4 +490,8 @@ describe('Effect type tests', () => {
     expect(_testScopedDbMutation).toBeDefined()
     expect(_testDbTransaction).toBeDefined()
   })
+  test('listeners and schedules register regardless of their requirements', () => {
+    expect(listenerRegistry.listenersFor(SignedUp.name)).toHaveLength(3)
+    expect(scheduleRegistry.all()).toHaveLength(3)
+  })
 })
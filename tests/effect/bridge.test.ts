@@ -0,0 +1,137 @@
+/**
+ * Effect Bridge Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Context, Effect, Layer } from 'effect'
+import { Hono } from 'hono'
+import { RequestService, effectRoutes } from '../../src/effect/index.js'
+import { effectBridge, getEffectRuntime } from '../../src/effect/bridge.js'
+
+class Counter extends Context.Tag('test/Counter')<Counter, { readonly id: number }>() {}
+class Greeting extends Context.Tag('test/Greeting')<Greeting, string>() {}
+
+describe('effectBridge', () => {
+  test('builds the static layer once per app', async () => {
+    let builds = 0
+    const app = new Hono()
+    app.use('*', effectBridge<any, Counter>({
+      layer: Layer.sync(Counter, () => ({ id: ++builds })),
+    }))
+    effectRoutes(app).get('/', Effect.map(Counter, (counter) => Response.json(counter)))
+
+    const first = await app.request('/')
+    const second = await app.request('/')
+
+    expect(await first.json()).toEqual({ id: 1 })
+    expect(await second.json()).toEqual({ id: 1 })
+    expect(builds).toBe(1)
+  })
+
+  test('builds the services layer for every request', async () => {
+    const app = new Hono()
+    app.use('*', effectBridge<any, Greeting>({
+      services: (c) => Layer.succeed(Greeting, `hello ${c.req.query('name')}`),
+    }))
+    effectRoutes(app).get('/', Effect.map(Greeting, (greeting) => new Response(greeting)))
+
+    expect(await (await app.request('/?name=ada')).text()).toBe('hello ada')
+    expect(await (await app.request('/?name=grace')).text()).toBe('hello grace')
+  })
+
+  test('lets the services layer depend on request services', async () => {
+    const app = new Hono()
+    app.use('*', effectBridge<any, Greeting>({
+      services: () => Layer.effect(Greeting, Effect.map(RequestService, (request) => request.method)),
+    }))
+    effectRoutes(app).post('/', Effect.map(Greeting, (greeting) => new Response(greeting)))
+
+    const res = await app.request('/', { method: 'POST' })
+
+    expect(await res.text()).toBe('POST')
+  })
+
+  test('keeps the app runtime across requests', async () => {
+    const app = new Hono()
+    const runtimes = new Set<unknown>()
+    app.use('*', effectBridge())
+    app.get('/', (c) => {
+      runtimes.add(getEffectRuntime(c))
+      return c.text('ok')
+    })
+
+    await app.request('/')
+    await app.request('/')
+
+    expect(runtimes.size).toBe(1)
+  })
+})
+
+describe('effectBridge request layers', () => {
+  test('releases acquired resources when a request layer fails to build', async () => {
+    const events: string[] = []
+    const acquired = Layer.scopedDiscard(
+      Effect.acquireRelease(
+        Effect.sync(() => events.push('acquire')),
+        () => Effect.sync(() => events.push('release'))
+      )
+    )
+    const app = new Hono()
+    app.use('*', effectBridge({
+      services: () => Layer.provideMerge(Layer.effectDiscard(Effect.dieMessage('boom')), acquired),
+    }))
+    app.get('/', (c) => c.text('ok'))
+    app.onError((_, c) => c.text('failed', 500))
+
+    const res = await app.request('/')
+
+    expect(res.status).toBe(500)
+    expect(events).toEqual(['acquire', 'release'])
+  })
+})
+
+describe('route layer builds', () => {
+  const handler = Effect.gen(function* () {
+    const request = yield* RequestService
+    const greeting = yield* Greeting
+    return new Response(`${request.method} ${greeting}`)
+  })
+
+  test('builds config services once per request when effectRoutes shares the config', async () => {
+    let builds = 0
+    const config = { services: () => Layer.sync(Counter, () => ({ id: ++builds })) }
+    const app = new Hono()
+    app.use('*', effectBridge<any, Counter>(config))
+    effectRoutes<any, Counter>(app, config).get('/', Effect.map(Counter, (counter) => Response.json(counter)))
+
+    expect(await (await app.request('/')).json()).toEqual({ id: 1 })
+    expect(await (await app.request('/')).json()).toEqual({ id: 2 })
+    expect(builds).toBe(2)
+  })
+
+  test('builds provideStatic layers once per app and provide layers once per request', async () => {
+    let staticBuilds = 0
+    let requestBuilds = 0
+    const app = new Hono()
+    app.use('*', effectBridge())
+    const routes = effectRoutes(app)
+      .provideStatic(Layer.sync(Counter, () => ({ id: ++staticBuilds })))
+      .provide(
+        Layer.effect(
+          Greeting,
+          Effect.map(Counter, (counter) => {
+            requestBuilds++
+            return `counter ${counter.id}`
+          })
+        )
+      )
+    routes.get('/a', handler)
+    routes.get('/b', handler)
+
+    for (const path of ['/a', '/b', '/a']) {
+      expect(await (await app.request(path)).text()).toBe('GET counter 1')
+    }
+    expect(staticBuilds).toBe(1)
+    expect(requestBuilds).toBe(3)
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Event Bus Tests
+ */
+
+import { describe, test, expect, beforeEach, spyOn } from 'bun:test'
+import { Effect, Layer, Schema as S } from 'effect'
+import { Hono } from 'hono'
+import {
+  EventError,
+  EventRegistry,
+  ExecutionContextService,
+  LoggerService,
+  RouteRegistry,
+  TestLayer,
+  createEventBus,
+  createLoggerClient,
+  defineEvent,
+  describeRoute,
+  dispatch,
+  effectRoutes,
+  getGlobalEventRegistry,
+  listen,
+  resetGlobalEventRegistry,
+  type LogEntry,
+} from '../../src/effect/index.js'
+import { effectBridge } from '../../src/effect/bridge.js'
+
+const OrderPlaced = (registry: EventRegistry) =>
+  defineEvent('order.placed', S.Struct({ orderId: S.String, total: S.Number.pipe(S.positive()) }), registry)
+
+describe('defineEvent and listen', () => {
+  beforeEach(() => resetGlobalEventRegistry())
+
+  test('registers events and listeners on the global registry', () => {
+    const event = defineEvent('user.registered', S.Struct({ userId: S.String }))
+    listen(event, function sendWelcomeEmail() { return Effect.void })
+    listen(event, () => Effect.void, { name: 'TrackSignup', deferred: true })
+
+    expect(getGlobalEventRegistry().toJson()).toEqual([
+      {
+        name: 'user.registered',
+        listeners: [
+          { name: 'sendWelcomeEmail', deferred: false },
+          { name: 'TrackSignup', deferred: true },
+        ],
+      },
+    ])
+  })
+})
+
+describe('createEventBus', () => {
+  test('runs sync listeners in order with the dispatching context', async () => {
+    const registry = new EventRegistry()
+    const event = OrderPlaced(registry)
+    const calls: string[] = []
+    listen(event, (order) => Effect.sync(() => calls.push(`first ${order.orderId}`)), { registry })
+    listen(
+      event,
+      (order) => Effect.map(LoggerService, (logger) => calls.push(`second ${logger.requestId} ${order.total}`)),
+      { registry }
+    )
+
+    await Effect.runPromise(
+      createEventBus(registry)
+        .dispatch(event, { orderId: 'o1', total: 20 })
+        .pipe(Effect.provideService(LoggerService, createLoggerClient({ write: () => {} }, 'req-1')))
+    )
+
+    expect(calls).toEqual(['first o1', 'second req-1 20'])
+  })
+
+  test('rejects payloads that fail the schema', async () => {
+    const registry = new EventRegistry()
+    const event = OrderPlaced(registry)
+    let called = false
+    listen(event, () => Effect.sync(() => { called = true }), { registry })
+
+    const error = await Effect.runPromise(
+      Effect.flip(createEventBus(registry).dispatch(event, { orderId: 'o1', total: -5 }))
+    )
+
+    expect(error).toBeInstanceOf(EventError)
+    expect(error.message).toContain("Invalid payload for event 'order.placed'")
+    expect(called).toBe(false)
+  })
+
+  test('fails the dispatch when a sync listener fails', async () => {
+    const registry = new EventRegistry()
+    const event = OrderPlaced(registry)
+    listen(event, () => Effect.fail('card declined'), { name: 'ChargeCard', registry })
+
+    const error = await Effect.runPromise(
+      Effect.flip(createEventBus(registry).dispatch(event, { orderId: 'o1', total: 1 }))
+    )
+
+    expect(error).toMatchObject({ event: 'order.placed', listener: 'ChargeCard', cause: 'card declined' })
+  })
+
+  test('runs deferred listeners in the background and logs their failures', async () => {
+    const registry = new EventRegistry()
+    const event = OrderPlaced(registry)
+    const calls: string[] = []
+    const entries: LogEntry[] = []
+    const background: Array<Effect.Effect<unknown, unknown>> = []
+    listen(event, () => Effect.sync(() => calls.push('deferred')), { deferred: true, registry })
+    listen(event, () => Effect.fail('smtp down'), { name: 'SendReceipt', deferred: true, registry })
+    listen(event, () => Effect.sync(() => calls.push('sync')), { registry })
+
+    await Effect.runPromise(
+      createEventBus(registry).dispatch(event, { orderId: 'o1', total: 1 }).pipe(
+        Effect.provideService(ExecutionContextService, {
+          isAvailable: true,
+          waitUntil: () => {},
+          runInBackground: (effect) => Effect.sync(() => { background.push(effect as never) }),
+        }),
+        Effect.provideService(LoggerService, createLoggerClient({ write: (entry) => entries.push(entry) }, 'req-2'))
+      )
+    )
+
+    expect(calls).toEqual(['sync'])
+    expect(background).toHaveLength(2)
+
+    await Promise.all(background.map((effect) => Effect.runPromise(effect)))
+
+    expect(calls).toEqual(['sync', 'deferred'])
+    expect(entries[0]).toMatchObject({
+      level: 'error',
+      message: 'Deferred event listener failed',
+      context: { event: 'order.placed', listener: 'SendReceipt' },
+    })
+  })
+
+  test('runs deferred listeners inline without an execution context', async () => {
+    const registry = new EventRegistry()
+    const event = OrderPlaced(registry)
+    const calls: string[] = []
+    listen(event, () => Effect.sync(() => calls.push('deferred')), { deferred: true, registry })
+    listen(event, () => Effect.sync(() => calls.push('sync')), { registry })
+
+    await Effect.runPromise(createEventBus(registry).dispatch(event, { orderId: 'o1', total: 1 }))
+
+    expect(calls).toEqual(['sync', 'deferred'])
+  })
+  test('logs deferred failures through the default logger without a LoggerService', async () => {
+    const registry = new EventRegistry()
+    const event = OrderPlaced(registry)
+    listen(event, () => Effect.fail('smtp down'), { deferred: true, registry })
+    const consoleError = spyOn(console, 'error')
+
+    try {
+      await Effect.runPromise(createEventBus(registry).dispatch(event, { orderId: 'o1', total: 1 }))
+      // The default driver is silent under NODE_ENV=test
+      expect(consoleError).not.toHaveBeenCalled()
+    } finally {
+      consoleError.mockRestore()
+    }
+  })
+})
+
+describe('EventBusService in routes', () => {
+  beforeEach(() => resetGlobalEventRegistry())
+
+  test('dispatches to the global registry', async () => {
+    const event = defineEvent('project.created', S.Struct({ id: S.String }))
+    const created: string[] = []
+    listen(event, (project) => Effect.sync(() => created.push(project.id)))
+
+    const app = new Hono()
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() }).post(
+      '/projects',
+      Effect.as(dispatch(event, { id: 'p1' }), new Response(null, { status: 201 }))
+    )
+
+    const res = await app.request('/projects', { method: 'POST' })
+
+    expect(res.status).toBe(201)
+    expect(created).toEqual(['p1'])
+  })
+})
+
+describe('TestLayer.Events.captured', () => {
+  const registry = new EventRegistry()
+  const event = OrderPlaced(registry)
+  let listenerRan = false
+  listen(event, () => Effect.sync(() => { listenerRan = true }), { registry })
+
+  const app = new Hono()
+  const routes = new RouteRegistry()
+  app.use('*', effectBridge())
+  effectRoutes(app, { registry: routes }).post(
+    '/orders',
+    Effect.as(dispatch(event, { orderId: 'o1', total: 42 }), new Response(null, { status: 201 })),
+    { name: 'orders.store' }
+  )
+
+  const layer = Layer.provideMerge(TestLayer.Events.captured(), TestLayer.Capture.make())
+
+  describeRoute('orders.store', app, routes, layer, (routeTest) => {
+    routeTest('captures events without running listeners', {
+      expect: { status: 201 },
+      assert: (ctx) => {
+        expect(ctx.captured.events).toEqual([
+          { name: 'order.placed', payload: { orderId: 'o1', total: 42 } },
+        ])
+        expect(listenerRan).toBe(false)
+      },
+    })
+  })
+})
@@ -83,6 +83,33 @@ describe('effectHandler', () => {
     expect(res.status).toBe(302)
   })
 
+  test('handles external Redirect for Inertia requests with 409', async () => {
+    const app = createApp()
+
+    app.post(
+      '/checkout',
+      effectHandler(Effect.succeed(Redirect.location('https://checkout.stripe.com/c/pay/cs_123')))
+    )
+
+    const res = await app.request('/checkout', {
+      method: 'POST',
+      headers: { 'X-Inertia': 'true' },
+    })
+    expect(res.status).toBe(409)
+    expect(res.headers.get('X-Inertia-Location')).toBe('https://checkout.stripe.com/c/pay/cs_123')
+    expect(res.headers.get('Location')).toBeNull()
+  })
+
+  test('handles external Redirect for standard requests with 302', async () => {
+    const app = createApp()
+
+    app.get('/oauth', effectHandler(Effect.succeed(Redirect.location('https://github.com/login/oauth'))))
+
+    const res = await app.request('/oauth')
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('https://github.com/login/oauth')
+  })
+
   test('can access services from the runtime', async () => {
     const app = createApp()
 
@@ -231,6 +258,55 @@ describe('Error Handling', () => {
       expect(res.status).toBe(303)
       expect(res.headers.get('Location')).toBe('/form')
     })
+
+    test('scopes errors under the X-Inertia-Error-Bag header', async () => {
+      const app = createApp()
+
+      app.post(
+        '/',
+        effectHandler(
+          Effect.fail(
+            new ValidationError({
+              errors: { password: 'Too short' },
+              component: 'Profile/Edit',
+            })
+          )
+        )
+      )
+
+      const res = await app.request('/', {
+        method: 'POST',
+        headers: { 'X-Inertia': 'true', 'X-Inertia-Error-Bag': 'updatePassword' },
+      })
+
+      const json = await res.json()
+      expect(json.props.errors).toEqual({ updatePassword: { password: 'Too short' } })
+    })
+
+    test('prefers the error bag set on the error', async () => {
+      const app = createApp()
+
+      app.post(
+        '/',
+        effectHandler(
+          Effect.fail(
+            new ValidationError({
+              errors: { email: 'Taken' },
+              component: 'Profile/Edit',
+              errorBag: 'updateProfile',
+            })
+          )
+        )
+      )
+
+      const res = await app.request('/', {
+        method: 'POST',
+        headers: { 'X-Inertia': 'true', 'X-Inertia-Error-Bag': 'updatePassword' },
+      })
+
+      const json = await res.json()
+      expect(json.props.errors).toEqual({ updateProfile: { email: 'Taken' } })
+    })
   })
 
   describe('UnauthorizedError', () => {
@@ -0,0 +1,241 @@
+/**
+ * Logger Service Tests
+ */
+
+import { describe, test, expect, spyOn } from 'bun:test'
+import { Effect, Layer } from 'effect'
+import { Hono } from 'hono'
+import {
+  ExecutionContextService,
+  HttpError,
+  LoggerService,
+  RouteRegistry,
+  TestLayer,
+  ValidationError,
+  createConsoleLogDriver,
+  createLoggerClient,
+  describeRoute,
+  effectRoutes,
+  type LogEntry,
+} from '../../src/effect/index.js'
+import { effectBridge } from '../../src/effect/bridge.js'
+
+const createApp = () => {
+  const entries: LogEntry[] = []
+  const app = new Hono()
+  app.use('*', effectBridge({ logger: { write: (entry) => entries.push(entry) } }))
+  return { app, entries, routes: effectRoutes(app, { registry: new RouteRegistry() }) }
+}
+
+describe('request IDs', () => {
+  const app = new Hono()
+  app.use('*', effectBridge())
+  effectRoutes(app, { registry: new RouteRegistry() }).get(
+    '/',
+    Effect.map(LoggerService, (logger) => new Response(logger.requestId))
+  )
+
+  test('uses cf-ray first, then X-Request-Id', async () => {
+    const ray = await app.request('/', {
+      headers: { 'cf-ray': '8a1b2c3d4e5f-LHR', 'X-Request-Id': 'upstream-1' },
+    })
+    const upstream = await app.request('/', { headers: { 'X-Request-Id': 'upstream-1' } })
+
+    expect(await ray.text()).toBe('8a1b2c3d4e5f-LHR')
+    expect(ray.headers.get('X-Request-Id')).toBe('8a1b2c3d4e5f-LHR')
+    expect(await upstream.text()).toBe('upstream-1')
+  })
+
+  test('generates an ID when none is sent or the header is unsafe', async () => {
+    const generated = await app.request('/')
+    const unsafe = await app.request('/', { headers: { 'X-Request-Id': 'evil <script>' } })
+
+    expect(generated.headers.get('X-Request-Id')).toMatch(/^[0-9a-f-]{36}$/)
+    expect(await unsafe.text()).not.toContain('evil')
+  })
+
+  test('sets the header on immutable responses', async () => {
+    const immutable = new Hono()
+    immutable.use('*', effectBridge())
+    immutable.get('/', () => Response.redirect('https://example.com/', 302))
+
+    const res = await immutable.request('/', { headers: { 'X-Request-Id': 'abc' } })
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('X-Request-Id')).toBe('abc')
+  })
+})
+
+describe('LoggerService', () => {
+  test('writes structured entries tagged with the request ID', async () => {
+    const { app, entries, routes } = createApp()
+    routes.get('/projects', Effect.gen(function* () {
+      const logger = (yield* LoggerService).with({ userId: 'u1' })
+      yield* logger.info('Listed projects', { count: 2 })
+      yield* logger.debug('Cache miss')
+      return new Response('ok')
+    }))
+
+    await app.request('/projects', { headers: { 'X-Request-Id': 'req-1' } })
+
+    expect(entries.map(({ level, message, requestId, context }) => ({ level, message, requestId, context }))).toEqual([
+      { level: 'info', message: 'Listed projects', requestId: 'req-1', context: { userId: 'u1', count: 2 } },
+      { level: 'debug', message: 'Cache miss', requestId: 'req-1', context: { userId: 'u1' } },
+    ])
+    expect(Date.parse(entries[0].timestamp)).not.toBeNaN()
+  })
+
+  test('logs handled errors by severity and adds the request ID to JSON errors', async () => {
+    const { app, entries, routes } = createApp()
+    routes.post('/invalid', Effect.fail(new ValidationError({ errors: { name: 'Required' } })))
+    routes.get('/down', Effect.fail(new HttpError({ status: 503, message: 'Maintenance' })))
+
+    await app.request('/invalid', { method: 'POST', headers: { Accept: 'application/json' } })
+    const res = await app.request('/down', { headers: { 'X-Request-Id': 'req-2' } })
+
+    expect(entries.map((entry) => entry.level)).toEqual(['info', 'error'])
+    expect(entries[1]).toMatchObject({
+      message: 'Maintenance',
+      requestId: 'req-2',
+      context: { status: 503, method: 'GET', path: '/down' },
+    })
+    expect((await res.json()).requestId).toBe('req-2')
+  })
+
+  test('logs the full structured error once in development', async () => {
+    const { app, entries, routes } = createApp()
+    routes.get('/down', Effect.fail(new HttpError({ status: 503, message: 'Maintenance' })))
+
+    await app.request('/down', {}, { ENVIRONMENT: 'development' })
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0].context.details).toMatchObject({ code: 'HON_HTTP_503_SERVICE_UNAVAILABLE', httpStatus: 503 })
+  })
+
+  test('returns the error response when the log driver fails', async () => {
+    const drivers = [
+      { write: () => { throw new Error('log sink down') } },
+      { write: () => Promise.reject(new Error('log sink down')) },
+    ]
+    for (const logger of drivers) {
+      const app = new Hono()
+      app.use('*', effectBridge({ logger }))
+      effectRoutes(app, { registry: new RouteRegistry() }).get('/down', Effect.fail(HttpError.rateLimited(5)))
+
+      expect((await app.request('/down')).status).toBe(429)
+    }
+
+    const broken = createLoggerClient({ write: () => {} }, 'req-1')
+    const app = new Hono()
+    app.use('*', effectBridge({
+      services: () => Layer.succeed(LoggerService, { ...broken, warn: () => Effect.die('log sink down') }),
+    }))
+    effectRoutes(app, { registry: new RouteRegistry() }).get('/down', Effect.fail(HttpError.rateLimited(5)))
+
+    expect((await app.request('/down')).status).toBe(429)
+  })
+
+  test('logs background task failures', async () => {
+    const { app, entries, routes } = createApp()
+    const waitUntil: Promise<unknown>[] = []
+    routes.get('/', Effect.gen(function* () {
+      const ctx = yield* ExecutionContextService
+      yield* ctx.runInBackground(Effect.fail('boom'))
+      return new Response('ok')
+    }))
+
+    await app.request('/', {}, {}, {
+      waitUntil: (promise: Promise<unknown>) => waitUntil.push(promise),
+      passThroughOnException: () => {},
+      props: {},
+    })
+    await Promise.all(waitUntil)
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ level: 'error', message: 'Background task failed' })
+    expect(entries[0].context.cause).toContain('boom')
+  })
+})
+
+describe('createConsoleLogDriver', () => {
+  test('writes JSON lines at or above the configured level', () => {
+    const log = spyOn(console, 'log').mockImplementation(() => {})
+    const error = spyOn(console, 'error').mockImplementation(() => {})
+    const logger = createLoggerClient(createConsoleLogDriver({ level: 'info' }), 'req-3')
+
+    try {
+      Effect.runSync(logger.debug('hidden'))
+      Effect.runSync(logger.info('shown'))
+      Effect.runSync(logger.error('failed', { error: new Error('boom') }))
+
+      expect(log).toHaveBeenCalledTimes(1)
+      expect(JSON.parse(log.mock.calls[0][0] as string)).toMatchObject({
+        level: 'info',
+        message: 'shown',
+        requestId: 'req-3',
+      })
+      expect(JSON.parse(error.mock.calls[0][0] as string).context.error).toMatchObject({
+        name: 'Error',
+        message: 'boom',
+      })
+    } finally {
+      log.mockRestore()
+      error.mockRestore()
+    }
+  })
+})
+
+describe('createConsoleLogDriver serialization', () => {
+  test('writes BigInts and circular references instead of throwing', () => {
+    const lines: string[] = []
+    const log = spyOn(console, 'log').mockImplementation((line: string) => void lines.push(line))
+    const order: Record<string, unknown> = { id: 'o1', total: 10n, error: new Error('declined') }
+    order.self = order
+
+    try {
+      Effect.runSync(createLoggerClient(createConsoleLogDriver(), 'req-1').info('Order placed', { order, shared: [order] }))
+    } finally {
+      log.mockRestore()
+    }
+
+    expect(JSON.parse(lines[0]).context).toMatchObject({
+      order: { id: 'o1', total: '10', error: { name: 'Error', message: 'declined' }, self: '[Circular]' },
+      shared: [{ id: 'o1' }],
+    })
+  })
+})
+
+describe('TestLayer.Logger.captured', () => {
+  const app = new Hono()
+  const registry = new RouteRegistry()
+  app.use('*', effectBridge())
+  effectRoutes(app, { registry }).post(
+    '/orders',
+    Effect.gen(function* () {
+      const logger = yield* LoggerService
+      yield* logger.info('Order placed', { orderId: 'o1' })
+      return yield* Effect.fail(new HttpError({ status: 409, message: 'Duplicate order' }))
+    }),
+    { name: 'orders.store' }
+  )
+
+  const layer = Layer.provideMerge(TestLayer.Logger.captured(), TestLayer.Capture.make())
+
+  describeRoute('orders.store', app, registry, layer, (routeTest) => {
+    routeTest('captures action and framework logs', {
+      headers: { 'X-Request-Id': 'req-4' },
+      expect: { status: 409 },
+      assert: (ctx) => {
+        expect(ctx.captured.logs).toEqual([
+          { level: 'info', message: 'Order placed', requestId: 'req-4', context: { orderId: 'o1' } },
+          {
+            level: 'warn',
+            message: 'Duplicate order',
+            requestId: 'req-4',
+            context: expect.objectContaining({ status: 409 }),
+          },
+        ])
+      },
+    })
+  })
+})
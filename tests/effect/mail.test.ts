@@ -0,0 +1,399 @@
+/**
+ * Mail Tests
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test'
+import { Effect, Layer } from 'effect'
+import { Hono } from 'hono'
+import { html } from 'hono/html'
+import { createServer, type AddressInfo } from 'node:net'
+import { readdirSync, readFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import {
+  EmailError,
+  EmailService,
+  MailableRegistry,
+  RouteRegistry,
+  TestLayer,
+  buildMimeMessage,
+  createEmailClient,
+  createFileMailTransport,
+  createHttpMailTransport,
+  createLogMailTransport,
+  createSmtpMailTransport,
+  defineMailable,
+  describeRoute,
+  effectRoutes,
+  mailPreview,
+  renderMailable,
+  sendMail,
+  type OutgoingEmailMessage,
+} from '../../src/effect/index.js'
+import { effectBridge } from '../../src/effect/bridge.js'
+import { TestCaptureService } from '../../src/effect/test-layers.js'
+
+const tmpDir = join(process.cwd(), 'tmp', 'mail-test')
+
+afterAll(() => rmSync(tmpDir, { recursive: true, force: true }))
+
+const registry = new MailableRegistry()
+
+const WelcomeEmail = defineMailable<{ name: string; url: string }>('welcome', {
+  subject: 'Welcome, {{ name }}!',
+  html: '<h1>Hi {{ name }}</h1><p>Start at <a href="{{ url }}">your dashboard</a>.</p>',
+  from: { name: 'Acme', address: 'hello@acme.test' },
+  bcc: 'audit@acme.test',
+  preview: { name: 'Ada', url: 'https://acme.test/dashboard' },
+  registry,
+})
+
+const InvoiceEmail = defineMailable<{ number: number }>('invoice', {
+  subject: (props) => `Invoice #${props.number}`,
+  html: (props) => html`<p>Invoice ${props.number} is attached.</p>`,
+  text: 'Invoice {{ number }} is attached.',
+  attachments: (props) => [{ filename: `invoice-${props.number}.txt`, content: 'total: 42', contentType: 'text/plain' }],
+  registry,
+})
+
+const message: OutgoingEmailMessage = {
+  from: { name: 'Acme Café', address: 'hello@acme.test' },
+  to: ['ada@example.com'],
+  bcc: ['audit@acme.test'],
+  subject: 'Café receipt',
+  html: '<p>Thanks</p>',
+  text: 'Thanks',
+  attachments: [{ filename: 'receipt.txt', content: 'paid' }],
+}
+
+const decodeParts = (mime: string) =>
+  [...mime.matchAll(/Content-Transfer-Encoding: base64\r\n(?:.+\r\n)*?\r\n([A-Za-z0-9+/=\r\n]+?)\r\n--/g)].map(
+    (match) => Buffer.from(match[1].replace(/\r\n/g, ''), 'base64').toString('utf8')
+  )
+
+describe('renderMailable', () => {
+  test('renders templates, escaping HTML and deriving the text body', async () => {
+    const rendered = await Effect.runPromise(
+      renderMailable(WelcomeEmail, { name: '<Ada>', url: 'https://acme.test' })
+    )
+
+    expect(rendered).toEqual({
+      subject: 'Welcome, <Ada>!',
+      html: '<h1>Hi &lt;Ada&gt;</h1><p>Start at <a href="https://acme.test">your dashboard</a>.</p>',
+      text: 'Hi <Ada>\nStart at your dashboard (https://acme.test).',
+    })
+  })
+
+  test('renders components and wraps render failures', async () => {
+    expect((await Effect.runPromise(renderMailable(InvoiceEmail, { number: 7 }))).html).toBe(
+      '<p>Invoice 7 is attached.</p>'
+    )
+
+    const broken = defineMailable('broken', {
+      subject: 'Broken',
+      html: () => {
+        throw new Error('missing prop')
+      },
+      registry: new MailableRegistry(),
+    })
+    const error = await Effect.runPromise(Effect.flip(renderMailable(broken, {})))
+    expect(error).toBeInstanceOf(EmailError)
+    expect(error.message).toBe("Failed to render mailable 'broken'")
+  })
+})
+
+describe('createEmailClient', () => {
+  test('fills the default sender and rejects invalid messages', async () => {
+    const sent: OutgoingEmailMessage[] = []
+    const client = createEmailClient({ name: 'memory', send: async (m) => void sent.push(m) }, { from: 'app@acme.test' })
+
+    await Effect.runPromise(client.send('ada@example.com', 'Hello', 'Plain body'))
+    expect(sent).toEqual([{ from: 'app@acme.test', to: ['ada@example.com'], subject: 'Hello', text: 'Plain body' }])
+
+    const injected = await Effect.runPromise(
+      Effect.flip(client.sendMessage({ to: ['ada@example.com'], subject: 'Hi\r\nBcc: x@evil.test', text: '' }))
+    )
+    expect(injected.message).toBe('Email headers cannot contain line breaks')
+
+    const noSender = createEmailClient({ name: 'memory', send: async () => {} })
+    expect((await Effect.runPromise(Effect.flip(noSender.send('ada@example.com', 'Hi', 'x')))).message).toContain(
+      'Email has no from address'
+    )
+  })
+
+  test('wraps transport failures', async () => {
+    const client = createEmailClient(
+      { name: 'flaky', send: async () => { throw new Error('connection refused') } },
+      { from: 'app@acme.test' }
+    )
+
+    const error = await Effect.runPromise(Effect.flip(client.send('ada@example.com', 'Hi', 'x')))
+
+    expect(error).toMatchObject({ transport: 'flaky', message: 'Failed to send email via flaky: connection refused' })
+  })
+})
+
+describe('sendMail', () => {
+  test('falls back to plain send for clients without sendMessage', async () => {
+    const sent: string[] = []
+    const plain = {
+      send: (to: string, subject: string, body: string) => Effect.sync(() => void sent.push(`${to}|${subject}|${body}`)),
+    }
+
+    await Effect.runPromise(
+      sendMail(WelcomeEmail, { name: 'Ada', url: 'https://acme.test' }, { to: 'ada@example.com' }).pipe(
+        Effect.provideService(EmailService, plain)
+      )
+    )
+    const error = await Effect.runPromise(
+      Effect.flip(sendMail(InvoiceEmail, { number: 1 }, { to: 'ada@example.com' })).pipe(
+        Effect.provideService(EmailService, plain)
+      )
+    )
+
+    expect(sent.map((line) => line.split('|').slice(0, 2).join('|'))).toEqual([
+      'ada@example.com|Welcome, Ada!',
+      'audit@acme.test|Welcome, Ada!',
+    ])
+    expect(sent[0]).toContain('Start at your dashboard')
+    expect(error.message).toBe('EmailService needs sendMessage to send attachments')
+  })
+
+  test('TestLayer.Email.captured records plain sends without validating them', async () => {
+    const captures = await Effect.runPromise(
+      Effect.gen(function* () {
+        const email = yield* EmailService
+        yield* email.send('not-an-address', 'Hi', 'body')
+        return yield* (yield* TestCaptureService).get()
+      }).pipe(Effect.provide(Layer.provideMerge(TestLayer.Email.captured(), TestLayer.Capture.make())))
+    )
+
+    expect(captures.emails).toEqual([{ to: 'not-an-address', subject: 'Hi', body: 'body' }])
+    expect(captures.emailMessages).toEqual([])
+  })
+})
+
+describe('buildMimeMessage', () => {
+  test('builds alternatives and attachments without Bcc', () => {
+    const mime = buildMimeMessage(message, { date: new Date('2026-01-01T00:00:00Z') })
+
+    expect(mime).toContain('From: =?UTF-8?B?')
+    expect(mime).toContain('To: ada@example.com')
+    expect(mime).not.toContain('audit@acme.test')
+    expect(mime).toContain(`Subject: =?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode('Café receipt')))}?=`)
+    expect(mime).toContain('Date: Thu, 01 Jan 2026 00:00:00 GMT')
+    expect(mime).toContain('Content-Type: multipart/mixed')
+    expect(mime).toContain('Content-Type: multipart/alternative')
+    expect(mime).toContain('Content-Disposition: attachment; filename="receipt.txt"')
+    expect(decodeParts(mime)).toEqual(['Thanks', '<p>Thanks</p>', 'paid'])
+  })
+})
+
+describe('transports', () => {
+  test('http posts the Resend format', async () => {
+    const requests: Array<{ url: string; init: RequestInit }> = []
+    const transport = createHttpMailTransport({
+      url: 'https://api.resend.com/emails',
+      apiKey: 're_123',
+      fetch: (async (url: string, init: RequestInit) => {
+        requests.push({ url, init })
+        return new Response('{}')
+      }) as typeof fetch,
+    })
+
+    await transport.send(message)
+
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer re_123')
+    expect(JSON.parse(requests[0].init.body as string)).toEqual({
+      from: '=?UTF-8?B?QWNtZSBDYWbDqQ==?= <hello@acme.test>',
+      to: ['ada@example.com'],
+      bcc: ['audit@acme.test'],
+      subject: 'Café receipt',
+      html: '<p>Thanks</p>',
+      text: 'Thanks',
+      attachments: [{ filename: 'receipt.txt', content: btoa('paid') }],
+    })
+  })
+
+  test('http reports error responses', async () => {
+    const transport = createHttpMailTransport({
+      url: 'https://mail.test/send',
+      fetch: (async () => new Response('invalid from', { status: 422 })) as unknown as typeof fetch,
+    })
+
+    await expect(transport.send(message)).rejects.toThrow('https://mail.test/send responded with 422: invalid from')
+  })
+
+  test('smtp delivers to a local server', async () => {
+    const server = await startSmtpServer()
+    try {
+      const transport = createSmtpMailTransport({ port: server.port, host: '127.0.0.1', auth: { user: 'u', pass: 'p' } })
+      await transport.send({ ...message, text: 'Thanks\n.\nBye' })
+
+      expect(server.commands).toEqual([
+        'EHLO localhost',
+        `AUTH PLAIN ${btoa('\0u\0p')}`,
+        'MAIL FROM:<hello@acme.test>',
+        'RCPT TO:<ada@example.com>',
+        'RCPT TO:<audit@acme.test>',
+        'DATA',
+        'QUIT',
+      ])
+      expect(decodeParts(server.messages[0])).toEqual(['Thanks\n.\nBye', '<p>Thanks</p>', 'paid'])
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('smtp reports rejected recipients', async () => {
+    const server = await startSmtpServer({ rejectRecipients: true })
+    try {
+      const transport = createSmtpMailTransport({ port: server.port, host: '127.0.0.1' })
+
+      await expect(transport.send(message)).rejects.toThrow('SMTP RCPT TO failed: 550 no such user')
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('file and log transports record messages', async () => {
+    await createFileMailTransport({ directory: tmpDir }).send(message)
+    const [file] = readdirSync(tmpDir)
+    expect(file).toEndWith('-caf-receipt.eml')
+    expect(readFileSync(join(tmpDir, file), 'utf8')).toContain('To: ada@example.com')
+
+    const lines: string[] = []
+    await createLogMailTransport({ write: (output) => lines.push(output) }).send(message)
+    expect(lines[0]).toContain('Bcc: audit@acme.test')
+    expect(lines[0]).toContain('Attachments: receipt.txt')
+    expect(lines[0]).toEndWith('\n\nThanks')
+  })
+})
+
+describe('mailPreview', () => {
+  const createApp = (dev: boolean) => {
+    const app = new Hono()
+    app.route('/_mail', mailPreview({ registry, dev }))
+    return app
+  }
+
+  test('lists and renders mailables in development', async () => {
+    const app = createApp(true)
+
+    const index = await (await app.request('/_mail')).text()
+    expect(index).toContain('<a href="/_mail/welcome">welcome</a>')
+    expect(index).toContain('<a href="/_mail/invoice">invoice</a> (<a href="/_mail/invoice?format=text">text</a>) <em>no preview props</em>')
+
+    const rendered = await app.request('/_mail/welcome')
+    expect(rendered.headers.get('Content-Type')).toContain('text/html')
+    expect(await rendered.text()).toContain('<h1>Hi Ada</h1>')
+
+    expect(await (await app.request('/_mail/welcome?format=json')).json()).toMatchObject({ subject: 'Welcome, Ada!' })
+    expect(await (await app.request('/_mail/invoice?format=text')).text()).toBe('Invoice  is attached.')
+    expect((await app.request('/_mail/missing')).status).toBe(404)
+  })
+
+  test('is hidden outside development', async () => {
+    const app = new Hono()
+    app.route('/_mail', mailPreview({ registry }))
+
+    expect((await app.request('/_mail')).status).toBe(404)
+    expect((await app.request('/_mail/welcome', {}, { ENVIRONMENT: 'development' })).status).toBe(200)
+    expect((await createApp(false).request('/_mail/welcome')).status).toBe(404)
+  })
+})
+
+describe('TestLayer.Email.captured', () => {
+  const app = new Hono()
+  const routes = new RouteRegistry()
+  app.use('*', effectBridge())
+  effectRoutes(app, { registry: routes }).post(
+    '/invoices',
+    Effect.as(
+      sendMail(InvoiceEmail, { number: 12 }, { to: ['ada@example.com'], cc: 'billing@acme.test', replyTo: 'support@acme.test' }),
+      new Response(null, { status: 202 })
+    ),
+    { name: 'invoices.send' }
+  )
+
+  const layer = Layer.provideMerge(TestLayer.Email.captured(), TestLayer.Capture.make())
+
+  describeRoute('invoices.send', app, routes, layer, (routeTest) => {
+    routeTest('captures the structured message', {
+      expect: { status: 202 },
+      assert: (ctx) => {
+        expect(ctx.captured.emailMessages).toEqual([
+          {
+            to: ['ada@example.com'],
+            cc: ['billing@acme.test'],
+            replyTo: ['support@acme.test'],
+            subject: 'Invoice #12',
+            html: '<p>Invoice 12 is attached.</p>',
+            text: 'Invoice 12 is attached.',
+            attachments: [{ filename: 'invoice-12.txt', content: 'total: 42', contentType: 'text/plain' }],
+            mailable: 'invoice',
+          },
+        ])
+      },
+    })
+  })
+})
+
+/**
+ * A minimal SMTP server that records commands and message data.
+ */
+function startSmtpServer(options: { rejectRecipients?: boolean } = {}) {
+  const commands: string[] = []
+  const messages: string[] = []
+
+  const server = createServer((socket) => {
+    let buffer = ''
+    let data: string[] | undefined
+    socket.setEncoding('utf8')
+    socket.write('220 stand-in ready\r\n')
+
+    socket.on('data', (chunk) => {
+      buffer += chunk
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'))
+            data = undefined
+            socket.write('250 queued\r\n')
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line)
+          }
+          continue
+        }
+
+        commands.push(line)
+        const verb = line.split(/[ :]/)[0]
+        if (verb === 'EHLO') socket.write('250-stand-in\r\n250 AUTH PLAIN\r\n')
+        else if (verb === 'AUTH') socket.write('235 ok\r\n')
+        else if (verb === 'RCPT' && options.rejectRecipients) socket.write('550 no such user\r\n')
+        else if (verb === 'DATA') {
+          data = []
+          socket.write('354 go ahead\r\n')
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else socket.write('250 ok\r\n')
+      }
+    })
+  })
+
+  return new Promise<{ port: number; commands: string[]; messages: string[]; close: () => Promise<void> }>(
+    (resolve) => {
+      server.listen(0, '127.0.0.1', () =>
+        resolve({
+          port: (server.address() as AddressInfo).port,
+          commands,
+          messages,
+          close: () => new Promise((done) => server.close(() => done())),
+        })
+      )
+    }
+  )
+}
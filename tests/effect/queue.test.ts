@@ -0,0 +1,358 @@
+/**
+ * Queue Tests
+ */
+
+import { describe, test, expect, beforeEach, afterAll } from 'bun:test'
+import { Context, Duration, Effect, Layer, Schema as S } from 'effect'
+import { Hono } from 'hono'
+import { join } from 'node:path'
+import { rmSync } from 'node:fs'
+import {
+  JobRegistry,
+  LoggerService,
+  QueueError,
+  QueueLayer,
+  RouteRegistry,
+  TestLayer,
+  createLocalQueue,
+  createMemoryFailedJobStore,
+  createQueueConsumer,
+  defineJob,
+  describeRoute,
+  dispatchJob,
+  effectRoutes,
+  getGlobalJobRegistry,
+  resetGlobalJobRegistry,
+  type QueueMessageLike,
+} from '../../src/effect/index.js'
+import { effectBridge } from '../../src/effect/bridge.js'
+
+class Mailer extends Context.Tag('test/Mailer')<Mailer, { sent: string[] }>() {}
+
+const tmpDir = join(process.cwd(), 'tmp', 'queue-test')
+
+afterAll(() => rmSync(tmpDir, { recursive: true, force: true }))
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+const createMessage = (body: unknown, attempts = 1) => {
+  const state = { acked: false, retried: undefined as { delaySeconds?: number } | undefined }
+  const message: QueueMessageLike = {
+    id: 'msg-1',
+    body,
+    attempts,
+    ack: () => {
+      state.acked = true
+    },
+    retry: (options) => {
+      state.retried = options ?? {}
+    },
+  }
+  return { message, state }
+}
+
+describe('defineJob', () => {
+  beforeEach(() => resetGlobalJobRegistry())
+
+  test('registers jobs on the global registry', () => {
+    defineJob('send-welcome-email', S.Struct({ userId: S.String }), () => Effect.void)
+    defineJob('prune-sessions', S.Struct({}), () => Effect.void, { tries: 1 })
+
+    expect(getGlobalJobRegistry().toJson()).toEqual([
+      { name: 'prune-sessions', tries: 1 },
+      { name: 'send-welcome-email', tries: 3 },
+    ])
+  })
+
+  test('resolves backoff per attempt', () => {
+    const registry = new JobRegistry()
+    const payload = S.Struct({})
+    const exponential = defineJob('a', payload, () => Effect.void, { registry })
+    const stepped = defineJob('b', payload, () => Effect.void, {
+      backoff: ['1 second', '1 minute'],
+      registry,
+    })
+
+    expect([1, 2, 3].map((attempt) => Duration.toSeconds(exponential.backoff(attempt)))).toEqual([10, 20, 40])
+    expect([1, 2, 3].map((attempt) => Duration.toSeconds(stepped.backoff(attempt)))).toEqual([1, 60, 60])
+  })
+})
+
+describe('createLocalQueue', () => {
+  test('runs jobs with the services effectBridge provides', async () => {
+    const registry = new JobRegistry()
+    const mailer = { sent: [] as string[] }
+    const job = defineJob(
+      'welcome',
+      S.Struct({ email: S.String }),
+      ({ email }) =>
+        Effect.gen(function* () {
+          const logger = yield* LoggerService
+          const { sent } = yield* Mailer
+          sent.push(`${email} ${logger.requestId.length > 0}`)
+        }),
+      { registry }
+    )
+    const queue = createLocalQueue({
+      process: false,
+      registry,
+      middleware: effectBridge({ layer: Layer.succeed(Mailer, mailer) }),
+    })
+
+    await Effect.runPromise(queue.client.dispatch(job, { email: 'ada@example.com' }))
+    expect(await queue.pending()).toHaveLength(1)
+
+    expect(await queue.work()).toEqual({ completed: 1, retried: 0, failed: 0 })
+    expect(mailer.sent).toEqual(['ada@example.com true'])
+    expect(await queue.pending()).toHaveLength(0)
+  })
+
+  test('retries with backoff and stores the job after its last try', async () => {
+    const registry = new JobRegistry()
+    let attempts = 0
+    const job = defineJob(
+      'flaky',
+      S.Struct({ id: S.Number }),
+      () => Effect.suspend(() => Effect.fail(`attempt ${++attempts} failed`)),
+      { tries: 3, backoff: 0, registry }
+    )
+    const queue = createLocalQueue({ process: false, registry })
+
+    await Effect.runPromise(queue.client.dispatch(job, { id: 7 }))
+
+    expect(await queue.work()).toEqual({ completed: 0, retried: 2, failed: 1 })
+    const [failed] = await Effect.runPromise(queue.failed.list())
+    expect(failed).toMatchObject({ job: 'flaky', payload: { id: 7 }, attempts: 3 })
+    expect(failed.error).toContain('attempt 3 failed')
+  })
+
+  test('holds delayed jobs until they are available', async () => {
+    const registry = new JobRegistry()
+    const job = defineJob('later', S.Struct({}), () => Effect.void, { registry })
+    const queue = createLocalQueue({ process: false, registry })
+
+    await Effect.runPromise(queue.client.dispatch(job, {}, { delay: '1 hour' }))
+
+    expect(await queue.work()).toEqual({ completed: 0, retried: 0, failed: 0 })
+    expect(await queue.pending()).toHaveLength(1)
+  })
+
+  test('processes jobs in-process when dispatched from a route', async () => {
+    const registry = new JobRegistry()
+    const handled: string[] = []
+    const job = defineJob(
+      'index-project',
+      S.Struct({ id: S.String }),
+      ({ id }) => Effect.sync(() => handled.push(id)),
+      { registry }
+    )
+    const queue = createLocalQueue({ registry })
+
+    const app = new Hono()
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() })
+      .provide(QueueLayer.local(queue))
+      .post('/projects', Effect.as(dispatchJob(job, { id: 'p1' }), new Response(null, { status: 202 })))
+
+    const res = await app.request('/projects', { method: 'POST' })
+    expect(res.status).toBe(202)
+
+    await waitFor(() => handled.length > 0)
+    expect(handled).toEqual(['p1'])
+  })
+
+  test('persists jobs to a file and retries failed jobs', async () => {
+    const registry = new JobRegistry()
+    let fail = true
+    const job = defineJob(
+      'sync',
+      S.Struct({ at: S.DateFromString }),
+      () => (fail ? Effect.fail('offline') : Effect.void),
+      { tries: 1, registry }
+    )
+    const path = join(tmpDir, 'persist.json')
+    const producer = createLocalQueue({ path })
+    const worker = createLocalQueue({ path, registry })
+
+    await Effect.runPromise(producer.client.dispatch(job, { at: new Date('2026-01-01T00:00:00Z') }))
+    expect(await worker.work()).toEqual({ completed: 0, retried: 0, failed: 1 })
+
+    const [failed] = await Effect.runPromise(producer.failed.list())
+    expect(failed.payload).toEqual({ at: '2026-01-01T00:00:00.000Z' })
+
+    fail = false
+    expect(await producer.retryFailed(failed.id)).toBe(1)
+    expect(await worker.work()).toEqual({ completed: 1, retried: 0, failed: 0 })
+    expect(await Effect.runPromise(producer.failed.list())).toEqual([])
+  })
+
+  test('rejects payloads that fail the schema', async () => {
+    const registry = new JobRegistry()
+    const job = defineJob('typed', S.Struct({ count: S.Number.pipe(S.positive()) }), () => Effect.void, {
+      registry,
+    })
+    const queue = createLocalQueue({ process: false, registry })
+
+    const error = await Effect.runPromise(Effect.flip(queue.client.dispatch(job, { count: -1 })))
+
+    expect(error).toBeInstanceOf(QueueError)
+    expect(error.message).toContain("Invalid payload for job 'typed'")
+  })
+})
+
+describe('Cloudflare Queues', () => {
+  test('dispatches encoded jobs to the bound queue', async () => {
+    const sent: Array<{ body: any; options?: { delaySeconds?: number } }> = []
+    const registry = new JobRegistry()
+    const job = defineJob('report', S.Struct({ at: S.DateFromString }), () => Effect.void, { registry })
+
+    const app = new Hono()
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() })
+      .provide(QueueLayer.cloudflare({ binding: 'JOBS' }))
+      .post(
+        '/reports',
+        Effect.as(
+          dispatchJob(job, { at: new Date('2026-02-03T00:00:00Z') }, { delay: '90 seconds' }),
+          new Response(null, { status: 202 })
+        )
+      )
+
+    const res = await app.request('/reports', { method: 'POST' }, {
+      JOBS: { send: async (body: unknown, options?: { delaySeconds?: number }) => void sent.push({ body, options }) },
+    })
+
+    expect(res.status).toBe(202)
+    expect(sent[0].body).toMatchObject({ job: 'report', payload: { at: '2026-02-03T00:00:00.000Z' }, attempts: 0 })
+    expect(sent[0].options).toEqual({ delaySeconds: 90 })
+  })
+
+  test('fails dispatch when the binding is missing', async () => {
+    const registry = new JobRegistry()
+    const job = defineJob('report', S.Struct({}), () => Effect.void, { registry })
+
+    const app = new Hono()
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() })
+      .provide(QueueLayer.cloudflare({ binding: 'JOBS' }))
+      .get(
+        '/dispatch',
+        Effect.gen(function* () {
+          const error = yield* Effect.flip(dispatchJob(job, {}))
+          return new Response(error.message)
+        })
+      )
+
+    const res = await app.request('/dispatch', {}, {})
+
+    expect(await res.text()).toContain("requires the queue producer binding 'JOBS'")
+  })
+
+  test('consumes messages, retrying and recording failures', async () => {
+    const registry = new JobRegistry()
+    const handled: string[] = []
+    const ok = defineJob('ok', S.Struct({ id: S.String }), ({ id }) => Effect.sync(() => handled.push(id)), {
+      registry,
+    })
+    const broken = defineJob('broken', S.Struct({}), () => Effect.fail('boom'), {
+      tries: 2,
+      backoff: '30 seconds',
+      registry,
+    })
+    const failed = createMemoryFailedJobStore()
+    const consume = createQueueConsumer({ registry, failed })
+    const envelope = (name: string, payload: unknown) => ({
+      id: `${name}-1`,
+      job: name,
+      payload,
+      attempts: 0,
+      dispatchedAt: '2026-01-01T00:00:00.000Z',
+    })
+
+    const first = createMessage(envelope(ok.name, { id: 'a' }))
+    const retry = createMessage(envelope(broken.name, {}), 1)
+    const last = createMessage(envelope(broken.name, {}), 2)
+    const malformed = createMessage('not a job')
+
+    await consume(
+      { queue: 'jobs', messages: [first.message, retry.message, last.message, malformed.message] },
+      {}
+    )
+
+    expect(handled).toEqual(['a'])
+    expect(first.state).toEqual({ acked: true, retried: undefined })
+    expect(retry.state).toEqual({ acked: false, retried: { delaySeconds: 30 } })
+    expect(last.state.acked).toBe(true)
+    expect(malformed.state.acked).toBe(true)
+
+    const records = await Effect.runPromise(failed.list())
+    expect(records.map(({ job, attempts }) => ({ job, attempts }))).toEqual([
+      { job: 'broken', attempts: 2 },
+      { job: 'unknown', attempts: 1 },
+    ])
+  })
+
+  test('retries only the message that throws', async () => {
+    const registry = new JobRegistry()
+    const job = defineJob('broken', S.Struct({}), () => Effect.fail('boom'), { tries: 1, registry })
+    const store = createMemoryFailedJobStore()
+    let records = 0
+    const consume = createQueueConsumer({
+      registry,
+      failed: {
+        ...store,
+        record: (failedJob) =>
+          records++ === 0 ? Effect.die(new Error('store unavailable')) : store.record(failedJob),
+      },
+    })
+    const envelope = (id: string) => ({
+      id,
+      job: job.name,
+      payload: {},
+      attempts: 0,
+      dispatchedAt: '2026-01-01T00:00:00.000Z',
+    })
+
+    const first = createMessage(envelope('a'))
+    const second = createMessage(envelope('b'))
+
+    await consume({ queue: 'jobs', messages: [first.message, second.message] }, {})
+
+    expect(first.state).toEqual({ acked: false, retried: {} })
+    expect(second.state).toEqual({ acked: true, retried: undefined })
+    expect((await Effect.runPromise(store.list())).map(({ id }) => id)).toEqual(['b'])
+  })
+})
+
+describe('TestLayer.Queue.captured', () => {
+  const registry = new JobRegistry()
+  let ran = false
+  const job = defineJob('notify', S.Struct({ userId: S.String }), () => Effect.sync(() => { ran = true }), {
+    registry,
+  })
+
+  const app = new Hono()
+  const routes = new RouteRegistry()
+  app.use('*', effectBridge())
+  effectRoutes(app, { registry: routes }).post(
+    '/notify',
+    Effect.as(dispatchJob(job, { userId: 'u1' }, { delay: '1 minute' }), new Response(null, { status: 202 })),
+    { name: 'notify' }
+  )
+
+  const layer = Layer.provideMerge(TestLayer.Queue.captured(), TestLayer.Capture.make())
+
+  describeRoute('notify', app, routes, layer, (routeTest) => {
+    routeTest('captures jobs without running them', {
+      expect: { status: 202 },
+      assert: (ctx) => {
+        expect(ctx.captured.jobs).toEqual([{ name: 'notify', payload: { userId: 'u1' }, delay: '1 minute' }])
+        expect(ran).toBe(false)
+      },
+    })
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Rate Limit Tests
+ */
+
+import { describe, test, expect, afterEach, setSystemTime } from 'bun:test'
+import { Effect } from 'effect'
+import { Hono } from 'hono'
+import {
+  RateLimitLayer,
+  RateLimitService,
+  RouteRegistry,
+  TestLayer,
+  checkRateLimit,
+  createMemoryCacheClient,
+  effectRoutes,
+  rateLimit,
+  resolveRateLimitKey,
+  type LogEntry,
+  type RateLimitOptions,
+  type RequestContext,
+} from '../../src/effect/index.js'
+import { effectBridge, buildRequestContext } from '../../src/effect/bridge.js'
+
+const request = (headers: Record<string, string> = {}, url = 'http://localhost/api/search') =>
+  ({
+    method: 'POST',
+    url,
+    header: (name: string) => new Headers(headers).get(name) ?? undefined,
+  }) as RequestContext
+
+const check = (options: RateLimitOptions, ip = '203.0.113.7') => {
+  const app = new Hono()
+  app.get('/', (c) =>
+    Effect.runPromise(
+      checkRateLimit(options).pipe(Effect.provide(buildRequestContext(c)), Effect.map((r) => c.json(r)))
+    )
+  )
+  return app.request('/', { headers: { 'CF-Connecting-IP': ip } }).then((res) => res.json())
+}
+
+afterEach(() => setSystemTime())
+
+describe('resolveRateLimitKey', () => {
+  test('builds keys from the IP, user and route', () => {
+    const user = { user: { id: 'u1' } } as any
+
+    expect(resolveRateLimitKey({}, { request: request({ 'X-Forwarded-For': '198.51.100.1, 10.0.0.1' }) })).toBe(
+      'rate-limit:ip:198.51.100.1'
+    )
+    expect(resolveRateLimitKey({ key: ['user', 'route'] }, { request: request(), user })).toBe(
+      'rate-limit:user:u1:route:POST /api/search'
+    )
+    expect(resolveRateLimitKey({ key: 'user', prefix: 'rl' }, { request: request() })).toBe('rl:ip:unknown')
+    expect(
+      resolveRateLimitKey({ key: ({ request }) => `tenant:${request.header('x-tenant')}` }, {
+        request: request({ 'X-Tenant': 'acme' }),
+      })
+    ).toBe('rate-limit:tenant:acme')
+  })
+})
+
+describe('checkRateLimit', () => {
+  test('counts requests per fixed window', async () => {
+    setSystemTime(new Date('2026-01-01T00:00:10Z'))
+    const options = { limit: 2, window: '1 minute', cache: createMemoryCacheClient() } as const
+
+    expect(await check(options)).toMatchObject({ allowed: true, remaining: 1, reset: 50, window: 60 })
+    expect(await check(options)).toMatchObject({ allowed: true, remaining: 0 })
+    expect(await check(options)).toMatchObject({ allowed: false, remaining: 0, retryAfter: 50 })
+    expect(await check(options, '198.51.100.1')).toMatchObject({ allowed: true, remaining: 1 })
+
+    setSystemTime(new Date('2026-01-01T00:01:00Z'))
+    expect(await check(options)).toMatchObject({ allowed: true, remaining: 1 })
+  })
+
+  test('weights the previous window with the sliding algorithm', async () => {
+    const options = {
+      limit: 4,
+      window: '1 minute',
+      algorithm: 'sliding',
+      cache: createMemoryCacheClient(),
+    } as const
+
+    setSystemTime(new Date('2026-01-01T00:00:50Z'))
+    for (let i = 0; i < 4; i++) {
+      expect((await check(options)).allowed).toBe(true)
+    }
+    expect(await check(options)).toMatchObject({ allowed: false, retryAfter: 25 })
+
+    // 14s into the next window, 46/60 of the previous 4 requests still count
+    setSystemTime(new Date('2026-01-01T00:01:14Z'))
+    expect(await check(options)).toMatchObject({ allowed: false, retryAfter: 1 })
+
+    setSystemTime(new Date('2026-01-01T00:01:15Z'))
+    expect(await check(options)).toMatchObject({ allowed: true, remaining: 0 })
+
+    setSystemTime(new Date('2026-01-01T00:01:16Z'))
+    expect(await check(options)).toMatchObject({ allowed: false, retryAfter: 14 })
+  })
+
+  test('lets requests through and logs a warning when the cache fails', async () => {
+    const entries: LogEntry[] = []
+    const app = new Hono()
+    app.use('*', effectBridge({ logger: { write: (entry) => entries.push(entry) } }))
+    effectRoutes(app, { registry: new RouteRegistry() })
+      .middleware(rateLimit({ limit: 1, window: '1 minute' }))
+      .get('/search', Effect.succeed(new Response('ok')))
+
+    const res = await app.request('/search')
+
+    expect(res.status).toBe(200)
+    expect(entries.map((entry) => [entry.level, entry.message])).toEqual([
+      ['warn', 'Rate limit check failed, allowing request'],
+    ])
+    expect(entries[0].context).toMatchObject({ key: 'rate-limit:ip:unknown' })
+  })
+})
+
+describe('rateLimit middleware', () => {
+  const createApp = () => {
+    const app = new Hono()
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() })
+      .middleware(rateLimit({ key: 'ip', limit: 1, window: '1 minute', cache: createMemoryCacheClient() }))
+      .post('/login', Effect.succeed(new Response('welcome')))
+    return app
+  }
+
+  test('adds RateLimit headers to allowed responses', async () => {
+    setSystemTime(new Date('2026-01-01T00:00:30Z'))
+
+    const res = await createApp().request('/login', { method: 'POST' })
+
+    expect(res.status).toBe(200)
+    expect(Object.fromEntries([...res.headers].filter(([name]) => name.startsWith('ratelimit')))).toEqual({
+      'ratelimit-limit': '1',
+      'ratelimit-remaining': '0',
+      'ratelimit-reset': '30',
+      'ratelimit-policy': '1;w=60',
+    })
+  })
+
+  test('rejects requests over the limit with 429 and Retry-After', async () => {
+    setSystemTime(new Date('2026-01-01T00:00:30Z'))
+    const app = createApp()
+    await app.request('/login', { method: 'POST' })
+
+    const res = await app.request('/login', { method: 'POST' })
+    const body = (await res.json()) as { code: string }
+
+    expect(res.status).toBe(429)
+    expect(body.code).toBe('HON_HTTP_429_RATE_LIMITED')
+    expect(res.headers.get('Retry-After')).toBe('30')
+    expect(res.headers.get('RateLimit-Remaining')).toBe('0')
+  })
+})
+
+describe('RateLimitLayer', () => {
+  const createApp = () => {
+    const app = new Hono()
+    app.use('*', async (c, next) => {
+      c.set('authUser' as never, { user: { id: c.req.header('X-User') } } as never)
+      await next()
+    })
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() })
+      .provide(TestLayer.Cache.inMemory())
+      .provide(RateLimitLayer.fixed({ key: ['user', 'route'], limit: 2, window: '10 minutes' }))
+      .group((route) => {
+        route.get(
+          '/search',
+          Effect.map(RateLimitService, (result) => Response.json({ remaining: result.remaining }))
+        )
+        route.get('/reports', Effect.succeed(new Response('ok')))
+      })
+    return app
+  }
+
+  test('limits each user on each route through .provide()', async () => {
+    setSystemTime(new Date('2026-01-01T00:05:00Z'))
+    const app = createApp()
+    const search = (user: string) => app.request('/search', { headers: { 'X-User': user } })
+
+    expect(await (await search('u1')).json()).toEqual({ remaining: 1 })
+    expect(await (await search('u1')).json()).toEqual({ remaining: 0 })
+
+    const limited = await search('u1')
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).toBe('300')
+    expect(limited.headers.get('RateLimit-Policy')).toBe('2;w=600')
+
+    expect((await search('u2')).status).toBe(200)
+    const reports = await app.request('/reports', { headers: { 'X-User': 'u1' } })
+    expect(reports.status).toBe(200)
+    expect(reports.headers.get('RateLimit-Remaining')).toBe('1')
+  })
+})
@@ -6,6 +6,7 @@ import { describe, test, expect } from 'bun:test'
 import { Effect, Layer, Exit, Cause } from 'effect'
 import {
   redirect,
+  location,
   render,
   renderWithErrors,
   json,
@@ -16,26 +17,39 @@ import {
   prefersJson,
   jsonOrRender,
   share,
+  head,
+  urlFor,
+  redirectToRoute,
 } from '../../src/effect/responses.js'
 import {
   HonertiaService,
   ResponseFactoryService,
   RequestService,
+  HeadService,
+  RouteRegistryService,
   type HonertiaRenderer,
   type ResponseFactory,
   type RequestContext,
 } from '../../src/effect/services.js'
-import { Redirect, NotFoundError, ForbiddenError, HttpError } from '../../src/effect/errors.js'
+import {
+  Redirect,
+  NotFoundError,
+  ForbiddenError,
+  HttpError,
+  RouteConfigurationError,
+} from '../../src/effect/errors.js'
+import { RouteRegistry } from '../../src/effect/route-registry.js'
+import { defer, isDeferProp } from '../../src/props.js'
 
 // Mock HonertiaRenderer
 const createMockHonertia = (): HonertiaRenderer & {
   renders: Array<{ component: string; props?: Record<string, unknown> }>
   shared: Record<string, unknown>
-  errors: Record<string, string>
+  errors: Record<string, unknown>
 } => {
   const renders: Array<{ component: string; props?: Record<string, unknown> }> = []
   const shared: Record<string, unknown> = {}
-  let errors: Record<string, string> = {}
+  let errors: Record<string, unknown> = {}
 
   return {
     renders,
@@ -52,8 +66,10 @@ const createMockHonertia = (): HonertiaRenderer & {
     share: (key, value) => {
       shared[key] = value
     },
-    setErrors: (newErrors) => {
-      errors = { ...errors, ...newErrors }
+    setErrors: (newErrors, bag) => {
+      errors = bag
+        ? { ...errors, [bag]: { ...(errors[bag] as Record<string, string>), ...newErrors } }
+        : { ...errors, ...newErrors }
     },
   }
 }
@@ -111,6 +127,16 @@ describe('redirect', () => {
   })
 })
 
+describe('location', () => {
+  test('creates an external Redirect', () => {
+    const result = Effect.runSync(location('https://example.com/oauth'))
+
+    expect(result).toBeInstanceOf(Redirect)
+    expect(result.url).toBe('https://example.com/oauth')
+    expect(result.external).toBe(true)
+  })
+})
+
 describe('render', () => {
   test('renders component with props', async () => {
     const mockHonertia = createMockHonertia()
@@ -135,6 +161,23 @@ describe('render', () => {
     expect(mockHonertia.renders[0].component).toBe('Auth/Login')
     expect(mockHonertia.renders[0].props).toBeUndefined()
   })
+
+  test('passes deferred props through to the renderer unresolved', async () => {
+    const mockHonertia = createMockHonertia()
+    const layer = Layer.succeed(HonertiaService, mockHonertia)
+    let calls = 0
+
+    const effect = render('Dashboard', {
+      stats: defer(() => {
+        calls++
+        return 1
+      }),
+    })
+    await Effect.runPromise(Effect.provide(effect, layer))
+
+    expect(isDeferProp(mockHonertia.renders[0].props?.stats)).toBe(true)
+    expect(calls).toBe(0)
+  })
 })
 
 describe('renderWithErrors', () => {
@@ -170,6 +213,22 @@ describe('renderWithErrors', () => {
 
     expect(mockHonertia.renders[0].props).toEqual({ existingUser: { id: 1 } })
   })
+
+  test('scopes errors under a named bag', async () => {
+    const mockHonertia = createMockHonertia()
+    const layer = Layer.succeed(HonertiaService, mockHonertia)
+
+    const effect = renderWithErrors(
+      'Profile/Edit',
+      { password: 'Too short' },
+      undefined,
+      'updatePassword'
+    )
+
+    await Effect.runPromise(Effect.provide(effect, layer))
+
+    expect(mockHonertia.errors).toEqual({ updatePassword: { password: 'Too short' } })
+  })
 })
 
 describe('json', () => {
@@ -449,3 +508,100 @@ describe('share', () => {
     expect(mockHonertia.shared.auth).toEqual({ user: null })
   })
 })
+
+describe('head', () => {
+  test('sets head entries on the HeadService', () => {
+    const entries: unknown[] = []
+    const layer = Layer.succeed(HeadService, {
+      set: (entry) => {
+        entries.push(entry)
+      },
+      get: () => ({}),
+    })
+
+    const effect = Effect.gen(function* () {
+      yield* head({ title: 'Projects' })
+      yield* head({ meta: [{ name: 'description', content: 'All projects' }] })
+    })
+    Effect.runSync(Effect.provide(effect, layer))
+
+    expect(entries).toEqual([
+      { title: 'Projects' },
+      { meta: [{ name: 'description', content: 'All projects' }] },
+    ])
+  })
+})
+
+describe('urlFor', () => {
+  const registry = new RouteRegistry()
+  registry.register({
+    method: 'get',
+    path: '/projects/{project:slug}',
+    honoPath: '/projects/:project',
+    fullPath: '/orgs/:org/projects/:project',
+    bindings: [{ param: 'project', column: 'slug' }],
+    prefix: '/orgs/:org',
+    name: 'projects.show',
+  })
+  const layer = Layer.succeed(RouteRegistryService, registry)
+
+  const run = <A, E>(effect: Effect.Effect<A, E, RouteRegistryService>) =>
+    Effect.runSyncExit(Effect.provide(effect, layer))
+
+  const failure = <A, E>(effect: Effect.Effect<A, E, RouteRegistryService>) => {
+    const exit = run(effect)
+    if (Exit.isFailure(exit)) {
+      const option = Cause.failureOption(exit.cause)
+      if (option._tag === 'Some') return option.value as RouteConfigurationError
+    }
+    throw new Error('Expected failure')
+  }
+
+  test('substitutes params and bound model columns', () => {
+    const exit = run(urlFor('projects.show', { org: 7, project: { id: 1, slug: 'launch' } }, { tab: 'files' }))
+
+    expect(exit).toEqual(Exit.succeed('/orgs/7/projects/launch?tab=files'))
+  })
+
+  test('fails with HON_RTE_604 for unknown route names', () => {
+    const error = failure(urlFor('projects.edit'))
+
+    expect(error).toBeInstanceOf(RouteConfigurationError)
+    expect(error.route).toBe('projects.edit')
+    expect(error.toStructured().code).toBe('HON_RTE_604_ROUTE_NOT_FOUND')
+  })
+
+  test('fails with HON_RTE_605 for missing params', () => {
+    const error = failure(urlFor('projects.show', { org: 7 }))
+
+    expect(error.param).toBe('project')
+    expect(error.message).toBe('Route "projects.show" requires parameter "project".')
+    expect(error.toStructured().code).toBe('HON_RTE_605_ROUTE_PARAM_MISSING')
+  })
+})
+
+describe('redirectToRoute', () => {
+  test('redirects to the named route URL', () => {
+    const registry = new RouteRegistry()
+    registry.register({
+      method: 'get',
+      path: '/projects/{project}',
+      honoPath: '/projects/:project',
+      fullPath: '/projects/:project',
+      bindings: [{ param: 'project', column: 'id' }],
+      prefix: '',
+      name: 'projects.show',
+    })
+
+    const result = Effect.runSync(
+      Effect.provide(
+        redirectToRoute('projects.show', { project: { id: 5 } }),
+        Layer.succeed(RouteRegistryService, registry)
+      )
+    )
+
+    expect(result).toBeInstanceOf(Redirect)
+    expect(result.url).toBe('/projects/5')
+    expect(result.status).toBe(303)
+  })
+})
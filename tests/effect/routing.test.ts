@@ -15,7 +15,12 @@ import {
   type AuthUser,
 } from '../../src/effect/services.js'
 import { Redirect, UnauthorizedError } from '../../src/effect/errors.js'
+import { RouteRegistry } from '../../src/effect/route-registry.js'
+import { redirectToRoute, urlFor } from '../../src/effect/responses.js'
 import { uuid } from '../../src/effect/schema.js'
+import { RequireAuthLayer } from '../../src/effect/auth.js'
+import { RateLimitLayer } from '../../src/effect/rate-limit.js'
+import { TestLayer } from '../../src/effect/test-layers.js'
 
 // Helper to create test app
 const createApp = () => {
@@ -466,6 +471,40 @@ describe('EffectRouteBuilder', () => {
       expect(res.status).toBe(303)
       expect(res.headers.get('Location')).toBe('/created')
     })
+
+    test('redirectToRoute resolves names in the builder registry', async () => {
+      const app = createApp()
+      const registry = new RouteRegistry()
+      const routes = effectRoutes(app, { registry }).prefix('/teams/:team')
+
+      routes.get('/projects/{project:slug}', Effect.succeed(new Response('show')), {
+        name: 'projects.show',
+      })
+      routes.post(
+        '/projects',
+        redirectToRoute('projects.show', { team: 'acme', project: { slug: 'launch' } }),
+        { name: 'projects.store' }
+      )
+
+      const res = await app.request('/teams/acme/projects', { method: 'POST' })
+      expect(res.status).toBe(303)
+      expect(res.headers.get('Location')).toBe('/teams/acme/projects/launch')
+    })
+
+    test('urlFor fails with a structured error for unknown names', async () => {
+      const app = createApp()
+
+      effectRoutes(app, { registry: new RouteRegistry() }).get(
+        '/broken',
+        Effect.gen(function* () {
+          const url = yield* urlFor('missing.route')
+          return new Response(url)
+        })
+      )
+
+      const res = await app.request('/broken', { headers: { Accept: 'application/json' } })
+      expect(res.status).toBe(500)
+    })
   })
 
   describe('Error Handling', () => {
@@ -494,6 +533,196 @@ describe('EffectRouteBuilder', () => {
       expect(res.status).toBe(302)
     })
   })
+
+  describe('cacheControl option', () => {
+    const renderPricing = Effect.gen(function* () {
+      const honertia = yield* HonertiaService
+      return yield* Effect.promise(() => honertia.render('Pricing'))
+    })
+
+    test('sets Cache-Control on page responses and their 304s', async () => {
+      const app = createApp()
+      effectRoutes(app).get('/pricing', renderPricing, { cacheControl: 'private, max-age=60' })
+
+      const first = await app.request('/pricing', { headers: { 'X-Inertia': 'true' } })
+      const notModified = await app.request('/pricing', {
+        headers: { 'X-Inertia': 'true', 'If-None-Match': first.headers.get('ETag')! },
+      })
+
+      expect(first.headers.get('Cache-Control')).toBe('private, max-age=60')
+      expect(notModified.status).toBe(304)
+      expect(notModified.headers.get('Cache-Control')).toBe('private, max-age=60')
+    })
+
+    test('does not override Cache-Control set by the handler', async () => {
+      const app = createApp()
+      effectRoutes(app).get(
+        '/data',
+        Effect.succeed(new Response('ok', { headers: { 'Cache-Control': 'no-store' } })),
+        { cacheControl: 'public, max-age=60' }
+      )
+
+      const res = await app.request('/data')
+
+      expect(res.headers.get('Cache-Control')).toBe('no-store')
+    })
+  })
+
+  describe('Precognition', () => {
+    const ProjectBody = S.Struct({
+      name: S.String.pipe(S.minLength(1)),
+      description: S.String.pipe(S.minLength(1)),
+    })
+
+    const createPrecognitionApp = () => {
+      const app = createApp()
+      let invoked = 0
+      effectRoutes(app).post(
+        '/projects/{id}',
+        Effect.sync(() => {
+          invoked++
+          return new Response('created', { status: 201 })
+        }),
+        {
+          params: S.Struct({ id: uuid }),
+          body: ProjectBody,
+          query: S.Struct({ tab: S.optional(S.Literal('general', 'billing')) }),
+        }
+      )
+      return { app, invocations: () => invoked }
+    }
+
+    const validId = '550e8400-e29b-41d4-a716-446655440000'
+
+    const precognitive = (body: unknown, headers: Record<string, string> = {}) => ({
+      method: 'POST',
+      headers: { Precognition: 'true', 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    })
+
+    test('returns 204 without invoking the effect when input is valid', async () => {
+      const { app, invocations } = createPrecognitionApp()
+
+      const res = await app.request(
+        `/projects/${validId}`,
+        precognitive({ name: 'Honertia', description: 'Docs' })
+      )
+
+      expect(res.status).toBe(204)
+      expect(res.headers.get('Precognition')).toBe('true')
+      expect(res.headers.get('Precognition-Success')).toBe('true')
+      expect(res.headers.get('Vary')).toBe('Precognition')
+      expect(invocations()).toBe(0)
+    })
+
+    test('returns 422 with param, query and body errors combined', async () => {
+      const { app, invocations } = createPrecognitionApp()
+
+      const res = await app.request('/projects/not-a-uuid?tab=unknown', precognitive({ name: '' }))
+      const body = await res.json() as {
+        code: string
+        errors: Record<string, string>
+        validation: { fields: Record<string, unknown> }
+      }
+
+      expect(res.status).toBe(422)
+      expect(res.headers.get('Precognition')).toBe('true')
+      expect(res.headers.get('Precognition-Success')).toBeNull()
+      expect(Object.keys(body.errors).sort()).toEqual(['description', 'id', 'name', 'tab'])
+      expect(Object.keys(body.validation.fields).sort()).toEqual(['description', 'id', 'name', 'tab'])
+      expect(body.code).toMatch(/^HON_VAL_/)
+      expect(invocations()).toBe(0)
+    })
+
+    test('filters errors to Precognition-Validate-Only fields', async () => {
+      const { app } = createPrecognitionApp()
+
+      const res = await app.request(
+        `/projects/${validId}`,
+        precognitive({ name: '' }, { 'Precognition-Validate-Only': 'name' })
+      )
+      const body = await res.json() as { errors: Record<string, string> }
+
+      expect(res.status).toBe(422)
+      expect(Object.keys(body.errors)).toEqual(['name'])
+    })
+
+    test('returns 204 when only unlisted fields are invalid', async () => {
+      const { app } = createPrecognitionApp()
+
+      const res = await app.request(
+        `/projects/${validId}`,
+        precognitive({ name: 'Honertia' }, { 'Precognition-Validate-Only': 'name' })
+      )
+
+      expect(res.status).toBe(204)
+    })
+
+    test('rejects anonymous precognitive requests behind RequireAuthLayer', async () => {
+      const app = createApp()
+      let invoked = 0
+      effectRoutes(app)
+        .provide(RequireAuthLayer)
+        .post('/secrets', Effect.sync(() => {
+          invoked++
+          return new Response('created', { status: 201 })
+        }), { body: ProjectBody })
+
+      const res = await app.request(
+        '/secrets',
+        precognitive({ name: '' }, { Accept: 'application/json' })
+      )
+
+      expect(res.status).toBe(401)
+      expect(res.headers.get('Precognition')).toBeNull()
+      const body = await res.json() as { code: string; errors?: unknown }
+      expect(body.code).toBe('HON_AUTH_100_UNAUTHENTICATED')
+      expect(body.errors).toBeUndefined()
+      expect(invoked).toBe(0)
+    })
+
+    test('counts precognitive requests toward RateLimitLayer limits', async () => {
+      const app = createApp()
+      effectRoutes(app, { registry: new RouteRegistry() })
+        .provide(TestLayer.Cache.inMemory())
+        .provide(RateLimitLayer.fixed({ limit: 1, window: '1 minute' }))
+        .post('/projects', Effect.succeed(new Response('created', { status: 201 })), { body: ProjectBody })
+
+      const first = await app.request('/projects', precognitive({ name: 'Honertia', description: 'Docs' }))
+      const second = await app.request('/projects', precognitive({ name: 'Honertia', description: 'Docs' }))
+
+      expect(first.status).toBe(204)
+      expect(first.headers.get('RateLimit-Remaining')).toBe('0')
+      expect(second.status).toBe(429)
+      expect(second.headers.get('Retry-After')).not.toBeNull()
+    })
+
+    test('runs the effect for non-precognitive requests', async () => {
+      const { app, invocations } = createPrecognitionApp()
+
+      const res = await app.request(`/projects/${validId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Honertia', description: 'Docs' }),
+      })
+
+      expect(res.status).toBe(201)
+      expect(invocations()).toBe(1)
+    })
+
+    test('returns 422 for invalid route-level body schemas on regular requests', async () => {
+      const { app, invocations } = createPrecognitionApp()
+
+      const res = await app.request(`/projects/${validId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({ name: '' }),
+      })
+
+      expect(res.status).toBe(422)
+      expect(invocations()).toBe(0)
+    })
+  })
 })
 
 describe('Real-world Patterns', () => {
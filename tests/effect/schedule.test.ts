@@ -0,0 +1,157 @@
+/**
+ * Schedule Tests
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { Context, Effect, Layer } from 'effect'
+import {
+  CacheService,
+  ScheduleRegistry,
+  defineSchedule,
+  getGlobalScheduleRegistry,
+  resetGlobalScheduleRegistry,
+  runSchedule,
+  scheduleLockKey,
+  scheduled,
+  type LogEntry,
+} from '../../src/effect/index.js'
+import { effectBridge } from '../../src/effect/bridge.js'
+
+class Reports extends Context.Tag('test/Reports')<Reports, { sent: string[] }>() {}
+
+function createMemoryKV() {
+  const store = new Map<string, { value: string; ttl?: number }>()
+  return {
+    store,
+    get: async (key: string) => store.get(key)?.value ?? null,
+    put: async (key: string, value: string, options?: { expirationTtl?: number }) => {
+      store.set(key, { value, ttl: options?.expirationTtl })
+    },
+    delete: async (key: string) => {
+      store.delete(key)
+    },
+    list: async () => ({ keys: [], list_complete: true }),
+  }
+}
+
+describe('defineSchedule', () => {
+  beforeEach(() => resetGlobalScheduleRegistry())
+
+  test('registers tasks on the global registry', () => {
+    defineSchedule('0 * * * *', Effect.void, { name: 'prune-sessions', withoutOverlapping: true })
+    defineSchedule('*/5 * * * *', Effect.void)
+
+    expect(getGlobalScheduleRegistry().toJson()).toEqual([
+      { name: '*/5 * * * *', cron: '*/5 * * * *', withoutOverlapping: false },
+      { name: 'prune-sessions', cron: '0 * * * *', withoutOverlapping: true },
+    ])
+  })
+
+  test('numbers unnamed tasks on the same cron and rejects duplicate names', () => {
+    const registry = new ScheduleRegistry()
+    defineSchedule('0 * * * *', Effect.void, { registry })
+    defineSchedule('0 * * * *', Effect.void, { registry, withoutOverlapping: true })
+
+    expect(registry.forCron('0 * * * *').map((schedule) => schedule.name)).toEqual([
+      '0 * * * *',
+      '0 * * * * #2',
+    ])
+    expect(scheduleLockKey(registry.forCron('0 * * * *')[1].name)).toBe('schedule-lock:0 * * * * #2')
+    expect(() => defineSchedule('*/5 * * * *', Effect.void, { name: '0 * * * * #2', registry })).toThrow(
+      "Duplicate schedule name '0 * * * * #2'"
+    )
+  })
+})
+
+describe('runSchedule', () => {
+  test('runs tasks with the services effectBridge provides', async () => {
+    const reports = { sent: [] as string[] }
+    const registry = new ScheduleRegistry()
+    const schedule = defineSchedule<Reports>(
+      '0 8 * * *',
+      Effect.gen(function* () {
+        const { sent } = yield* Reports
+        const cache = yield* CacheService
+        sent.push((yield* cache.get('greeting')) ?? 'missing')
+      }),
+      { name: 'daily-report', registry }
+    )
+    const kv = createMemoryKV()
+    await kv.put('greeting', 'good morning')
+
+    const result = await runSchedule(schedule, {
+      middleware: effectBridge({ layer: Layer.succeed(Reports, reports) }),
+      env: { KV: kv },
+    })
+
+    expect(result).toEqual({ name: 'daily-report', status: 'completed' })
+    expect(reports.sent).toEqual(['good morning'])
+  })
+
+  test('skips runs while the overlap lock is held and releases it afterwards', async () => {
+    const registry = new ScheduleRegistry()
+    const kv = createMemoryKV()
+    let locked: { value: string; ttl?: number } | undefined
+    const schedule = defineSchedule(
+      '* * * * *',
+      Effect.sync(() => {
+        locked = kv.store.get(scheduleLockKey('sync'))
+      }),
+      { name: 'sync', withoutOverlapping: '10 seconds', registry }
+    )
+
+    expect(await runSchedule(schedule, { env: { KV: kv } })).toEqual({ name: 'sync', status: 'completed' })
+    expect(locked?.ttl).toBe(60)
+    expect(kv.store.has(scheduleLockKey('sync'))).toBe(false)
+
+    await kv.put(scheduleLockKey('sync'), 'held')
+    locked = undefined
+    expect(await runSchedule(schedule, { env: { KV: kv } })).toEqual({ name: 'sync', status: 'skipped' })
+    expect(locked).toBeUndefined()
+  })
+
+  test('releases the lock when the task fails', async () => {
+    const registry = new ScheduleRegistry()
+    const kv = createMemoryKV()
+    const schedule = defineSchedule('* * * * *', Effect.fail('api down'), {
+      name: 'import',
+      withoutOverlapping: true,
+      registry,
+    })
+
+    const entries: LogEntry[] = []
+
+    const result = await runSchedule(schedule, {
+      middleware: effectBridge({ logger: { write: (entry) => entries.push(entry) } }),
+      env: { KV: kv },
+    })
+
+    expect(result.status).toBe('failed')
+    expect(result.status === 'failed' && result.error).toContain('api down')
+    expect(kv.store.size).toBe(0)
+    expect(entries.map((entry) => [entry.level, entry.message])).toEqual([['error', 'Scheduled task failed']])
+    expect(entries[0].context).toMatchObject({ schedule: 'import', cron: '* * * * *' })
+  })
+})
+
+describe('scheduled', () => {
+  test('runs the tasks registered for the trigger cron', async () => {
+    const registry = new ScheduleRegistry()
+    const ran: string[] = []
+    defineSchedule('0 * * * *', Effect.sync(() => ran.push('hourly')), { name: 'hourly', registry })
+    defineSchedule('0 0 * * *', Effect.sync(() => ran.push('daily')), { name: 'daily', registry })
+
+    await scheduled({ registry })({ cron: '0 * * * *', scheduledTime: Date.now() }, {})
+
+    expect(ran).toEqual(['hourly'])
+  })
+
+  test('throws when a task fails', async () => {
+    const registry = new ScheduleRegistry()
+    defineSchedule('0 * * * *', Effect.fail('boom'), { name: 'broken', registry })
+
+    await expect(
+      scheduled({ registry })({ cron: '0 * * * *', scheduledTime: Date.now() }, {})
+    ).rejects.toThrow('Scheduled task failed: broken')
+  })
+})
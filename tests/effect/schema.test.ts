@@ -68,6 +68,11 @@ import {
   size,
   min,
   max,
+  // File rules
+  file,
+  image,
+  mimes,
+  maxFileSize,
   // Password
   password,
   // Utility
@@ -75,6 +80,7 @@ import {
   filled,
   excludeIf,
 } from '../../src/effect/schema.js'
+import { validateUnknown } from '../../src/effect/validation.js'
 
 const decode = <A, I>(schema: S.Schema<A, I>, value: unknown) =>
   Effect.runSync(S.decodeUnknown(schema)(value))
@@ -770,6 +776,82 @@ describe('Size Rules', () => {
   })
 })
 
+// =============================================================================
+// File Rules
+// =============================================================================
+
+describe('File Rules', () => {
+  const pdf = new File(['%PDF-1.7'], 'report.pdf', { type: 'application/pdf' })
+  const png = new File([new Uint8Array(2048)], 'avatar.png', { type: 'image/png' })
+  const svg = new File(['<svg/>'], 'logo.svg', { type: 'image/svg+xml' })
+  const empty = new File([], '', { type: 'application/octet-stream' })
+
+  const validationErrors = (schema: S.Schema.AnyNoContext, data: unknown) => {
+    const exit = Effect.runSyncExit(Effect.flip(validateUnknown(schema, data)))
+    return exit._tag === 'Success' ? exit.value.errors : undefined
+  }
+
+  describe('file', () => {
+    test('accepts uploaded files', () => {
+      expect(decode(file(), pdf)).toBe(pdf)
+    })
+
+    test('rejects non-file values and empty file inputs', () => {
+      const schema = S.Struct({ attachment: file() })
+
+      expect(validationErrors(schema, { attachment: 'report.pdf' })).toEqual({
+        attachment: 'Must be a file',
+      })
+      expect(validationErrors(schema, { attachment: empty })).toEqual({
+        attachment: 'This field is required',
+      })
+    })
+  })
+
+  describe('mimes', () => {
+    test('matches extensions, MIME types and wildcards', () => {
+      expect(decode(file().pipe(mimes(['pdf'])), pdf)).toBe(pdf)
+      expect(decode(file().pipe(mimes(['application/pdf'])), pdf)).toBe(pdf)
+      expect(decode(file().pipe(mimes(['image/*'])), png)).toBe(png)
+    })
+
+    test('fails with the allowed types', () => {
+      const schema = S.Struct({ attachment: file().pipe(mimes(['pdf', 'docx'])) })
+
+      expect(validationErrors(schema, { attachment: png })).toEqual({
+        attachment: 'Must be a file of type: pdf, docx',
+      })
+    })
+  })
+
+  describe('maxFileSize', () => {
+    test('validates file size in bytes', () => {
+      expect(decode(file().pipe(maxFileSize(2048)), png)).toBe(png)
+      expect(validationErrors(S.Struct({ avatar: file().pipe(maxFileSize(1024)) }), { avatar: png })).toEqual({
+        avatar: 'Must not be larger than 1 KB',
+      })
+    })
+  })
+
+  describe('image', () => {
+    test('accepts raster images', () => {
+      expect(decode(image(), png)).toBe(png)
+    })
+
+    test('rejects other files, including SVG', () => {
+      const schema = S.Struct({ avatar: image() })
+
+      expect(validationErrors(schema, { avatar: pdf })).toEqual({ avatar: 'Must be an image' })
+      expect(validationErrors(schema, { avatar: svg })).toEqual({ avatar: 'Must be an image' })
+    })
+
+    test('composes with maxFileSize', () => {
+      const schema = image().pipe(maxFileSize(1024 * 1024))
+      expect(decode(schema, png)).toBe(png)
+    })
+  })
+})
+
 // =============================================================================
 // Password
 // =============================================================================
@@ -4,7 +4,7 @@
 
 import { describe, test, expect, beforeEach } from 'bun:test'
 import { Hono } from 'hono'
-import { Effect } from 'effect'
+import { Effect, Schema as S } from 'effect'
 import {
   RouteRegistry,
   resetGlobalRegistry,
@@ -12,6 +12,8 @@ import {
   describeRoute,
   createRouteTester,
   generateTestCases,
+  ValidationError,
+  location,
 } from '../../src/effect/index.js'
 import { honertia } from '../../src/middleware.js'
 import { effectBridge } from '../../src/effect/bridge.js'
@@ -121,6 +123,44 @@ describe('describeRoute Integration', () => {
   })
 })
 
+describe('describeRoute precognitive', () => {
+  const app = new Hono()
+  const registry = new RouteRegistry()
+  app.use('*', effectBridge())
+
+  effectRoutes(app, { registry }).post(
+    '/teams',
+    Effect.fail(new Error('effect should not run')),
+    {
+      name: 'teams.create',
+      body: S.Struct({
+        name: S.String.pipe(S.minLength(1)),
+        slug: S.String.pipe(S.minLength(1)),
+      }),
+    }
+  )
+
+  describeRoute('teams.create', app, registry, (routeTest) => {
+    routeTest.precognitive('passes valid input', {
+      body: { name: 'Core', slug: 'core' },
+    })
+
+    routeTest.precognitive('reports invalid fields', {
+      body: { name: '', slug: '' },
+      expect: { errors: { name: '', slug: '' } },
+    })
+
+    routeTest.precognitive('validates only the requested fields', {
+      body: { name: '' },
+      validateOnly: ['name'],
+      expect: { errors: { name: '' } },
+      assert: (ctx) => {
+        expect(Object.keys((ctx.json as { errors: object }).errors)).toEqual(['name'])
+      },
+    })
+  })
+})
+
 describe('createRouteTester', () => {
   beforeEach(() => {
     resetGlobalRegistry()
@@ -261,6 +301,59 @@ describe('Test Expectations - Regex Headers', () => {
   })
 })
 
+describe('Test Expectations - Error Bags', () => {
+  const bagApp = new Hono()
+  const bagRegistry = new RouteRegistry()
+
+  bagApp.use('*', honertia({ version: '1.0.0', render: (page) => JSON.stringify(page) }))
+  bagApp.use('*', effectBridge())
+  effectRoutes(bagApp, { registry: bagRegistry }).put(
+    '/password',
+    Effect.fail(
+      new ValidationError({ errors: { password: 'Too short' }, component: 'Profile/Edit' })
+    ),
+    { name: 'password.update' }
+  )
+
+  describeRoute('password.update', bagApp, bagRegistry, (routeTest) => {
+    routeTest('checks errors scoped under a bag', {
+      headers: {
+        Accept: 'text/html',
+        'X-Inertia': 'true',
+        'X-Inertia-Error-Bag': 'updatePassword',
+      },
+      expect: {
+        component: 'Profile/Edit',
+        errorBag: 'updatePassword',
+        errors: { password: 'Too short' },
+      },
+    })
+  })
+})
+
+describe('Test Expectations - Location', () => {
+  const locationApp = new Hono()
+  const locationRegistry = new RouteRegistry()
+
+  locationApp.use('*', effectBridge())
+  effectRoutes(locationApp, { registry: locationRegistry }).post(
+    '/checkout',
+    location('https://checkout.example.com/session'),
+    { name: 'checkout.store' }
+  )
+
+  describeRoute('checkout.store', locationApp, locationRegistry, (routeTest) => {
+    routeTest('asserts X-Inertia-Location for Inertia requests', {
+      headers: { 'X-Inertia': 'true' },
+      expect: { status: 409, location: 'https://checkout.example.com/session' },
+    })
+
+    routeTest('asserts Location for standard requests', {
+      expect: { status: 302, location: /^https:\/\/checkout\.example\.com/ },
+    })
+  })
+})
+
 describe('Test User Authentication', () => {
   const { app, registry } = createTestApp()
 
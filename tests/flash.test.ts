@@ -0,0 +1,329 @@
+/**
+ * Flash Data Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Hono } from 'hono'
+import { Effect } from 'effect'
+import { honertia, HEADERS } from '../src/middleware.js'
+import { flashMiddleware, cookieFlashDriver, kvFlashDriver } from '../src/flash.js'
+import { setupHonertia } from '../src/setup.js'
+import { effectBridge } from '../src/effect/bridge.js'
+import { effectRoutes } from '../src/effect/routing.js'
+import { RouteRegistry } from '../src/effect/route-registry.js'
+import { flash, redirect, render } from '../src/effect/responses.js'
+import { ValidationError } from '../src/effect/errors.js'
+import type { PageObject } from '../src/types.js'
+
+/**
+ * Collect Set-Cookie headers into a Cookie request header value.
+ */
+function cookiesFrom(res: Response): string {
+  return res.headers
+    .getSetCookie()
+    .map((cookie) => cookie.split(';')[0])
+    .filter((pair) => !pair.endsWith('='))
+    .join('; ')
+}
+
+function createMemoryKV() {
+  const store = new Map<string, string>()
+  return {
+    store,
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      store.set(key, value)
+    },
+    delete: async (key: string) => {
+      store.delete(key)
+    },
+  }
+}
+
+const SECRET = 'flash-test-secret'
+
+const createApp = (driver = cookieFlashDriver({ secret: SECRET })) => {
+  const app = new Hono()
+  app.use('*', honertia({ version: '1.0.0', render: (page) => JSON.stringify(page) }))
+  app.use('*', flashMiddleware({ driver }))
+  return app
+}
+
+describe('flashMiddleware', () => {
+  test('carries flash messages across one redirect', async () => {
+    const app = createApp()
+    app.post('/projects', (c) => {
+      c.var.flash.put('success', 'Project created.')
+      return c.redirect('/projects', 303)
+    })
+    app.get('/projects', (c) => c.var.honertia.render('Projects/Index'))
+
+    const post = await app.request('/projects', { method: 'POST' })
+    const cookie = cookiesFrom(post)
+    expect(cookie).toContain('honertia_flash=')
+
+    const next = await app.request('/projects', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookie },
+    })
+    const page = (await next.json()) as PageObject
+    expect(page.props.flash).toEqual({ success: 'Project created.' })
+  })
+
+  test('clears flash data after it has been read', async () => {
+    const app = createApp()
+    app.post('/', (c) => {
+      c.var.flash.put('success', 'Saved')
+      return c.redirect('/', 303)
+    })
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const post = await app.request('/', { method: 'POST' })
+    const next = await app.request('/', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookiesFrom(post) },
+    })
+
+    const setCookie = next.headers.getSetCookie().join('\n')
+    expect(setCookie).toContain('honertia_flash=;')
+    expect(setCookie).toContain('Max-Age=0')
+  })
+
+  test('merges flashed errors into the errors prop', async () => {
+    const app = createApp()
+    app.post('/login', (c) => {
+      c.var.flash.putErrors({ email: 'Invalid credentials' })
+      return c.redirect('/login', 303)
+    })
+    app.get('/login', (c) => c.var.honertia.render('Auth/Login'))
+
+    const post = await app.request('/login', { method: 'POST' })
+    const next = await app.request('/login', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookiesFrom(post) },
+    })
+
+    const page = (await next.json()) as PageObject
+    expect(page.props.errors).toEqual({ email: 'Invalid credentials' })
+  })
+
+  test('shares an empty flash prop when nothing was flashed', async () => {
+    const app = createApp()
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const res = await app.request('/', { headers: { [HEADERS.HONERTIA]: 'true' } })
+    const page = (await res.json()) as PageObject
+    expect(page.props.flash).toEqual({})
+    expect(res.headers.getSetCookie()).toEqual([])
+  })
+
+  test('flash prop survives partial reloads', async () => {
+    const app = createApp()
+    app.post('/', (c) => {
+      c.var.flash.put('success', 'Saved')
+      return c.redirect('/', 303)
+    })
+    app.get('/', (c) => c.var.honertia.render('Home', { users: [1] }))
+
+    const post = await app.request('/', { method: 'POST' })
+    const next = await app.request('/', {
+      headers: {
+        [HEADERS.HONERTIA]: 'true',
+        [HEADERS.PARTIAL_COMPONENT]: 'Home',
+        [HEADERS.PARTIAL_DATA]: 'users',
+        Cookie: cookiesFrom(post),
+      },
+    })
+
+    const page = (await next.json()) as PageObject
+    expect(page.props.flash).toEqual({ success: 'Saved' })
+  })
+
+  test('ignores malformed flash cookies', async () => {
+    const app = createApp()
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const res = await app.request('/', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: 'honertia_flash=not-json' },
+    })
+    const page = (await res.json()) as PageObject
+    expect(page.props.flash).toEqual({})
+  })
+
+  test('ignores flash cookies that are unsigned or signed with another secret', async () => {
+    const forged = createApp(cookieFlashDriver({ secret: 'attacker-secret' }))
+    forged.post('/', (c) => {
+      c.var.flash.putErrors({ email: 'Forged' })
+      return c.redirect('/', 303)
+    })
+    const forgedCookie = cookiesFrom(await forged.request('/', { method: 'POST' }))
+
+    const app = createApp()
+    app.get('/', (c) => c.var.honertia.render('Home'))
+    const unsigned = `honertia_flash=${encodeURIComponent(JSON.stringify({ messages: { success: 'Forged' } }))}`
+
+    for (const cookie of [unsigned, forgedCookie]) {
+      const res = await app.request('/', { headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookie } })
+      const page = (await res.json()) as PageObject
+      expect(page.props.flash).toEqual({})
+      expect(page.props.errors).toEqual({})
+    }
+  })
+
+  test('requires a secret or a driver', () => {
+    expect(() => flashMiddleware({})).toThrow('requires a `secret`')
+  })
+})
+
+describe('kvFlashDriver', () => {
+  test('stores flash data in KV keyed by a cookie ID', async () => {
+    const kv = createMemoryKV()
+    const app = createApp(kvFlashDriver({ kv: () => kv }))
+    app.post('/', (c) => {
+      c.var.flash.put('success', 'Saved')
+      return c.redirect('/', 303)
+    })
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const post = await app.request('/', { method: 'POST' })
+    const cookie = cookiesFrom(post)
+    expect(cookie).toContain('honertia_flash_id=')
+    expect(kv.store.size).toBe(1)
+
+    const next = await app.request('/', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookie },
+    })
+    const page = (await next.json()) as PageObject
+    expect(page.props.flash).toEqual({ success: 'Saved' })
+    expect(kv.store.size).toBe(0)
+  })
+
+  test('reads the KV namespace from env bindings', async () => {
+    const kv = createMemoryKV()
+    const app = createApp(kvFlashDriver({ binding: 'SESSIONS' }))
+    app.post('/', (c) => {
+      c.var.flash.put('notice', 'Hi')
+      return c.redirect('/', 303)
+    })
+
+    await app.request('/', { method: 'POST' }, { SESSIONS: kv })
+    expect([...kv.store.keys()][0]).toStartWith('flash:')
+  })
+
+  test('treats a missing KV binding as no flash data', async () => {
+    const app = createApp(kvFlashDriver({ binding: 'SESSIONS' }))
+    app.post('/', (c) => {
+      c.var.flash.put('notice', 'Hi')
+      return c.redirect('/', 303)
+    })
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const post = await app.request('/', { method: 'POST' })
+    expect(post.status).toBe(303)
+    expect(post.headers.getSetCookie()).toEqual([])
+
+    const res = await app.request('/', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: 'honertia_flash_id=abc' },
+    })
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as PageObject).props.flash).toEqual({})
+  })
+})
+
+describe('flash() Effect helper', () => {
+  const createEffectApp = () => {
+    const app = new Hono()
+    app.use(
+      '*',
+      setupHonertia({
+        honertia: { version: '1.0.0', render: (page) => JSON.stringify(page) },
+        flash: { secret: SECRET },
+      })
+    )
+    return app
+  }
+
+  test('flashes messages from an action', async () => {
+    const app = createEffectApp()
+    const registry = new RouteRegistry()
+    effectRoutes(app, { registry }).post(
+      '/projects',
+      Effect.gen(function* () {
+        yield* flash('success', 'Project created.')
+        yield* flash({ highlight: 'p1' })
+        return yield* redirect('/projects')
+      })
+    )
+    effectRoutes(app, { registry }).get('/projects', render('Projects/Index'))
+
+    const post = await app.request('/projects', { method: 'POST' })
+    const next = await app.request('/projects', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookiesFrom(post) },
+    })
+
+    const page = (await next.json()) as PageObject
+    expect(page.props.flash).toEqual({ success: 'Project created.', highlight: 'p1' })
+  })
+
+  test('validation errors survive the redirect back', async () => {
+    const app = createEffectApp()
+    const registry = new RouteRegistry()
+    effectRoutes(app, { registry }).post(
+      '/projects',
+      Effect.fail(new ValidationError({ errors: { name: 'Name is required' } }))
+    )
+    effectRoutes(app, { registry }).get('/projects/create', render('Projects/Create'))
+
+    const post = await app.request('/projects', {
+      method: 'POST',
+      headers: { [HEADERS.HONERTIA]: 'true', Referer: '/projects/create' },
+    })
+    expect(post.status).toBe(303)
+    expect(post.headers.get('Location')).toBe('/projects/create')
+
+    const next = await app.request('/projects/create', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookiesFrom(post) },
+    })
+    const page = (await next.json()) as PageObject
+    expect(page.props.errors).toEqual({ name: 'Name is required' })
+  })
+
+  test('validation errors keep their error bag across the redirect', async () => {
+    const app = createEffectApp()
+    const registry = new RouteRegistry()
+    effectRoutes(app, { registry }).put(
+      '/password',
+      Effect.fail(new ValidationError({ errors: { password: 'Too short' } }))
+    )
+    effectRoutes(app, { registry }).get('/profile', render('Profile/Edit'))
+
+    const put = await app.request('/password', {
+      method: 'PUT',
+      headers: {
+        [HEADERS.HONERTIA]: 'true',
+        [HEADERS.ERROR_BAG]: 'updatePassword',
+        Referer: '/profile',
+      },
+    })
+
+    const next = await app.request('/profile', {
+      headers: { [HEADERS.HONERTIA]: 'true', Cookie: cookiesFrom(put) },
+    })
+    const page = (await next.json()) as PageObject
+    expect(page.props.errors).toEqual({ updatePassword: { password: 'Too short' } })
+  })
+
+  test('falls back to the current request without flash middleware', async () => {
+    const app = new Hono()
+    app.use('*', honertia({ version: '1.0.0', render: (page) => JSON.stringify(page) }))
+    app.use('*', effectBridge())
+    effectRoutes(app, { registry: new RouteRegistry() }).get(
+      '/',
+      Effect.gen(function* () {
+        yield* flash('notice', 'Inline')
+        return yield* render('Home')
+      })
+    )
+
+    const res = await app.request('/', { headers: { [HEADERS.HONERTIA]: 'true' } })
+    const page = (await res.json()) as PageObject
+    expect(page.props.flash).toEqual({ notice: 'Inline' })
+  })
+})
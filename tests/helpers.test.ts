@@ -5,7 +5,8 @@
  */
 
 import { describe, test, expect } from 'bun:test'
-import { createTemplate, createVersion } from '../src/helpers.js'
+import { createTemplate, createVersion, vite } from '../src/helpers.js'
+import type { AssetManifest } from '../src/helpers.js'
 import type { PageObject } from '../src/types.js'
 
 describe('createTemplate', () => {
@@ -154,6 +155,20 @@ describe('createTemplate', () => {
       )
     })
 
+    test('includes modulepreload tags for provided preloads', () => {
+      const template = createTemplate({ preloads: ['/assets/vendor.js'] })
+      const page: PageObject = {
+        component: 'Home',
+        props: {},
+        url: '/',
+        version: '1.0.0',
+      }
+
+      const html = template(page)
+
+      expect(html).toContain('<link rel="modulepreload" href="/assets/vendor.js">')
+    })
+
     test('includes link tags for provided styles', () => {
       const template = createTemplate({
         styles: ['/assets/app.css', '/assets/vendor.css'],
@@ -242,6 +257,124 @@ describe('createTemplate', () => {
     })
   })
 
+  describe('Server-Side Rendering', () => {
+    const page: PageObject = {
+      component: 'Home',
+      props: {},
+      url: '/',
+      version: '1.0.0',
+    }
+
+    test('replaces the root element with the SSR body', () => {
+      const template = createTemplate({ rootId: 'app' })
+      const html = template(page, undefined, {
+        head: [],
+        body: '<div id="app" data-page="{}"><h1>Hello</h1></div>',
+      })
+
+      expect(html).toContain('<h1>Hello</h1>')
+      expect(html).not.toContain("data-page='")
+    })
+
+    test('appends SSR head tags to the document head', () => {
+      const template = createTemplate({ title: 'App' })
+      const html = template(page, undefined, {
+        head: ['<title inertia>Home</title>', '<meta name="description" content="Hi">'],
+        body: '<div id="app"></div>',
+      })
+
+      const head = html.slice(0, html.indexOf('</head>'))
+      expect(head).toContain('<title inertia>Home</title>')
+      expect(head).toContain('<meta name="description" content="Hi">')
+    })
+
+    test('accepts a string SSR head', () => {
+      const template = createTemplate({})
+      const html = template(page, undefined, {
+        head: '<meta name="robots" content="index">',
+        body: '<div id="app"></div>',
+      })
+
+      expect(html).toContain('<meta name="robots" content="index">')
+    })
+  })
+
+  describe('CSP Nonce', () => {
+    const page: PageObject = { component: 'Home', props: {}, url: '/', version: '1.0.0' }
+
+    test('applies an explicit nonce to generated and inline tags', () => {
+      const template = createTemplate({
+        nonce: 'r4nd0m',
+        scripts: ['/main.js'],
+        head: '<script>window.x = 1</script><script nonce="keep">1</script>',
+      })
+
+      const html = template(page)
+
+      expect(html).toContain('<script type="module" src="/main.js" nonce="r4nd0m"></script>')
+      expect(html).toContain('<script nonce="r4nd0m">window.x = 1</script>')
+      expect(html).toContain('<script nonce="keep">1</script>')
+    })
+
+    test('applies the nonce to SSR output', () => {
+      const template = createTemplate({ nonce: 'r4nd0m' })
+
+      const html = template(page, undefined, {
+        head: '<style>.a{}</style>',
+        body: '<div id="app"></div><script>hydrate()</script>',
+      })
+
+      expect(html).toContain('<style nonce="r4nd0m">.a{}</style>')
+      expect(html).toContain('<script nonce="r4nd0m">hydrate()</script>')
+    })
+
+    test('escapes the nonce', () => {
+      const template = createTemplate({ nonce: '"><x', scripts: ['/main.js'] })
+
+      expect(template(page)).toContain('nonce="&quot;&gt;&lt;x"')
+    })
+  })
+
+  describe('Document Head', () => {
+    test('renders the page title and head entries', () => {
+      const template = createTemplate({ title: 'Default', nonce: 'n1' })
+      const page: PageObject = {
+        component: 'Pricing',
+        props: {},
+        url: '/pricing',
+        version: '1.0.0',
+        head: {
+          title: 'Pricing & Plans',
+          meta: [
+            { name: 'description', content: 'Compare "plans"' },
+            { httpEquiv: 'content-language', content: 'en' },
+          ],
+          link: [{ rel: 'canonical', href: 'https://acme.test/pricing' }],
+          jsonLd: [{ '@type': 'Product', name: '</script><script>alert(1)</script>' }],
+        },
+      }
+
+      const html = template(page)
+
+      expect(html).toContain('<title>Pricing &amp; Plans</title>')
+      expect(html).not.toContain('<title>Default</title>')
+      expect(html).toContain(
+        '<meta name="description" content="Compare &quot;plans&quot;" data-honertia-head>'
+      )
+      expect(html).toContain('<meta http-equiv="content-language" content="en" data-honertia-head>')
+      expect(html).toContain('<link rel="canonical" href="https://acme.test/pricing" data-honertia-head>')
+      expect(html).toContain('<script type="application/ld+json" nonce="n1" data-honertia-head>')
+      expect(html).not.toContain('</script><script>alert(1)')
+    })
+
+    test('falls back to the template title', () => {
+      const template = createTemplate({ title: 'Default' })
+      const page: PageObject = { component: 'Home', props: {}, url: '/', version: '1.0.0', head: {} }
+
+      expect(template(page)).toContain('<title>Default</title>')
+    })
+  })
+
   describe('XSS Prevention', () => {
     test('escapes HTML entities in page props to prevent XSS', () => {
       const template = createTemplate({})
@@ -569,3 +702,89 @@ describe('Template Integration', () => {
     expect(html).toContain('"url":"/dashboard"')
   })
 })
+
+describe('vite.fromManifest', () => {
+  const manifest: AssetManifest = {
+    'src/main.tsx': {
+      file: 'assets/main-4f2a.js',
+      src: 'src/main.tsx',
+      isEntry: true,
+      imports: ['_vendor-9c1d.js', '_shared-77ab.js'],
+      dynamicImports: ['src/pages/Settings.tsx'],
+      css: ['assets/main-1b3c.css'],
+    },
+    '_vendor-9c1d.js': {
+      file: 'assets/vendor-9c1d.js',
+      imports: ['_shared-77ab.js'],
+      css: ['assets/vendor-e5f6.css'],
+    },
+    '_shared-77ab.js': {
+      file: 'assets/shared-77ab.js',
+      imports: ['_vendor-9c1d.js'],
+      css: ['assets/main-1b3c.css'],
+    },
+    'src/pages/Settings.tsx': {
+      file: 'assets/Settings-0a0a.js',
+      isDynamicEntry: true,
+      css: ['assets/Settings-0b0b.css'],
+    },
+  }
+
+  const devCtx = { env: { ENVIRONMENT: 'development' } } as any
+  const prodCtx = { env: { ENVIRONMENT: 'production' } } as any
+
+  test('resolves the entry script, preloads, and transitive CSS', () => {
+    const assets = vite.fromManifest(manifest, 'src/main.tsx')(prodCtx)
+
+    expect(assets.scripts).toEqual(['/assets/main-4f2a.js'])
+    expect(assets.preloads).toEqual(['/assets/vendor-9c1d.js', '/assets/shared-77ab.js'])
+    expect(assets.styles).toEqual(['/assets/main-1b3c.css', '/assets/vendor-e5f6.css'])
+    expect(assets.head).toBe('')
+  })
+
+  test('does not preload dynamic imports', () => {
+    const assets = vite.fromManifest(manifest, 'src/main.tsx')(prodCtx)
+
+    expect(assets.preloads).not.toContain('/assets/Settings-0a0a.js')
+    expect(assets.styles).not.toContain('/assets/Settings-0b0b.css')
+  })
+
+  test('prefixes files with the configured base', () => {
+    const assets = vite.fromManifest(manifest, 'src/main.tsx', { base: '/build' })(prodCtx)
+
+    expect(assets.scripts).toEqual(['/build/assets/main-4f2a.js'])
+  })
+
+  test('uses the dev server in development', () => {
+    const assets = vite.fromManifest({}, 'src/main.tsx', { port: 3000 })(devCtx)
+
+    expect(assets.scripts).toEqual(['http://localhost:3000/src/main.tsx'])
+    expect(assets.head).toContain('http://localhost:3000/@vite/client')
+    expect(assets.styles).toEqual([])
+    expect(assets.preloads).toEqual([])
+  })
+
+  test('honors an explicit dev option', () => {
+    const assets = vite.fromManifest(manifest, 'src/main.tsx', { dev: false })(devCtx)
+
+    expect(assets.scripts).toEqual(['/assets/main-4f2a.js'])
+  })
+
+  test('throws a configuration error for unknown entries', () => {
+    const assets = vite.fromManifest(manifest, 'src/app.tsx')
+
+    expect(() => assets(prodCtx)).toThrow('Vite manifest has no entry for "src/app.tsx"')
+  })
+
+  test('spreads into createTemplate', () => {
+    const assets = vite.fromManifest(manifest, 'src/main.tsx')
+    const template = createTemplate((ctx) => ({ title: 'App', ...assets(ctx) }))
+    const page: PageObject = { component: 'Home', props: {}, url: '/', version: '1' }
+
+    const html = template(page, prodCtx)
+
+    expect(html).toContain('<script type="module" src="/assets/main-4f2a.js"></script>')
+    expect(html).toContain('<link rel="modulepreload" href="/assets/vendor-9c1d.js">')
+    expect(html).toContain('<link rel="stylesheet" href="/assets/vendor-e5f6.css">')
+  })
+})
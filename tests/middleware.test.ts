@@ -6,6 +6,7 @@ import { describe, test, expect } from 'bun:test'
 import { Hono } from 'hono'
 import { honertia, HEADERS } from '../src/middleware.js'
 import type { PageObject } from '../src/types.js'
+import { defer, merge, deepMerge, optional, always } from '../src/props.js'
 import {
   createTestApp,
   makeInertiaRequest,
@@ -340,6 +341,578 @@ describe('Honertia Middleware', () => {
     })
   })
 
+  describe('Deferred Props', () => {
+    test('omits deferred props from the initial page and lists them by group', async () => {
+      const app = createApp()
+      let calls = 0
+      app.get('/', (c) =>
+        c.var.honertia.render('Dashboard', {
+          user: { id: 1 },
+          stats: defer(() => {
+            calls++
+            return { count: 10 }
+          }),
+          activity: defer(() => ['login'], 'sidebar'),
+          teams: defer(() => ['core'], 'sidebar'),
+        })
+      )
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.user).toEqual({ id: 1 })
+      expect(json.props.stats).toBeUndefined()
+      expect(json.props.activity).toBeUndefined()
+      expect(json.deferredProps).toEqual({
+        default: ['stats'],
+        sidebar: ['activity', 'teams'],
+      })
+      expect(calls).toBe(0)
+    })
+
+    test('omits deferredProps when nothing is deferred', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home', { title: 'Welcome' }))
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.deferredProps).toBeUndefined()
+    })
+
+    test('includes deferred props in the HTML page object', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Dashboard', { stats: defer(() => 1) })
+      )
+
+      const html = await (await app.request('/')).text()
+      expect(html).toContain('"deferredProps":{"default":["stats"]}')
+    })
+
+    test('resolves deferred props on a matching partial reload', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Dashboard', {
+          user: { id: 1 },
+          stats: defer(async () => ({ count: 10 })),
+          activity: defer(() => ['login'], 'sidebar'),
+        })
+      )
+
+      const res = await app.request('/', {
+        headers: {
+          [HEADERS.HONERTIA]: 'true',
+          [HEADERS.PARTIAL_COMPONENT]: 'Dashboard',
+          [HEADERS.PARTIAL_DATA]: 'stats',
+        },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.stats).toEqual({ count: 10 })
+      expect(json.props.user).toBeUndefined()
+      expect(json.props.activity).toBeUndefined()
+      expect(json.deferredProps).toBeUndefined()
+    })
+
+    test('does not resolve deferred props on partial reloads that only use except', async () => {
+      const app = createApp()
+      let calls = 0
+      app.get('/', (c) =>
+        c.var.honertia.render('Dashboard', {
+          user: { id: 1 },
+          stats: defer(() => {
+            calls++
+            return 1
+          }),
+        })
+      )
+
+      const res = await app.request('/', {
+        headers: {
+          [HEADERS.HONERTIA]: 'true',
+          [HEADERS.PARTIAL_COMPONENT]: 'Dashboard',
+          [HEADERS.PARTIAL_EXCEPT]: 'user',
+        },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.stats).toBeUndefined()
+      expect(calls).toBe(0)
+    })
+
+    test('supports deferred shared props', async () => {
+      const app = createApp()
+      app.use('*', async (c, next) => {
+        c.var.honertia.share('notifications', defer(() => [1, 2]))
+        await next()
+      })
+      app.get('/', (c) => c.var.honertia.render('Home'))
+
+      const initial = (await (
+        await app.request('/', { headers: { [HEADERS.HONERTIA]: 'true' } })
+      ).json()) as PageObject
+      expect(initial.deferredProps).toEqual({ default: ['notifications'] })
+
+      const reload = (await (
+        await app.request('/', {
+          headers: {
+            [HEADERS.HONERTIA]: 'true',
+            [HEADERS.PARTIAL_COMPONENT]: 'Home',
+            [HEADERS.PARTIAL_DATA]: 'notifications',
+          },
+        })
+      ).json()) as PageObject
+      expect(reload.props.notifications).toEqual([1, 2])
+    })
+  })
+
+  describe('Merge Props', () => {
+    test('lists merge and deep merge props on the page object', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Posts', {
+          posts: merge([{ id: 1 }, { id: 2 }]),
+          threads: deepMerge({ a: { messages: [1] } }),
+          nextPage: 2,
+        })
+      )
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.posts).toEqual([{ id: 1 }, { id: 2 }])
+      expect(json.props.threads).toEqual({ a: { messages: [1] } })
+      expect(json.props.nextPage).toBe(2)
+      expect(json.mergeProps).toEqual(['posts'])
+      expect(json.deepMergeProps).toEqual(['threads'])
+    })
+
+    test('omits merge metadata when no merge props are present', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Posts', { posts: [] }))
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.mergeProps).toBeUndefined()
+      expect(json.deepMergeProps).toBeUndefined()
+    })
+
+    test('resolves lazy merge values', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Posts', { posts: merge(async () => [1, 2]) })
+      )
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.posts).toEqual([1, 2])
+    })
+
+    test('only lists merge props that survive partial filtering', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Posts', {
+          posts: merge([3, 4]),
+          comments: merge([5]),
+        })
+      )
+
+      const res = await app.request('/', {
+        headers: {
+          [HEADERS.HONERTIA]: 'true',
+          [HEADERS.PARTIAL_COMPONENT]: 'Posts',
+          [HEADERS.PARTIAL_DATA]: 'posts',
+        },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.posts).toEqual([3, 4])
+      expect(json.props.comments).toBeUndefined()
+      expect(json.mergeProps).toEqual(['posts'])
+    })
+
+    test('X-Inertia-Reset clears merging for the listed keys', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Posts', {
+          posts: merge([1]),
+          comments: merge([2]),
+          threads: deepMerge({}),
+        })
+      )
+
+      const res = await makeInertiaRequest(app, '/', { reset: 'posts, threads' })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.posts).toEqual([1])
+      expect(json.mergeProps).toEqual(['comments'])
+      expect(json.deepMergeProps).toBeUndefined()
+    })
+
+    test('supports merge props returned from deferred props', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Posts', { posts: defer(() => merge([1, 2])) })
+      )
+
+      const res = await app.request('/', {
+        headers: {
+          [HEADERS.HONERTIA]: 'true',
+          [HEADERS.PARTIAL_COMPONENT]: 'Posts',
+          [HEADERS.PARTIAL_DATA]: 'posts',
+        },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.posts).toEqual([1, 2])
+      expect(json.mergeProps).toEqual(['posts'])
+    })
+  })
+
+  describe('Optional and Always Props', () => {
+    test('never evaluates optional props on standard visits', async () => {
+      const app = createApp()
+      let calls = 0
+      app.get('/', (c) =>
+        c.var.honertia.render('Users', {
+          users: [1],
+          report: optional(() => {
+            calls++
+            return 'report'
+          }),
+        })
+      )
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.users).toEqual([1])
+      expect('report' in json.props).toBe(false)
+      expect(json.deferredProps).toBeUndefined()
+      expect(calls).toBe(0)
+    })
+
+    test('evaluates optional props when requested by name', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Users', {
+          users: [1],
+          report: optional(async () => 'report'),
+        })
+      )
+
+      const res = await makeInertiaRequest(app, '/', {
+        partialComponent: 'Users',
+        partialData: 'report',
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.report).toBe('report')
+      expect(json.props.users).toBeUndefined()
+    })
+
+    test('does not evaluate optional props on except-only partial reloads', async () => {
+      const app = createApp()
+      let calls = 0
+      app.get('/', (c) =>
+        c.var.honertia.render('Users', {
+          users: [1],
+          report: optional(() => {
+            calls++
+            return 'report'
+          }),
+        })
+      )
+
+      const res = await makeInertiaRequest(app, '/', {
+        partialComponent: 'Users',
+        partialExcept: 'users',
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.report).toBeUndefined()
+      expect(calls).toBe(0)
+    })
+
+    test('always props survive partial data filtering', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Users', {
+          users: [1],
+          projects: [2],
+          flash: always({ success: 'Saved' }),
+        })
+      )
+
+      const res = await makeInertiaRequest(app, '/', {
+        partialComponent: 'Users',
+        partialData: 'users',
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.users).toEqual([1])
+      expect(json.props.projects).toBeUndefined()
+      expect(json.props.flash).toEqual({ success: 'Saved' })
+    })
+
+    test('always props survive partial except', async () => {
+      const app = createApp()
+      app.use('*', async (c, next) => {
+        c.var.honertia.share('flash', always(async () => ({ success: 'Saved' })))
+        await next()
+      })
+      app.get('/', (c) => c.var.honertia.render('Users', { users: [1] }))
+
+      const res = await makeInertiaRequest(app, '/', {
+        partialComponent: 'Users',
+        partialExcept: 'flash,users',
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.users).toBeUndefined()
+      expect(json.props.flash).toEqual({ success: 'Saved' })
+    })
+
+    test('unwraps always props on standard visits', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Users', { flash: always(() => 'hello') })
+      )
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.flash).toBe('hello')
+    })
+  })
+
+  describe('Lazy Evaluation', () => {
+    test('does not resolve shared props excluded by a partial reload', async () => {
+      const app = createApp()
+      const resolved: string[] = []
+      app.use('*', async (c, next) => {
+        c.var.honertia.share('auth', () => {
+          resolved.push('auth')
+          return { user: null }
+        })
+        c.var.honertia.share('notifications', async () => {
+          resolved.push('notifications')
+          return []
+        })
+        await next()
+      })
+      app.get('/', (c) =>
+        c.var.honertia.render('Dashboard', {
+          stats: () => {
+            resolved.push('stats')
+            return { count: 1 }
+          },
+        })
+      )
+
+      const res = await makeInertiaRequest(app, '/', {
+        partialComponent: 'Dashboard',
+        partialData: 'stats',
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.stats).toEqual({ count: 1 })
+      expect(json.props.auth).toBeUndefined()
+      expect(resolved).toEqual(['stats'])
+    })
+
+    test('does not resolve props listed in partial except', async () => {
+      const app = createApp()
+      const resolved: string[] = []
+      app.use('*', async (c, next) => {
+        c.var.honertia.share('auth', () => {
+          resolved.push('auth')
+          return { user: null }
+        })
+        await next()
+      })
+      app.get('/', (c) => c.var.honertia.render('Dashboard', { title: 'Home' }))
+
+      await makeInertiaRequest(app, '/', {
+        partialComponent: 'Dashboard',
+        partialExcept: 'auth',
+      })
+
+      expect(resolved).toEqual([])
+    })
+
+    test('resolves lazy page props on standard visits', async () => {
+      const app = createApp()
+      app.get('/', (c) =>
+        c.var.honertia.render('Dashboard', { stats: async () => ({ count: 1 }) })
+      )
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true' },
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.stats).toEqual({ count: 1 })
+    })
+  })
+
+  describe('Error Bags', () => {
+    test('scopes errors under the requested error bag', async () => {
+      const app = createApp()
+      app.post('/password', (c) => {
+        c.var.honertia.setErrors({ password: 'Too short' })
+        return c.var.honertia.render('Profile/Edit')
+      })
+
+      const res = await makeInertiaRequest(app, '/password', {
+        method: 'POST',
+        errorBag: 'updatePassword',
+      })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.errors).toEqual({ updatePassword: { password: 'Too short' } })
+    })
+
+    test('keeps errors flat without an error bag header', async () => {
+      const app = createApp()
+      app.get('/', (c) => {
+        c.var.honertia.setErrors({ name: 'Required' })
+        return c.var.honertia.render('Profile/Edit')
+      })
+
+      const res = await makeInertiaRequest(app, '/')
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.errors).toEqual({ name: 'Required' })
+    })
+
+    test('setErrors with an explicit bag nests errors under it', async () => {
+      const app = createApp()
+      app.get('/', (c) => {
+        c.var.honertia.setErrors({ name: 'Required' })
+        c.var.honertia.setErrors({ password: 'Too short' }, 'updatePassword')
+        c.var.honertia.setErrors({ confirm: 'Mismatch' }, 'updatePassword')
+        return c.var.honertia.render('Profile/Edit')
+      })
+
+      const res = await makeInertiaRequest(app, '/')
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.errors).toEqual({
+        name: 'Required',
+        updatePassword: { password: 'Too short', confirm: 'Mismatch' },
+      })
+    })
+
+    test('merges unscoped and bagged errors for the requested bag', async () => {
+      const app = createApp()
+      app.get('/', (c) => {
+        c.var.honertia.setErrors({ name: 'Required' })
+        c.var.honertia.setErrors({ email: 'Taken' }, 'updateProfile')
+        return c.var.honertia.render('Profile/Edit')
+      })
+
+      const res = await makeInertiaRequest(app, '/', { errorBag: 'updateProfile' })
+
+      const json = (await res.json()) as PageObject
+      expect(json.props.errors).toEqual({
+        updateProfile: { name: 'Required', email: 'Taken' },
+      })
+    })
+  })
+
+  describe('Document Head', () => {
+    test('includes head entries in the Inertia response', async () => {
+      const app = createApp()
+      app.get('/', (c) => {
+        c.var.honertia.setHead({
+          title: 'Pricing',
+          meta: [{ name: 'description', content: 'Plans and pricing' }],
+        })
+        return c.var.honertia.render('Pricing')
+      })
+
+      const res = await makeInertiaRequest(app, '/')
+
+      const json = (await res.json()) as PageObject
+      expect(json.head).toEqual({
+        title: 'Pricing',
+        meta: [{ name: 'description', content: 'Plans and pricing' }],
+      })
+    })
+
+    test('omits head when nothing was set', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home'))
+
+      const res = await makeInertiaRequest(app, '/')
+
+      const json = (await res.json()) as PageObject
+      expect(json.head).toBeUndefined()
+    })
+
+    test('later entries replace earlier ones by key', async () => {
+      const app = createApp()
+      app.use('*', async (c, next) => {
+        c.var.honertia.setHead({
+          title: 'Acme',
+          meta: [
+            { name: 'description', content: 'Default' },
+            { property: 'og:site_name', content: 'Acme' },
+          ],
+          link: [
+            { rel: 'canonical', href: 'https://acme.test/' },
+            { rel: 'icon', href: '/favicon.ico' },
+          ],
+          jsonLd: [{ '@type': 'Organization' }],
+        })
+        await next()
+      })
+      app.get('/', (c) => {
+        c.var.honertia.setHead({
+          title: 'Blog - Acme',
+          meta: [{ name: 'description', content: 'Latest posts' }],
+          link: [{ rel: 'canonical', href: 'https://acme.test/blog' }],
+          jsonLd: [{ '@type': 'Blog' }],
+        })
+        return c.var.honertia.render('Blog')
+      })
+
+      const res = await makeInertiaRequest(app, '/')
+
+      const json = (await res.json()) as PageObject
+      expect(json.head).toEqual({
+        title: 'Blog - Acme',
+        meta: [
+          { name: 'description', content: 'Latest posts' },
+          { property: 'og:site_name', content: 'Acme' },
+        ],
+        link: [
+          { rel: 'canonical', href: 'https://acme.test/blog' },
+          { rel: 'icon', href: '/favicon.ico' },
+        ],
+        jsonLd: [{ '@type': 'Organization' }, { '@type': 'Blog' }],
+      })
+    })
+  })
+
   describe('Redirect Handling', () => {
     test('converts 302 to 303 for POST requests with Honertia', async () => {
       const app = createApp()
@@ -462,7 +1035,110 @@ describe('Honertia Middleware', () => {
         headers: { [HEADERS.HONERTIA]: 'true' },
       })
 
-      expect(res.headers.get('Vary')).toBe(HEADERS.HONERTIA)
+      const vary = res.headers.get('Vary')!.split(', ')
+      expect(vary).toContain(HEADERS.HONERTIA)
+      expect(vary).toContain(HEADERS.PARTIAL_COMPONENT)
+      expect(vary).toContain(HEADERS.PARTIAL_DATA)
+      expect(vary).toContain(HEADERS.PARTIAL_EXCEPT)
+      expect(vary).toContain(HEADERS.RESET)
+      expect(vary).toContain(HEADERS.ERROR_BAG)
+    })
+  })
+
+  describe('Conditional GET', () => {
+    test('sends a weak ETag with Inertia responses', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home', { count: 1 }))
+
+      const res = await makeInertiaRequest(app, '/')
+
+      expect(res.headers.get('ETag')).toMatch(/^W\/"[0-9a-f]{40}"$/)
+    })
+
+    test('ETag is stable for the same page', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home', { count: 1 }))
+
+      const first = await makeInertiaRequest(app, '/')
+      const second = await makeInertiaRequest(app, '/')
+
+      expect(first.headers.get('ETag')).toBe(second.headers.get('ETag'))
+    })
+
+    test('ETag changes with props, partial reloads, and version', async () => {
+      let count = 1
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home', { count, users: ['a'] }))
+
+      const base = (await makeInertiaRequest(app, '/')).headers.get('ETag')
+      const partial = (
+        await makeInertiaRequest(app, '/', { partialComponent: 'Home', partialData: 'users' })
+      ).headers.get('ETag')
+      count = 2
+      const changed = (await makeInertiaRequest(app, '/')).headers.get('ETag')
+
+      const otherVersion = createApp('2.0.0')
+      otherVersion.get('/', (c) => c.var.honertia.render('Home', { count: 1, users: ['a'] }))
+      const versioned = (
+        await makeInertiaRequest(otherVersion, '/', { version: '2.0.0' })
+      ).headers.get('ETag')
+
+      expect(new Set([base, partial, changed, versioned]).size).toBe(4)
+    })
+
+    test('answers a matching If-None-Match with 304', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home', { count: 1 }))
+
+      const first = await makeInertiaRequest(app, '/')
+      const etag = first.headers.get('ETag')!
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true', 'If-None-Match': `"other", ${etag}` },
+      })
+
+      expect(res.status).toBe(304)
+      expect(await res.text()).toBe('')
+      expect(res.headers.get('ETag')).toBe(etag)
+      expect(res.headers.get('Vary')).toContain(HEADERS.PARTIAL_DATA)
+    })
+
+    test('returns the page when If-None-Match does not match', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home'))
+
+      const res = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true', 'If-None-Match': 'W/"stale"' },
+      })
+
+      expect(res.status).toBe(200)
+    })
+
+    test('does not send ETags for non-GET requests or when disabled', async () => {
+      const app = createApp()
+      app.post('/', (c) => c.var.honertia.render('Home'))
+      const disabled = new Hono()
+      disabled.use('*', honertia({ version: '1.0.0', render: () => '', etag: false }))
+      disabled.get('/', (c) => c.var.honertia.render('Home'))
+
+      const post = await makeInertiaRequest(app, '/', { method: 'POST' })
+      const off = await makeInertiaRequest(disabled, '/')
+
+      expect(post.headers.get('ETag')).toBeNull()
+      expect(off.headers.get('ETag')).toBeNull()
+    })
+
+    test('applies the render cacheControl option', async () => {
+      const app = createApp()
+      app.get('/', (c) => c.var.honertia.render('Home', {}, { cacheControl: 'private, max-age=30' }))
+
+      const first = await makeInertiaRequest(app, '/')
+      const notModified = await app.request('/', {
+        headers: { [HEADERS.HONERTIA]: 'true', 'If-None-Match': first.headers.get('ETag')! },
+      })
+
+      expect(first.headers.get('Cache-Control')).toBe('private, max-age=30')
+      expect(notModified.headers.get('Cache-Control')).toBe('private, max-age=30')
     })
   })
 
@@ -1030,6 +1706,8 @@ describe('HEADERS constant', () => {
     expect(HEADERS.PARTIAL_COMPONENT).toBe('X-Inertia-Partial-Component')
     expect(HEADERS.PARTIAL_DATA).toBe('X-Inertia-Partial-Data')
     expect(HEADERS.PARTIAL_EXCEPT).toBe('X-Inertia-Partial-Except')
+    expect(HEADERS.RESET).toBe('X-Inertia-Reset')
+    expect(HEADERS.ERROR_BAG).toBe('X-Inertia-Error-Bag')
     expect(HEADERS.LOCATION).toBe('X-Inertia-Location')
   })
 })
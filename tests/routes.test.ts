@@ -0,0 +1,102 @@
+/**
+ * Named Route URL Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import {
+  createRouteHelper,
+  buildRouteUrl,
+  buildQueryString,
+  RouteParamError,
+  type RouteParamValue,
+} from '../src/routes.js'
+
+const route = createRouteHelper<{
+  'projects.index': Record<never, never>
+  'projects.show': { project: RouteParamValue<'slug'> }
+  'tasks.show': { org: RouteParamValue<'id'>; task: RouteParamValue<'id'> }
+  'posts.index': { page?: RouteParamValue<'id'> }
+}>({
+  'projects.index': { method: 'get', path: '/projects' },
+  'projects.show': { method: 'get', path: '/projects/:project', bindings: { project: 'slug' } },
+  'tasks.show': { method: 'get', path: '/orgs/:org/tasks/:task' },
+  'posts.index': { method: 'get', path: '/posts/:page?' },
+})
+
+describe('createRouteHelper', () => {
+  test('builds URLs without params', () => {
+    expect(route('projects.index')).toBe('/projects')
+  })
+
+  test('substitutes scalar params', () => {
+    expect(route('projects.show', { project: 'my-project' })).toBe('/projects/my-project')
+    expect(route('tasks.show', { org: 3, task: 42 })).toBe('/orgs/3/tasks/42')
+  })
+
+  test('reads model objects by binding column', () => {
+    const project = { id: 1, slug: 'launch' }
+    const task = { id: 42 }
+
+    expect(route('projects.show', { project })).toBe('/projects/launch')
+    expect(route('tasks.show', { org: { id: 3 }, task })).toBe('/orgs/3/tasks/42')
+  })
+
+  test('encodes param values', () => {
+    expect(route('projects.show', { project: 'a b/c' })).toBe('/projects/a%20b%2Fc')
+  })
+
+  test('appends the query string', () => {
+    expect(route('projects.index', {}, { page: 2, tags: ['a', 'b'], draft: undefined }))
+      .toBe('/projects?page=2&tags=a&tags=b')
+  })
+
+  test('omits missing optional params', () => {
+    expect(route('posts.index')).toBe('/posts')
+    expect(route('posts.index', { page: 2 })).toBe('/posts/2')
+  })
+
+  test('throws RouteParamError for missing required params', () => {
+    // Cast simulates untyped callers
+    const untyped = route as unknown as (name: string, params?: object) => string
+    expect(() => untyped('projects.show', {})).toThrow(RouteParamError)
+    expect(() => untyped('projects.show', { project: {} })).toThrow("Missing route param 'project' for 'projects.show'")
+  })
+
+  test('throws for unknown route names', () => {
+    const untyped = route as unknown as (name: string) => string
+    expect(() => untyped('missing')).toThrow("Unknown route 'missing'")
+  })
+
+  test('has() and definition() expose routes', () => {
+    expect(route.has('projects.show')).toBe(true)
+    expect(route.has('toString')).toBe(false)
+    expect(route.definition('projects.show').path).toBe('/projects/:project')
+  })
+
+  test('prefixes the base URL', () => {
+    const absolute = createRouteHelper<{ home: Record<never, never> }>(
+      { home: { method: 'get', path: '/' } },
+      { base: 'https://app.example.com/' }
+    )
+
+    expect(absolute('home')).toBe('https://app.example.com/')
+  })
+})
+
+describe('buildRouteUrl', () => {
+  test('strips Hono param patterns', () => {
+    expect(buildRouteUrl('posts.show', { method: 'get', path: '/posts/:id{[0-9]+}' }, { id: 7 }))
+      .toBe('/posts/7')
+  })
+})
+
+describe('buildQueryString', () => {
+  test('returns an empty string for empty queries', () => {
+    expect(buildQueryString()).toBe('')
+    expect(buildQueryString({ a: null })).toBe('')
+  })
+
+  test('stringifies booleans', () => {
+    expect(buildQueryString({ archived: true })).toBe('?archived=true')
+  })
+})
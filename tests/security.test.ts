@@ -0,0 +1,174 @@
+/**
+ * Security Headers Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Hono } from 'hono'
+import { securityHeaders, buildContentSecurityPolicy } from '../src/security.js'
+import { setupHonertia } from '../src/setup.js'
+import { createTemplate, vite } from '../src/helpers.js'
+
+const createApp = (config: Parameters<typeof securityHeaders>[0] = {}) => {
+  const app = new Hono()
+  app.use('*', securityHeaders(config))
+  app.get('/', (c) => c.text(c.var.cspNonce))
+  return app
+}
+
+const prodEnv = { ENVIRONMENT: 'production' }
+const devEnv = { ENVIRONMENT: 'development' }
+
+describe('securityHeaders', () => {
+  test('generates a fresh nonce per request', async () => {
+    const app = createApp()
+
+    const first = await (await app.request('/', {}, prodEnv)).text()
+    const second = await (await app.request('/', {}, prodEnv)).text()
+
+    expect(first).toMatch(/^[A-Za-z0-9+/]+=*$/)
+    expect(first).not.toBe(second)
+  })
+
+  test('sets production defaults', async () => {
+    const app = createApp()
+
+    const res = await app.request('/', {}, prodEnv)
+    const nonce = await res.text()
+    const csp = res.headers.get('Content-Security-Policy')
+
+    expect(csp).toContain("default-src 'self'")
+    expect(csp).toContain(`script-src 'self' 'nonce-${nonce}'`)
+    expect(csp).toContain(`style-src 'self' 'nonce-${nonce}'`)
+    expect(csp).toContain("object-src 'none'")
+    expect(res.headers.get('Strict-Transport-Security')).toBe('max-age=31536000; includeSubDomains')
+    expect(res.headers.get('X-Frame-Options')).toBe('SAMEORIGIN')
+    expect(res.headers.get('Referrer-Policy')).toBe('strict-origin-when-cross-origin')
+  })
+
+  test('relaxes defaults for development', async () => {
+    const app = createApp()
+
+    const res = await app.request('/', {}, devEnv)
+    const nonce = await res.text()
+    const csp = res.headers.get('Content-Security-Policy')
+
+    expect(csp).toContain(`script-src 'self' http://localhost:5173 'nonce-${nonce}'`)
+    expect(csp).toContain("style-src 'self' 'unsafe-inline' http://localhost:5173;")
+    expect(csp).toContain('connect-src \'self\' http://localhost:5173 ws://localhost:5173')
+    expect(res.headers.get('Strict-Transport-Security')).toBeNull()
+  })
+
+  test('merges custom directives over the defaults', async () => {
+    const app = createApp({
+      contentSecurityPolicy: {
+        'img-src': ["'self'", 'https://images.example.com'],
+        'object-src': false,
+        'upgrade-insecure-requests': true,
+      },
+    })
+
+    const res = await app.request('/', {}, prodEnv)
+    const csp = res.headers.get('Content-Security-Policy')
+
+    expect(csp).toContain("img-src 'self' https://images.example.com")
+    expect(csp).not.toContain('object-src')
+    expect(csp).toContain('upgrade-insecure-requests')
+    expect(csp).toContain("default-src 'self'")
+  })
+
+  test('supports report-only mode', async () => {
+    const app = createApp({ reportOnly: true })
+
+    const res = await app.request('/', {}, prodEnv)
+
+    expect(res.headers.get('Content-Security-Policy')).toBeNull()
+    expect(res.headers.get('Content-Security-Policy-Report-Only')).toContain("default-src 'self'")
+  })
+
+  test('headers can be configured or disabled', async () => {
+    const app = createApp({
+      contentSecurityPolicy: false,
+      hsts: { maxAge: 600, includeSubDomains: false, preload: true },
+      frameOptions: 'DENY',
+      referrerPolicy: false,
+    })
+
+    const res = await app.request('/', {}, prodEnv)
+
+    expect(res.headers.get('Content-Security-Policy')).toBeNull()
+    expect(res.headers.get('Strict-Transport-Security')).toBe('max-age=600; preload')
+    expect(res.headers.get('X-Frame-Options')).toBe('DENY')
+    expect(res.headers.get('Referrer-Policy')).toBeNull()
+  })
+
+  test('does not override headers set by the handler', async () => {
+    const app = new Hono()
+    app.use('*', securityHeaders())
+    app.get('/embed', (c) => c.text('ok', 200, { 'X-Frame-Options': 'ALLOWALL' }))
+
+    const res = await app.request('/embed', {}, prodEnv)
+
+    expect(res.headers.get('X-Frame-Options')).toBe('ALLOWALL')
+  })
+})
+
+describe('buildContentSecurityPolicy', () => {
+  test('skips the nonce when a directive allows unsafe-inline', () => {
+    const csp = buildContentSecurityPolicy(
+      { 'script-src': "'self'", 'style-src': ["'self'", "'unsafe-inline'"] },
+      'abc'
+    )
+
+    expect(csp).toBe("script-src 'self' 'nonce-abc'; style-src 'self' 'unsafe-inline'")
+  })
+})
+
+describe('setupHonertia security option', () => {
+  test('applies the nonce to every script and style tag in the template', async () => {
+    const app = new Hono()
+    app.use(
+      '*',
+      setupHonertia({
+        honertia: {
+          version: '1.0.0',
+          render: createTemplate({
+            scripts: ['/assets/main.js'],
+            styles: ['/assets/main.css'],
+            preloads: ['/assets/vendor.js'],
+            head: `${vite.hmrHead()}<style>body{margin:0}</style>`,
+          }),
+        },
+        security: true,
+      })
+    )
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const res = await app.request('/', {}, prodEnv)
+    const html = await res.text()
+    const nonce = res.headers
+      .get('Content-Security-Policy')!
+      .match(/'nonce-([^']+)'/)![1]
+
+    const tags = html.match(/<(script|style|link)\b[^>]*>/g)!
+    expect(tags.length).toBe(6)
+    for (const tag of tags) {
+      expect(tag).toContain(`nonce="${nonce}"`)
+    }
+  })
+
+  test('is disabled by default', async () => {
+    const app = new Hono()
+    app.use(
+      '*',
+      setupHonertia({
+        honertia: { version: '1.0.0', render: createTemplate({ scripts: ['/main.js'] }) },
+      })
+    )
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const res = await app.request('/', {}, prodEnv)
+
+    expect(res.headers.get('Content-Security-Policy')).toBeNull()
+    expect(await res.text()).not.toContain('nonce=')
+  })
+})
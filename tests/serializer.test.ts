@@ -0,0 +1,141 @@
+/**
+ * Prop Serialization Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Hono } from 'hono'
+import { encodeProps, decodeProps, taggedSerializer } from '../src/serializer.js'
+import { decodePage } from '../src/react.js'
+import { honertia, HEADERS } from '../src/middleware.js'
+import { createTemplate } from '../src/helpers.js'
+import type { PageObject } from '../src/types.js'
+
+const roundTrip = <T>(value: T): T =>
+  decodeProps<T>(JSON.parse(JSON.stringify(encodeProps(value))))
+
+describe('encodeProps / decodeProps', () => {
+  test('round-trips dates', () => {
+    const date = new Date('2026-03-01T12:30:00.000Z')
+
+    const decoded = roundTrip({ createdAt: date })
+
+    expect(decoded.createdAt).toBeInstanceOf(Date)
+    expect(decoded.createdAt.toISOString()).toBe('2026-03-01T12:30:00.000Z')
+  })
+
+  test('round-trips invalid dates', () => {
+    const decoded = roundTrip(new Date('nope'))
+
+    expect(decoded).toBeInstanceOf(Date)
+    expect(Number.isNaN(decoded.getTime())).toBe(true)
+  })
+
+  test('round-trips bigints beyond Number.MAX_SAFE_INTEGER', () => {
+    const decoded = roundTrip({ id: 9007199254740993n })
+
+    expect(decoded.id).toBe(9007199254740993n)
+  })
+
+  test('round-trips maps and sets with nested values', () => {
+    const value = {
+      roles: new Set(['admin', 'editor']),
+      lastSeen: new Map<string, Date>([['u1', new Date(0)]]),
+    }
+
+    const decoded = roundTrip(value)
+
+    expect(decoded.roles).toEqual(new Set(['admin', 'editor']))
+    expect(decoded.lastSeen.get('u1')).toEqual(new Date(0))
+  })
+
+  test('preserves undefined in objects and arrays', () => {
+    const decoded = roundTrip({ deletedAt: undefined, list: [1, undefined] })
+
+    expect('deletedAt' in decoded).toBe(true)
+    expect(decoded.deletedAt).toBeUndefined()
+    expect(decoded.list).toEqual([1, undefined])
+  })
+
+  test('escapes objects that use the tag key', () => {
+    const value = { meta: { $t: 'Date', v: 'not a date' } }
+
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  test('follows JSON semantics for other values', () => {
+    const value = {
+      decimal: { toJSON: () => '1.50' },
+      fn: () => 1,
+      nested: [{ ok: true, n: null }],
+    }
+
+    expect(roundTrip(value)).toEqual({
+      decimal: '1.50',
+      nested: [{ ok: true, n: null }],
+    } as any)
+  })
+
+  test('leaves plain JSON values untouched', () => {
+    const value = { name: 'Acme', count: 3, tags: ['a'], nested: { ok: true } }
+
+    expect(encodeProps(value)).toEqual(value)
+  })
+})
+
+describe('serializer config', () => {
+  const createApp = () => {
+    const app = new Hono()
+    app.use(
+      '*',
+      honertia({
+        version: '1.0.0',
+        render: createTemplate({}),
+        serializer: taggedSerializer,
+      })
+    )
+    app.get('/', (c) =>
+      c.var.honertia.render('Projects/Show', {
+        project: { id: 12n, createdAt: new Date('2026-01-02T00:00:00.000Z') },
+      })
+    )
+    return app
+  }
+
+  test('encodes props in Inertia JSON responses', async () => {
+    const res = await createApp().request('/', { headers: { [HEADERS.HONERTIA]: 'true' } })
+
+    const page = decodePage<{ project: { id: bigint; createdAt: Date } }>(
+      (await res.json()) as PageObject
+    )
+    expect(page.props.project.id).toBe(12n)
+    expect(page.props.project.createdAt).toEqual(new Date('2026-01-02T00:00:00.000Z'))
+    expect(page.props.errors).toEqual({})
+  })
+
+  test('encodes props in the HTML data-page payload', async () => {
+    const res = await createApp().request('/')
+    const html = await res.text()
+
+    const raw = html.match(/data-page='([^']*)'/)![1]
+    const page = decodePage<{ project: { id: bigint } }>(JSON.parse(raw))
+    expect(page.props.project.id).toBe(12n)
+  })
+
+  test('uses a custom serializer', async () => {
+    const app = new Hono()
+    app.use(
+      '*',
+      honertia({
+        version: '1.0.0',
+        render: () => '',
+        serializer: { serialize: (props) => ({ ...props, serialized: true }) },
+      })
+    )
+    app.get('/', (c) => c.var.honertia.render('Home'))
+
+    const res = await app.request('/', { headers: { [HEADERS.HONERTIA]: 'true' } })
+
+    const page = (await res.json()) as PageObject
+    expect(page.props.serialized).toBe(true)
+  })
+})
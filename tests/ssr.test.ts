@@ -0,0 +1,211 @@
+/**
+ * Server-Side Rendering Tests
+ */
+
+import { describe, test, expect } from 'bun:test'
+import { Hono } from 'hono'
+import { honertia, HEADERS } from '../src/middleware.js'
+import { renderSsr } from '../src/ssr.js'
+import { createTemplate } from '../src/helpers.js'
+import { ErrorCodes } from '../src/effect/error-catalog.js'
+import type { HonertiaStructuredError } from '../src/effect/error-types.js'
+import type { PageObject, SsrConfig } from '../src/types.js'
+
+const createApp = (ssr: SsrConfig) => {
+  const app = new Hono()
+  app.use(
+    '*',
+    honertia({
+      version: '1.0.0',
+      render: createTemplate({ title: 'App' }),
+      ssr,
+    })
+  )
+  app.get('/', (c) => c.var.honertia.render('Home', { name: 'World' }))
+  return app
+}
+
+const ssrBody = (page: PageObject) =>
+  `<div id="app" data-page="${page.component}"><h1>Hello ${page.props.name}</h1></div>`
+
+describe('SSR', () => {
+  describe('render function', () => {
+    test('injects head and body into the template', async () => {
+      const app = createApp({
+        render: (page) => ({
+          head: ['<meta name="description" content="Home">'],
+          body: ssrBody(page),
+        }),
+      })
+
+      const html = await (await app.request('/')).text()
+      expect(html).toContain('<h1>Hello World</h1>')
+      expect(html).toContain('<meta name="description" content="Home">')
+    })
+
+    test('is skipped for Inertia requests', async () => {
+      let calls = 0
+      const app = createApp({
+        render: (page) => {
+          calls++
+          return { head: [], body: ssrBody(page) }
+        },
+      })
+
+      const res = await app.request('/', { headers: { [HEADERS.HONERTIA]: 'true' } })
+      expect(res.headers.get('Content-Type')).toContain('application/json')
+      expect(calls).toBe(0)
+    })
+
+    test('can be disabled per request', async () => {
+      let calls = 0
+      const app = createApp({
+        enabled: (c) => c.req.path !== '/',
+        render: (page) => {
+          calls++
+          return { head: [], body: ssrBody(page) }
+        },
+      })
+
+      const html = await (await app.request('/')).text()
+      expect(html).toContain("data-page='")
+      expect(calls).toBe(0)
+    })
+  })
+
+  describe('module loader', () => {
+    test('renders with a module exporting render', async () => {
+      const app = createApp({
+        module: async () => ({
+          render: (page: PageObject) => ({ head: [], body: ssrBody(page) }),
+        }),
+      })
+
+      const html = await (await app.request('/')).text()
+      expect(html).toContain('<h1>Hello World</h1>')
+    })
+
+    test('renders with a default export and loads it once', async () => {
+      let loads = 0
+      const app = createApp({
+        module: () => {
+          loads++
+          return { default: (page: PageObject) => ({ head: [], body: ssrBody(page) }) }
+        },
+      })
+
+      await app.request('/')
+      const html = await (await app.request('/')).text()
+      expect(html).toContain('<h1>Hello World</h1>')
+      expect(loads).toBe(1)
+    })
+  })
+
+  describe('HTTP endpoint', () => {
+    test('posts the page object and uses the response', async () => {
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const page = (await req.json()) as PageObject
+          return Response.json({ head: ['<title>SSR</title>'], body: ssrBody(page) })
+        },
+      })
+
+      try {
+        const app = createApp({ url: `http://localhost:${server.port}/render` })
+        const html = await (await app.request('/')).text()
+        expect(html).toContain('<h1>Hello World</h1>')
+        expect(html).toContain('<title>SSR</title>')
+      } finally {
+        server.stop(true)
+      }
+    })
+
+    test('falls back when the server returns an error status', async () => {
+      const server = Bun.serve({
+        port: 0,
+        fetch: () => new Response('boom', { status: 500 }),
+      })
+
+      const errors: HonertiaStructuredError[] = []
+      try {
+        const app = createApp({
+          url: `http://localhost:${server.port}/render`,
+          onError: (error) => errors.push(error),
+        })
+        const res = await app.request('/')
+        expect(res.status).toBe(200)
+        expect(await res.text()).toContain("data-page='")
+        expect(errors[0].message).toContain('500')
+      } finally {
+        server.stop(true)
+      }
+    })
+  })
+
+  describe('fallback', () => {
+    test('falls back to client rendering and reports a structured error', async () => {
+      const errors: HonertiaStructuredError[] = []
+      const app = createApp({
+        render: () => {
+          throw new Error('window is not defined')
+        },
+        onError: (error) => errors.push(error),
+      })
+
+      const res = await app.request('/')
+      const html = await res.text()
+
+      expect(res.status).toBe(200)
+      expect(html).toContain("data-page='")
+      expect(html).toContain('"component":"Home"')
+      expect(errors).toHaveLength(1)
+      expect(errors[0].code).toBe(ErrorCodes.SVC_702_SSR_FAILED)
+      expect(errors[0].message).toContain('Home')
+      expect(errors[0].message).toContain('window is not defined')
+    })
+
+    test('falls back when the renderer returns an invalid result', async () => {
+      const errors: HonertiaStructuredError[] = []
+      const app = createApp({
+        render: () => ({ head: [] }) as any,
+        onError: (error) => errors.push(error),
+      })
+
+      const html = await (await app.request('/')).text()
+      expect(html).toContain("data-page='")
+      expect(errors[0].code).toBe(ErrorCodes.SVC_702_SSR_FAILED)
+    })
+
+    test('falls back when the module fails to load', async () => {
+      const errors: HonertiaStructuredError[] = []
+      const app = createApp({
+        module: async () => {
+          throw new Error('Cannot find module')
+        },
+        onError: (error) => errors.push(error),
+      })
+
+      const html = await (await app.request('/')).text()
+      expect(html).toContain("data-page='")
+      expect(errors[0].message).toContain('Cannot find module')
+    })
+  })
+
+  describe('renderSsr', () => {
+    test('returns undefined when SSR is not configured', async () => {
+      const app = new Hono()
+      app.get('/', async (c) => {
+        const result = await renderSsr(undefined, {
+          component: 'Home',
+          props: {},
+          url: '/',
+          version: '1',
+        }, c)
+        return c.text(String(result))
+      })
+
+      expect(await (await app.request('/')).text()).toBe('undefined')
+    })
+  })
+})
@@ -14,6 +14,7 @@ import {
   assertInertiaResponse,
   assertHtmlResponse,
   assertVersionMismatch,
+  assertExternalRedirect,
   assertPageObject,
   mockUsers,
   mockProjects,
@@ -237,6 +238,22 @@ describe('Test Utilities', () => {
       expect(() => assertVersionMismatch(res)).not.toThrow()
     })
 
+    test('assertExternalRedirect accepts 409 and 3xx responses', () => {
+      const inertia = new Response(null, {
+        status: 409,
+        headers: { [HEADERS.LOCATION]: 'https://example.com' },
+      })
+      const standard = new Response(null, {
+        status: 302,
+        headers: { Location: 'https://example.com' },
+      })
+
+      expect(() => assertExternalRedirect(inertia, 'https://example.com')).not.toThrow()
+      expect(() => assertExternalRedirect(standard, 'https://example.com')).not.toThrow()
+      expect(() => assertExternalRedirect(standard, 'https://other.com')).toThrow()
+      expect(() => assertExternalRedirect(new Response('OK'))).toThrow()
+    })
+
     test('assertPageObject validates page properties', () => {
       const page = {
         component: 'Dashboard',
@@ -155,6 +155,24 @@ describe('React Type Utilities', () => {
     test('allows empty object', () => {
       const props: SharedProps = {}
       expect(props.errors).toBeUndefined()
+      expect(props.auth).toBeUndefined()
+      expect(props.flash).toBeUndefined()
+    })
+
+    test('types auth user from the auth user type', () => {
+      const user = {
+        id: 'user-1',
+        email: 'ada@example.com',
+        name: 'Ada',
+        emailVerified: true,
+        image: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+      const props: SharedProps = { auth: { user }, flash: { success: 'Saved' } }
+
+      expect(props.auth?.user?.email).toBe('ada@example.com')
+      expect(props.flash?.success).toBe('Saved')
     })
   })
 